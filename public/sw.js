@@ -0,0 +1,134 @@
+// DermoLink reminder worker. Shows system notifications for due doses and
+// check-ins using only local wake-ups; see src/services/reminderService.ts for
+// the page side and the reminder shape.
+
+const SYNC_TAG = 'dermolink-reminders';
+const STATE_CACHE = 'dermolink-reminders-v1';
+const STATE_KEY = '/__reminder-state';
+const MAX_TIMER_MS = 5 * 60 * 1000; // Browsers stop idle workers within minutes, so longer timers never fire
+
+let timer = null;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+// State is { reminders: ScheduledReminder[], shown: string[] }, kept in Cache Storage
+// so it survives the worker being stopped between wake-ups
+const loadState = async () => {
+  const cache = await caches.open(STATE_CACHE);
+  const response = await cache.match(STATE_KEY);
+  if (!response) return { reminders: [], shown: [] };
+  try {
+    return await response.json();
+  } catch {
+    return { reminders: [], shown: [] };
+  }
+};
+
+const saveState = async state => {
+  const cache = await caches.open(STATE_CACHE);
+  await cache.put(STATE_KEY, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const canNotify = () => self.Notification && Notification.permission === 'granted';
+
+// A visible dashboard already rings the in-app alarm, so a system notification would be a duplicate
+const dashboardVisible = async () => {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  return windows.some(w => w.visibilityState === 'visible' && new URL(w.url).pathname.startsWith('/patient/'));
+};
+const supportsTriggers = () => 'TimestampTrigger' in self;
+
+const notificationOptions = reminder => ({
+  body: reminder.body,
+  tag: reminder.id,
+  data: { url: reminder.url },
+  requireInteraction: true,
+  renotify: true
+});
+
+// Shows every reminder that has fallen due and is not stale yet, once each
+const showDue = async () => {
+  const state = await loadState();
+  const now = Date.now();
+  const due = state.reminders.filter(r => r.at <= now && now < r.until && !state.shown.includes(r.id));
+  if (due.length > 0 && canNotify() && !(await dashboardVisible())) {
+    await Promise.all(due.map(r => self.registration.showNotification(r.title, notificationOptions(r))));
+    state.shown = [...state.shown, ...due.map(r => r.id)];
+  }
+  // Forget anything stale so the state does not grow without bound
+  state.reminders = state.reminders.filter(r => now < r.until);
+  state.shown = state.shown.filter(id => state.reminders.some(r => r.id === id));
+  await saveState(state);
+  scheduleTimer(state.reminders);
+};
+
+// Best effort only: fires if the worker is still alive when the next reminder is due
+const scheduleTimer = reminders => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const next = reminders.filter(r => r.at > Date.now()).map(r => r.at).sort((a, b) => a - b)[0];
+  if (next === undefined || next - Date.now() > MAX_TIMER_MS) return;
+  timer = setTimeout(() => { showDue(); }, next - Date.now());
+};
+
+// Where notification triggers exist the browser shows the notification itself,
+// even with the worker stopped; stale or removed ones are closed first
+const scheduleTriggers = async reminders => {
+  const existing = await self.registration.getNotifications({ includeTriggered: true });
+  const ids = reminders.map(r => r.id);
+  existing.forEach(n => { if (!ids.includes(n.tag)) n.close(); });
+  if (!supportsTriggers() || !canNotify()) return;
+  const now = Date.now();
+  await Promise.all(reminders
+    .filter(r => r.at > now)
+    .map(r => self.registration.showNotification(r.title, {
+      ...notificationOptions(r),
+      showTrigger: new self.TimestampTrigger(r.at)
+    })));
+};
+
+const replaceSchedule = async reminders => {
+  const state = await loadState();
+  const ids = reminders.map(r => r.id);
+  // A reminder stays "shown" unless its time moved, e.g. after a snooze
+  const unchanged = state.reminders.filter(r => reminders.some(n => n.id === r.id && n.at === r.at)).map(r => r.id);
+  const triggered = supportsTriggers() ? reminders.filter(r => r.at > Date.now()).map(r => r.id) : [];
+  await saveState({
+    reminders,
+    shown: [...new Set([...state.shown.filter(id => unchanged.includes(id)), ...triggered])].filter(id => ids.includes(id))
+  });
+  await scheduleTriggers(reminders);
+  await showDue();
+};
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+  if (message.type === 'schedule' && Array.isArray(message.reminders)) {
+    event.waitUntil(replaceSchedule(message.reminders));
+  } else if (message.type === 'test' && message.reminder) {
+    // Kept out of the stored schedule; waitUntil holds the worker alive for the short delay
+    const reminder = message.reminder;
+    event.waitUntil(new Promise(resolve => setTimeout(resolve, Math.max(0, reminder.at - Date.now())))
+      .then(() => canNotify() && self.registration.showNotification(reminder.title, notificationOptions(reminder))));
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === SYNC_TAG) event.waitUntil(showDue());
+});
+
+// Focus an open dashboard and let it open the alarm itself, or open a new window on the deep link
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/patient/dashboard';
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const dashboard = windows.find(w => new URL(w.url).pathname.startsWith('/patient/'));
+    if (dashboard) {
+      dashboard.postMessage({ type: 'open-reminder', url });
+      return dashboard.focus();
+    }
+    return self.clients.openWindow(url);
+  })());
+});
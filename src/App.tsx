@@ -1,20 +1,25 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { toast } from 'sonner';
 import { useAuth } from './context/AuthContext';
 import { UserRole } from './types/index';
+import { onAuditFailure } from './services/auditService';
 import Login from './pages/Auth/Login';
+import Unauthorized from './pages/Auth/Unauthorized';
 import PatientDashboard from './pages/Patient/Dashboard';
 import DoctorDashboard from './pages/Doctor/Dashboard';
 
 const PrivateRoute: React.FC<{ children: React.ReactNode, role: UserRole }> = ({ children, role }) => {
-  const { isAuthenticated, role: userRole } = useAuth();
+  const { isAuthenticated, isRestoring, role: userRole } = useAuth();
+
+  if (isRestoring) return null; // Wait for the stored session to be verified
 
   if (!isAuthenticated) {
     return <Navigate to="/" replace />;
   }
 
   if (userRole !== role) {
-    return <Navigate to="/" replace />; // Or unauthorized page
+    return <Navigate to="/unauthorized" replace />;
   }
 
   return <>{children}</>;
@@ -24,6 +29,11 @@ const App: React.FC = () => {
   const { isAuthenticated, role } = useAuth();
   const location = useLocation();
 
+  // Auditing must never stop unnoticed
+  useEffect(() => onAuditFailure(() => {
+    toast.error('Activity could not be written to the audit log.', { id: 'audit-failure', duration: Infinity });
+  }), []);
+
   // If visiting root while logged in, redirect to appropriate dashboard
   if (location.pathname === '/' && isAuthenticated) {
     if (role === UserRole.PATIENT) return <Navigate to="/patient/dashboard" replace />;
@@ -49,6 +59,7 @@ const App: React.FC = () => {
           </PrivateRoute>
         }
       />
+      <Route path="/unauthorized" element={<Unauthorized />} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -60,19 +71,27 @@ import { useNavigate } from 'react-router-dom';
 const PatientDashboardWrapper: React.FC = () => {
   const { logout, user } = useAuth();
   const navigate = useNavigate();
-  // Use context user ID or fallback
-  const patientId = user?.patientId || '1';
 
   const handleLogout = () => {
     logout();
     navigate('/');
   };
 
-  return <PatientDashboard onLogout={handleLogout} patientId={patientId} />;
+  // A patient account must be linked to a record; never fall back to someone else's
+  if (!user?.patientId) return <Navigate to="/unauthorized" replace />;
+
+  return (
+    <PatientDashboard
+      onLogout={handleLogout}
+      onAccessDenied={() => navigate('/unauthorized', { replace: true })}
+      user={user}
+      patientId={user.patientId}
+    />
+  );
 };
 
 const DoctorDashboardWrapper: React.FC = () => {
-  const { logout } = useAuth();
+  const { logout, user } = useAuth();
   const navigate = useNavigate();
 
   const handleLogout = () => {
@@ -80,7 +99,9 @@ const DoctorDashboardWrapper: React.FC = () => {
     navigate('/');
   };
 
-  return <DoctorDashboard onLogout={handleLogout} />;
+  if (!user) return <Navigate to="/" replace />;
+
+  return <DoctorDashboard onLogout={handleLogout} doctor={user} />;
 };
 
 export default App;
\ No newline at end of file
@@ -0,0 +1,53 @@
+import React from 'react';
+import { BellRing, BellOff } from 'lucide-react';
+import { ReminderPermission } from '../services/reminderService';
+
+interface BackgroundRemindersCardProps {
+  permission: ReminderPermission;
+  onEnable: () => void;
+  onTest: () => void;
+}
+
+// Opt-in for system notifications; without them reminders only ring while the dashboard is open
+const BackgroundRemindersCard: React.FC<BackgroundRemindersCardProps> = ({ permission, onEnable, onTest }) => {
+  if (permission === 'granted') {
+    return (
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm text-slate-600">
+          <BellRing className="w-5 h-5 text-teal-600 flex-shrink-0" />
+          <span>Reminders will appear as notifications even when DermoLink is closed.</span>
+        </div>
+        <button onClick={onTest} className="text-xs font-medium text-teal-700 hover:underline whitespace-nowrap">
+          Send test
+        </button>
+      </div>
+    );
+  }
+
+  if (permission === 'default') {
+    return (
+      <div className="bg-teal-50 p-4 rounded-2xl border border-teal-100 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm text-teal-800">
+          <BellRing className="w-5 h-5 flex-shrink-0" />
+          <span>Get dose and check-in reminders when this tab is closed.</span>
+        </div>
+        <button onClick={onEnable} className="px-3 py-1.5 bg-teal-600 text-white rounded-lg text-xs font-medium hover:bg-teal-700 whitespace-nowrap">
+          Enable
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 p-4 rounded-2xl border border-amber-100 flex items-center gap-3 text-sm text-amber-800">
+      <BellOff className="w-5 h-5 flex-shrink-0" />
+      <span>
+        {permission === 'denied'
+          ? 'Notifications are blocked in your browser settings, so reminders only ring while DermoLink is open.'
+          : 'This browser cannot show background notifications, so reminders only ring while DermoLink is open.'}
+      </span>
+    </div>
+  );
+};
+
+export default BackgroundRemindersCard;
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { BodyLocation, BodySide, Lesion } from '../types';
+import { MAP_HEIGHT, MAP_WIDTH, RegionShape, describeLocation, locationAt, regionsFor } from '../services/bodyMap';
+import { LESION_STATUS_COLORS, LesionStatus } from '../services/lesions';
+
+interface BodyMapProps {
+  lesions: Lesion[];
+  statuses?: Record<string, LesionStatus>; // Marker colours by lesion id; grey when absent
+  selectedId?: string | null;
+  pending?: BodyLocation | null; // A spot picked for a lesion that is not saved yet
+  onSelect?: (lesionId: string) => void;
+  onPick?: (location: BodyLocation) => void; // Clicks on the figure away from a marker; read-only without it
+  accent?: 'teal' | 'blue';
+  className?: string; // Sets the height; the width follows the figure
+}
+
+const Shape: React.FC<{ shape: RegionShape, className: string, children?: React.ReactNode }> = ({ shape, className, children }) =>
+  shape.kind === 'ellipse'
+    ? <ellipse cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} className={className}>{children}</ellipse>
+    : <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={10} className={className}>{children}</rect>;
+
+// Front and back views of the body with a marker per placed lesion
+const BodyMap: React.FC<BodyMapProps> = ({ lesions, statuses = {}, selectedId, pending, onSelect, onPick, accent = 'blue', className = 'h-80' }) => {
+  const [side, setSide] = useState<BodySide>('front');
+  const selectedSide = lesions.find(l => l.id === selectedId)?.location?.side;
+
+  // Follow the selection to the side it is on
+  useEffect(() => {
+    if (selectedSide) setSide(selectedSide);
+  }, [selectedId, selectedSide]);
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onPick) return;
+    const matrix = e.currentTarget.getScreenCTM();
+    if (!matrix) return;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    const location = locationAt(side, point.x / MAP_WIDTH, point.y / MAP_HEIGHT);
+    if (location) onPick(location);
+  };
+
+  const markers = lesions.filter(l => l.location?.side === side);
+  const ring = accent === 'teal' ? '#0d9488' : '#2563eb';
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex bg-slate-200 rounded-lg p-1 text-xs font-medium">
+        {(['front', 'back'] as BodySide[]).map(s => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => setSide(s)}
+            className={`px-3 py-1 rounded-md transition-all capitalize ${side === s ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+          >
+            {s}
+          </button>
+        ))}
+      </div>
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className={`${className} w-auto ${onPick ? 'cursor-crosshair' : ''}`}
+        onClick={handleClick}
+        role="img"
+        aria-label={`Body map, ${side}`}
+      >
+        {regionsFor(side).map(region => (
+          <Shape
+            key={region.id}
+            shape={region.shape}
+            className={`fill-slate-200 stroke-slate-300 transition-colors ${onPick ? 'hover:fill-slate-300' : ''}`}
+          >
+            <title>{region.label}</title>
+          </Shape>
+        ))}
+        {markers.map(lesion => (
+          <g
+            key={lesion.id}
+            onClick={e => {
+              e.stopPropagation();
+              onSelect?.(lesion.id);
+            }}
+            className={onSelect ? 'cursor-pointer' : ''}
+          >
+            {lesion.id === selectedId && <circle cx={lesion.location!.x * MAP_WIDTH} cy={lesion.location!.y * MAP_HEIGHT} r={10} fill="none" stroke={ring} strokeWidth={3} />}
+            <circle
+              cx={lesion.location!.x * MAP_WIDTH}
+              cy={lesion.location!.y * MAP_HEIGHT}
+              r={6}
+              fill={LESION_STATUS_COLORS[statuses[lesion.id] ?? 'New']}
+              stroke="white"
+              strokeWidth={2}
+            >
+              <title>{`${lesion.label} · ${describeLocation(lesion.location)}`}</title>
+            </circle>
+          </g>
+        ))}
+        {pending?.side === side && (
+          <circle cx={pending.x * MAP_WIDTH} cy={pending.y * MAP_HEIGHT} r={7} fill="white" stroke={ring} strokeWidth={3} strokeDasharray="3 2" />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default BodyMap;
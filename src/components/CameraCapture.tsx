@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, CheckCircle, RotateCcw, X } from 'lucide-react';
+import { PhotoQuality, PhotoQualityIssue } from '../types';
+import { QUALITY_ADVICE, QUALITY_MAX_SIDE, assessPhotoQuality, isAcceptable } from '../services/photoQuality';
+import { captureRaster } from '../services/raster';
+
+const LIVE_CHECK_MS = 1000; // How often the preview is checked for hints while framing
+
+interface Shot {
+  file: File;
+  url: string;
+  quality: PhotoQuality;
+}
+
+interface CameraCaptureProps {
+  onCapture: (file: File, quality: PhotoQuality) => void; // Only called with a photo that passed the checks
+  onClose: () => void;
+}
+
+export const cameraAvailable = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Draws the current frame at full resolution, for the saved photo
+const grabFrame = (video: HTMLVideoElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(video, 0, 0);
+  return canvas;
+};
+
+// Rear camera preview with a framing guide. Each photo is checked on the device and
+// has to be retaken until it is sharp, well exposed and free of glare.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [status, setStatus] = useState<'starting' | 'live' | 'review' | 'error'>('starting');
+  const [error, setError] = useState('');
+  const [landscape, setLandscape] = useState(true);
+  const [liveIssues, setLiveIssues] = useState<PhotoQualityIssue[]>([]);
+  const [shot, setShot] = useState<Shot | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    }).then(stream => {
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      if (videoRef.current) videoRef.current.srcObject = stream;
+      setStatus('live');
+    }).catch(e => {
+      if (cancelled) return;
+      setError(e?.name === 'NotAllowedError'
+        ? 'Camera access was denied. Allow it in your browser settings, or choose a photo instead.'
+        : 'No camera could be opened on this device. Choose a photo instead.');
+      setStatus('error');
+    });
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Hints while framing, from a downscaled preview frame
+  useEffect(() => {
+    if (status !== 'live') return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video?.videoWidth) return;
+      setLiveIssues(assessPhotoQuality(captureRaster(video, video.videoWidth, video.videoHeight, QUALITY_MAX_SIDE), 'camera').issues);
+    }, LIVE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  useEffect(() => () => {
+    if (shot) URL.revokeObjectURL(shot.url);
+  }, [shot]);
+
+  const takePhoto = async () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    const canvas = grabFrame(video);
+    const quality = assessPhotoQuality(captureRaster(canvas, canvas.width, canvas.height, QUALITY_MAX_SIDE), 'camera');
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) return;
+    const file = new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' });
+    setShot({ file, url: URL.createObjectURL(file), quality });
+    setStatus('review');
+  };
+
+  const retake = () => {
+    setShot(null);
+    setStatus('live');
+  };
+
+  const passed = shot ? isAcceptable(shot.quality) : false;
+  // The guide is a circle across GUIDE_FRACTION of the frame's shorter side
+  const guideSize = landscape ? 'h-[60%]' : 'w-[60%]';
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-950 flex flex-col items-center justify-center p-4 gap-4 animate-in fade-in duration-200">
+      <button type="button" onClick={onClose} className="absolute top-4 right-4 p-2 text-white/70 hover:text-white" title="Close camera">
+        <X className="w-6 h-6" />
+      </button>
+
+      {status === 'error' ? (
+        <div className="max-w-sm text-center space-y-4">
+          <p className="text-white">{error}</p>
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-white text-slate-900 rounded-lg font-medium">Close</button>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-white/80 text-center max-w-md">
+            Centre the lesion in the circle, about a hand's width away, in good light and without the flash.
+          </p>
+
+          <div className="relative overflow-hidden rounded-2xl bg-black">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={e => setLandscape(e.currentTarget.videoWidth >= e.currentTarget.videoHeight)}
+              className={`max-h-[60vh] max-w-full block ${status === 'review' ? 'invisible' : ''}`}
+            />
+            {shot && <img src={shot.url} alt="Captured" className="absolute inset-0 w-full h-full object-contain" />}
+            {status !== 'review' && (
+              <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 aspect-square ${guideSize} rounded-full border-2 border-dashed border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.4)] pointer-events-none`} />
+            )}
+            {status === 'starting' && (
+              <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm">Starting camera...</div>
+            )}
+            {status === 'live' && liveIssues.length > 0 && (
+              <div className="absolute bottom-3 inset-x-3 bg-black/60 text-white text-xs rounded-lg px-3 py-2 text-center">{QUALITY_ADVICE[liveIssues[0]]}</div>
+            )}
+          </div>
+
+          {status === 'review' && shot ? (
+            <div className="w-full max-w-md space-y-3">
+              <div className={`rounded-xl px-4 py-3 text-sm ${passed ? 'bg-green-500/15 text-green-200' : 'bg-red-500/15 text-red-200'}`}>
+                <div className="font-semibold">Quality {shot.quality.score}/100{passed ? ' · Looks good' : ' · Please retake'}</div>
+                {shot.quality.issues.map(issue => <p key={issue} className="text-xs mt-1">{QUALITY_ADVICE[issue]}</p>)}
+              </div>
+              <div className="flex gap-3">
+                <button type="button" onClick={retake} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white/10 text-white rounded-xl font-medium hover:bg-white/20">
+                  <RotateCcw className="w-5 h-5" />
+                  Retake
+                </button>
+                {passed && (
+                  <button type="button" onClick={() => onCapture(shot.file, shot.quality)} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-teal-500 text-white rounded-xl font-medium hover:bg-teal-600">
+                    <CheckCircle className="w-5 h-5" />
+                    Use photo
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={takePhoto}
+              disabled={status !== 'live'}
+              className="w-16 h-16 rounded-full bg-white flex items-center justify-center shadow-lg disabled:opacity-50"
+              title="Take photo"
+            >
+              <Camera className="w-7 h-7 text-slate-900" />
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Send, Paperclip, X, CheckCheck, Check, ImageOff } from 'lucide-react';
+import { DirectMessage, HistoryEntry, User } from '../types';
+
+const ACCENTS = {
+  teal: { bubble: 'bg-teal-600 text-white', button: 'bg-teal-600 hover:bg-teal-700', ring: 'focus:ring-teal-500/20 focus:border-teal-500', selected: 'ring-teal-500' },
+  blue: { bubble: 'bg-blue-600 text-white', button: 'bg-blue-600 hover:bg-blue-700', ring: 'focus:ring-blue-500/20 focus:border-blue-500', selected: 'ring-blue-500' }
+};
+
+interface DirectMessageThreadProps {
+  messages: DirectMessage[];
+  viewer: User;
+  history: HistoryEntry[]; // The patient's history; attachments are picked from and resolved against it
+  canSend: boolean;
+  onSend: (text: string, attachmentIds: string[]) => Promise<boolean>; // False keeps the draft
+  accent?: keyof typeof ACCENTS;
+  className?: string;
+}
+
+// Patient–doctor conversation with read receipts and photo attachments
+const DirectMessageThread: React.FC<DirectMessageThreadProps> = ({ messages, viewer, history, canSend, onSend, accent = 'blue', className = '' }) => {
+  const [text, setText] = useState('');
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
+  const [showPicker, setShowPicker] = useState(false);
+  const [sending, setSending] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const colors = ACCENTS[accent];
+
+  const entriesById = new Map(history.map(e => [e.id, e]));
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const toggleAttachment = (id: string) =>
+    setAttachmentIds(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]);
+
+  const handleSend = async () => {
+    if ((!text.trim() && attachmentIds.length === 0) || sending) return;
+    setSending(true);
+    try {
+      if (await onSend(text, attachmentIds)) {
+        setText('');
+        setAttachmentIds([]);
+        setShowPicker(false);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className={`flex flex-col min-h-0 ${className}`}>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50/50" ref={scrollRef}>
+        {messages.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-8">No messages yet</p>
+        )}
+        {messages.map(m => {
+          const own = m.senderRole === viewer.role;
+          return (
+            <div key={m.id} className={`flex flex-col ${own ? 'items-end' : 'items-start'}`}>
+              {!own && <span className="text-[10px] text-slate-400 mb-0.5">{m.senderName}</span>}
+              <div className={`max-w-[85%] rounded-2xl p-3 text-sm leading-relaxed space-y-2 ${own
+                ? `${colors.bubble} rounded-br-none`
+                : 'bg-white text-slate-700 shadow-sm border border-slate-100 rounded-bl-none'
+                }`}>
+                {m.attachmentIds && m.attachmentIds.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {m.attachmentIds.map(id => {
+                      const entry = entriesById.get(id);
+                      return entry ? (
+                        <a key={id} href={entry.imageUrl} target="_blank" rel="noreferrer" title={`${entry.date} · ${entry.notes}`}>
+                          <img src={entry.imageUrl} alt={entry.date} className="w-20 h-20 rounded-lg object-cover border border-white/40" />
+                        </a>
+                      ) : (
+                        <div key={id} className="w-20 h-20 rounded-lg bg-slate-100 text-slate-400 flex items-center justify-center" title="Attachment unavailable">
+                          <ImageOff className="w-5 h-5" />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {m.text && <p>{m.text}</p>}
+              </div>
+              <span className="text-[10px] text-slate-400 mt-0.5 flex items-center gap-1">
+                {new Date(m.sentAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                {own && (m.readAt
+                  ? <span className="flex items-center gap-0.5 text-blue-500" title={`Read ${new Date(m.readAt).toLocaleString()}`}><CheckCheck className="w-3 h-3" />Read</span>
+                  : <span className="flex items-center gap-0.5"><Check className="w-3 h-3" />Sent</span>)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {canSend && showPicker && (
+        <div className="p-3 border-t border-slate-100 bg-white">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-semibold text-slate-600">Attach from medical log</span>
+            <button onClick={() => setShowPicker(false)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          {history.length > 0 ? (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {history.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => toggleAttachment(entry.id)}
+                  className={`flex-shrink-0 rounded-lg overflow-hidden border border-slate-200 ${attachmentIds.includes(entry.id) ? `ring-2 ${colors.selected}` : ''}`}
+                  title={`${entry.date} · ${entry.notes}`}
+                >
+                  <img src={entry.imageUrl} alt={entry.date} className="w-14 h-14 object-cover" />
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400">No photos in the medical log yet.</p>
+          )}
+        </div>
+      )}
+
+      {canSend ? (
+        <div className="p-3 border-t border-slate-100 bg-white">
+          {attachmentIds.length > 0 && (
+            <div className="text-xs text-slate-500 mb-2">{attachmentIds.length} photo(s) attached</div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowPicker(!showPicker)}
+              className={`p-2 rounded-xl border border-slate-200 transition-colors ${showPicker ? 'bg-slate-100 text-slate-700' : 'text-slate-500 hover:bg-slate-50'}`}
+              title="Attach a photo from the medical log"
+            >
+              <Paperclip className="w-5 h-5" />
+            </button>
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              placeholder="Write a message..."
+              className={`flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 ${colors.ring}`}
+            />
+            <button
+              onClick={handleSend}
+              disabled={(!text.trim() && attachmentIds.length === 0) || sending}
+              className={`${colors.button} text-white p-2 rounded-xl transition-colors disabled:opacity-50`}
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="p-3 border-t border-slate-100 bg-white text-xs text-slate-400 text-center">Read-only access to this conversation</div>
+      )}
+    </div>
+  );
+};
+
+export default DirectMessageThread;
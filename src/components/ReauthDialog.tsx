@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { KeyRound, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+
+interface ReauthDialogProps {
+  actionLabel: string;
+  onConfirmed: () => void;
+  onCancel: () => void;
+}
+
+// Asks the signed-in doctor for their password again before a sensitive action
+const ReauthDialog: React.FC<ReauthDialogProps> = ({ actionLabel, onConfirmed, onCancel }) => {
+  const { user, reauthenticate } = useAuth();
+  const [password, setPassword] = useState('');
+  const [verifying, setVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    const ok = await reauthenticate(password);
+    setVerifying(false);
+    if (ok) {
+      onConfirmed();
+    } else {
+      toast.error("Incorrect password");
+      setPassword('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-sm space-y-4">
+        <div className="flex justify-between items-start">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center">
+              <KeyRound className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="font-bold text-slate-900">Confirm it's you</h2>
+              <p className="text-xs text-slate-500">Required to {actionLabel}.</p>
+            </div>
+          </div>
+          <button type="button" onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="text-sm text-slate-600">Signed in as <span className="font-semibold text-slate-800">{user?.email}</span></div>
+        <input
+          type="password"
+          autoFocus
+          required
+          placeholder="Password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={verifying}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {verifying ? 'Verifying...' : 'Confirm'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ReauthDialog;
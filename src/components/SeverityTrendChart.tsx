@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, TooltipContentProps } from 'recharts';
+import { TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { TREND_GAP_DAYS, TREND_RANGES, TrendRange, TrendSummary, buildTrend } from '../services/trends';
+
+const ACCENTS = {
+  teal: { line: '#0d9488', active: 'bg-white shadow text-teal-700' },
+  blue: { line: '#2563eb', active: 'bg-white shadow text-blue-700' }
+};
+const AI_COLOR = '#7c3aed';
+const CLINICIAN_COLOR = '#ea580c';
+const UNSCORED_COLOR = '#94a3b8';
+
+const formatDay = (t: number) => new Date(t).toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const DIRECTION_LABELS: Record<TrendSummary['direction'], string> = {
+  improving: 'Improving',
+  worsening: 'Worsening',
+  steady: 'Steady',
+  insufficient: 'Not enough scores yet'
+};
+
+// Hovered dots carry their own series name, since each series has its own data
+const TrendTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const item = payload[payload.length - 1];
+  const point = item.payload as { t: number, unscored?: number };
+  return (
+    <div className="bg-white rounded-lg shadow-md px-3 py-2 text-xs text-slate-600 border border-slate-100">
+      <div className="font-semibold text-slate-800">{formatDay(point.t)}</div>
+      {item.name === 'Photo uploads'
+        ? <div>{point.unscored} unscored upload(s)</div>
+        : <div>{item.name}: {item.value}/10</div>}
+    </div>
+  );
+};
+
+interface SeverityTrendChartProps {
+  history: HistoryEntry[];
+  range: TrendRange;
+  onRangeChange: (range: TrendRange) => void;
+  accent?: keyof typeof ACCENTS;
+  className?: string;
+}
+
+// Severity over time: raw AI and clinician scores, a smoothed line that breaks
+// across long gaps, and unscored uploads along the baseline
+const SeverityTrendChart: React.FC<SeverityTrendChartProps> = ({ history, range, onRangeChange, accent = 'teal', className = '' }) => {
+  const trend = useMemo(() => buildTrend(history, range), [history, range]);
+  const colors = ACCENTS[accent];
+  const ai = trend.points.filter(p => p.ai !== null);
+  const clinician = trend.points.filter(p => p.clinician !== null);
+  const unscored = trend.points.filter(p => p.unscored > 0).map(p => ({ ...p, baseline: 0 }));
+  const DirectionIcon = trend.direction === 'improving' ? TrendingDown : trend.direction === 'worsening' ? TrendingUp : Minus;
+
+  return (
+    <div className={`bg-white p-6 rounded-2xl shadow-sm border border-slate-100 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="font-semibold text-lg text-slate-800">Lesion Severity Tracking</h3>
+          <div className={`flex items-center gap-1 text-xs ${trend.direction === 'improving' ? 'text-green-600' : trend.direction === 'worsening' ? 'text-red-600' : 'text-slate-500'}`}>
+            <DirectionIcon className="w-3 h-3" />
+            <span>
+              {DIRECTION_LABELS[trend.direction]}
+              {trend.change !== null && ` (${trend.change > 0 ? '+' : ''}${trend.change} points)`}
+            </span>
+          </div>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-medium">
+          {TREND_RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => onRangeChange(r.id)}
+              className={`px-2.5 py-1 rounded-md transition-all ${range === r.id ? colors.active : 'text-slate-500'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {trend.points.length === 0 ? (
+        <div className="h-64 flex items-center justify-center text-sm text-slate-400">No entries in this period</div>
+      ) : (
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis
+                dataKey="t"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatDay}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#64748b', fontSize: 12 }}
+                dy={10}
+                padding={{ left: 10, right: 10 }}
+              />
+              <YAxis domain={[0, 10]} ticks={[0, 2, 4, 6, 8, 10]} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <Tooltip content={TrendTooltip} />
+              {trend.gaps.map(gap => (
+                <ReferenceArea
+                  key={`${gap.from}-${gap.to}`}
+                  x1={Date.parse(`${gap.from}T00:00:00Z`)}
+                  x2={Date.parse(`${gap.to}T00:00:00Z`)}
+                  fill="#f1f5f9"
+                  fillOpacity={0.8}
+                />
+              ))}
+              <Line data={trend.line} dataKey="smoothed" name="Trend" type="monotone" stroke={colors.line} strokeWidth={3} dot={false} activeDot={false} connectNulls={false} isAnimationActive={false} />
+              <Scatter data={ai} dataKey="ai" name="AI analysis" fill={AI_COLOR} />
+              <Scatter data={clinician} dataKey="clinician" name="Clinician" fill={CLINICIAN_COLOR} />
+              <Scatter data={unscored} dataKey="baseline" name="Photo uploads" fill={UNSCORED_COLOR} shape="triangle" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-xs text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 rounded" style={{ background: colors.line }} />Smoothed trend</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: AI_COLOR }} />AI analysis</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: CLINICIAN_COLOR }} />Clinician</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: UNSCORED_COLOR }} />Unscored uploads</span>
+        {trend.gaps.length > 0 && <span>Shaded: no scores for over {TREND_GAP_DAYS} days</span>}
+        <span className="ml-auto">{trend.scoredCount} scored · {trend.unscoredCount} unscored</span>
+      </div>
+    </div>
+  );
+};
+
+export default SeverityTrendChart;
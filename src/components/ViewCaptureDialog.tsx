@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Images, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { BodyLocation, ImageView, Lesion, PhotoQuality } from '../types';
+import { IMAGE_VIEWS, VIEW_LABELS } from '../services/imageViews';
+import { LesionStatus, newLesion, nextLesionLabel } from '../services/lesions';
+import { describeLocation } from '../services/bodyMap';
+import { QUALITY_ADVICE, checkPhotoFile, isAcceptable } from '../services/photoQuality';
+import BodyMap from './BodyMap';
+import CameraCapture, { cameraAvailable } from './CameraCapture';
+
+export interface TaggedPhoto {
+  file: File;
+  view: ImageView;
+  quality?: PhotoQuality | null; // Undefined while it is checked; null when the browser could not decode it
+}
+
+// The lesion the photos show; a new one still has to be saved before the entry
+export interface LesionChoice {
+  lesion: Lesion;
+  isNew: boolean;
+}
+
+interface ViewCaptureDialogProps {
+  initialFiles: File[];
+  lesions: Lesion[];
+  statuses: Record<string, LesionStatus>;
+  defaultLesionId: string | null;
+  title: string;
+  submitLabel: string;
+  busy: boolean;
+  startWithCamera?: boolean; // Open the in-app camera straight away
+  onCancel: () => void;
+  onSubmit: (photos: TaggedPhoto[], choice: LesionChoice) => void;
+}
+
+const Thumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url ? <img src={url} alt={file.name} className="w-16 h-16 rounded-lg object-cover border border-slate-200" /> : <div className="w-16 h-16 rounded-lg bg-slate-100" />;
+};
+
+// Collects the views of one lesion for a single history entry, each tagged with how it was taken,
+// and which lesion they show: one already on the body map or a new spot picked on it
+const ViewCaptureDialog: React.FC<ViewCaptureDialogProps> = ({
+  initialFiles, lesions, statuses, defaultLesionId, title, submitLabel, busy, startWithCamera, onCancel, onSubmit
+}) => {
+  const [photos, setPhotos] = useState<TaggedPhoto[]>(() => initialFiles.map(file => ({ file, view: 'other' })));
+  const [camera, setCamera] = useState<number | 'add' | null>(() => startWithCamera && cameraAvailable() ? 'add' : null); // Photo being retaken, or a new one
+  const checking = useRef(new Set<File>());
+  const [lesionId, setLesionId] = useState<string | null>(defaultLesionId);
+  const [newSpot, setNewSpot] = useState<BodyLocation | null>(null);
+  const [newLabel, setNewLabel] = useState(() => nextLesionLabel(lesions));
+  const [newLesionId] = useState(() => crypto.randomUUID()); // Kept across retries, so saving it again replaces it
+
+  const existing = lesions.find(l => l.id === lesionId) ?? null;
+  const lesionChosen = newSpot ? newLabel.trim() !== '' : !!existing;
+  const stillChecking = photos.some(photo => photo.quality === undefined);
+  const needsRetake = photos.some(photo => photo.quality && !isAcceptable(photo.quality));
+
+  // Chosen files get the same checks as camera photos
+  useEffect(() => {
+    photos.filter(photo => photo.quality === undefined && !checking.current.has(photo.file)).forEach(photo => {
+      checking.current.add(photo.file);
+      checkPhotoFile(photo.file)
+        .catch(() => null)
+        .then(quality => setPhotos(prev => prev.map(p => p.file === photo.file ? { ...p, quality } : p)));
+    });
+  }, [photos]);
+
+  const handleCapture = (file: File, quality: PhotoQuality) => {
+    if (typeof camera === 'number') setPhotos(prev => prev.map((photo, i) => i === camera ? { ...photo, file, quality } : photo));
+    else setPhotos(prev => [...prev, { file, view: 'other', quality }]);
+    setCamera(null);
+  };
+
+  const chooseLesion = (id: string) => {
+    setLesionId(id);
+    setNewSpot(null);
+  };
+
+  const pickSpot = (location: BodyLocation) => {
+    setNewSpot(location);
+    setLesionId(null);
+  };
+
+  const addFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    setPhotos(prev => [...prev, ...files.map((file): TaggedPhoto => ({ file, view: 'other' }))]);
+    e.target.value = '';
+  };
+
+  const setView = (index: number, view: ImageView) =>
+    setPhotos(prev => prev.map((photo, i) => i === index ? { ...photo, view } : photo));
+
+  const submit = () => {
+    if (newSpot) onSubmit(photos, { lesion: newLesion(newLabel, newSpot, newLesionId), isNew: true });
+    else if (existing) onSubmit(photos, { lesion: existing, isNew: false });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-2xl max-h-full overflow-y-auto space-y-4">
+        <div className="flex justify-between items-start">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-teal-100 text-teal-600 rounded-full flex items-center justify-center">
+              <Images className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="font-bold text-slate-900">{title}</h2>
+              <p className="text-xs text-slate-500">Tag each photo: an overview of the area, a close-up, or a dermoscope image.</p>
+            </div>
+          </div>
+          <button type="button" onClick={onCancel} disabled={busy} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Photos and their views */}
+          <div className="space-y-3">
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {photos.map((photo, index) => (
+                <div key={index} className="flex items-center gap-3 p-2 rounded-xl border border-slate-100">
+                  <Thumbnail file={photo.file} />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <select
+                      value={photo.view}
+                      onChange={e => setView(index, e.target.value as ImageView)}
+                      disabled={busy}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-teal-500"
+                    >
+                      {IMAGE_VIEWS.map(view => <option key={view} value={view}>{VIEW_LABELS[view]}</option>)}
+                    </select>
+                    {photo.quality === undefined ? (
+                      <p className="text-[10px] text-slate-400">Checking quality...</p>
+                    ) : photo.quality === null ? (
+                      <p className="text-[10px] text-slate-400">Quality could not be checked</p>
+                    ) : isAcceptable(photo.quality) ? (
+                      <p className="text-[10px] text-green-600">Quality {photo.quality.score}/100</p>
+                    ) : (
+                      <p className="text-[10px] text-red-600">Quality {photo.quality.score}/100 · {QUALITY_ADVICE[photo.quality.issues[0]]}</p>
+                    )}
+                  </div>
+                  {photo.quality && !isAcceptable(photo.quality) && cameraAvailable() && (
+                    <button
+                      type="button"
+                      onClick={() => setCamera(index)}
+                      disabled={busy}
+                      className="p-2 text-slate-400 hover:text-teal-600"
+                      title="Retake photo"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                    disabled={busy}
+                    className="p-2 text-slate-400 hover:text-red-500"
+                    title="Remove photo"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              {cameraAvailable() && (
+                <button
+                  type="button"
+                  onClick={() => setCamera('add')}
+                  disabled={busy}
+                  className="flex-1 flex items-center justify-center gap-2 px-3 py-2 border border-dashed border-slate-300 text-slate-600 rounded-lg text-sm font-medium hover:bg-slate-50 disabled:opacity-50"
+                >
+                  <Camera className="w-4 h-4" />
+                  <span>Take photo</span>
+                </button>
+              )}
+              <label className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 border border-dashed border-slate-300 text-slate-600 rounded-lg text-sm font-medium hover:bg-slate-50 cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+                <Plus className="w-4 h-4" />
+                <span>{photos.length > 0 ? 'Add another view' : 'Choose photos'}</span>
+                <input type="file" accept="image/*" multiple className="hidden" onChange={addFiles} disabled={busy} />
+              </label>
+            </div>
+          </div>
+
+          {/* Which lesion */}
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Which lesion?</div>
+            <div className="flex flex-wrap gap-1.5">
+              {lesions.map(lesion => (
+                <button
+                  key={lesion.id}
+                  type="button"
+                  onClick={() => chooseLesion(lesion.id)}
+                  disabled={busy}
+                  title={describeLocation(lesion.location)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${lesion.id === lesionId ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {lesion.label}
+                </button>
+              ))}
+            </div>
+            <BodyMap
+              lesions={lesions}
+              statuses={statuses}
+              selectedId={lesionId}
+              pending={newSpot}
+              onSelect={chooseLesion}
+              onPick={busy ? undefined : pickSpot}
+              accent="teal"
+              className="h-64"
+            />
+            {newSpot ? (
+              <div className="space-y-1">
+                <div className="text-xs text-slate-500">New lesion: {describeLocation(newSpot)}</div>
+                <input
+                  value={newLabel}
+                  onChange={e => setNewLabel(e.target.value)}
+                  disabled={busy}
+                  placeholder="Name, e.g. Mole on left shoulder"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-teal-500"
+                />
+              </div>
+            ) : (
+              <p className="text-xs text-slate-400 text-center">Tap a marker, or tap the body where a new lesion is.</p>
+            )}
+          </div>
+        </div>
+
+        {needsRetake && <p className="text-xs text-red-600 text-center">Retake or remove the photos marked in red before submitting.</p>}
+        <button
+          type="button"
+          onClick={submit}
+          disabled={busy || photos.length === 0 || !lesionChosen || stillChecking || needsRetake}
+          className="w-full px-4 py-2 bg-teal-600 text-white rounded-lg font-medium hover:bg-teal-700 disabled:opacity-50"
+        >
+          {busy ? 'Verifying...' : submitLabel}
+        </button>
+      </div>
+
+      {camera !== null && <CameraCapture onCapture={handleCapture} onClose={() => setCamera(null)} />}
+    </div>
+  );
+};
+
+export default ViewCaptureDialog;
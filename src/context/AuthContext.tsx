@@ -1,53 +1,129 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { UserRole } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { User, UserRole } from '../types';
+import { authenticateDoctor, toPublicUser } from '../services/accountService';
+import { recordAudit, toAuditActor } from '../services/auditService';
+import { clearReminders } from '../services/reminderService';
+import {
+    SESSION_STORAGE_KEY, SessionClaims, SessionStatus, clearSession, createSession, markReauthenticated,
+    needsReauth, readSession, sessionStatus, touchSession
+} from '../services/auth/session';
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+const ACTIVITY_THROTTLE_MS = 30 * 1000; // Re-sign the token at most this often
+const EXPIRY_CHECK_MS = 15 * 1000;
 
 interface AuthContextType {
     role: UserRole;
     isAuthenticated: boolean;
-    login: (role: UserRole, data?: any) => void;
+    isRestoring: boolean; // True until the stored session has been verified
+    login: (user: User) => Promise<void>; // Only call with a user verified by accountService
     logout: () => void;
-    user: any; // Can be typed more strictly with User interface
+    user: User | null;
+    requiresReauth: () => boolean;
+    reauthenticate: (password: string) => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [role, setRole] = useState<UserRole>(UserRole.NONE);
-    const [user, setUser] = useState<any>(null); // Store patientId or doctor details
+    const [session, setSession] = useState<SessionClaims | null>(null);
+    const [isRestoring, setIsRestoring] = useState(true);
+    const sessionRef = useRef<SessionClaims | null>(null);
+    sessionRef.current = session;
 
     useEffect(() => {
-        // Check localStorage on mount
-        const storedRole = localStorage.getItem('dermolink_role');
-        const storedUser = localStorage.getItem('dermolink_user');
-
-        if (storedRole && storedRole !== UserRole.NONE) {
-            setRole(storedRole as UserRole);
-            if (storedUser) {
-                setUser(JSON.parse(storedUser));
-            }
-        }
+        // Pre-token sessions were unsigned and are no longer honoured
+        localStorage.removeItem('dermolink_role');
+        localStorage.removeItem('dermolink_user');
+
+        readSession().then(claims => {
+            if (!claims) clearReminders(); // The session may have lapsed while the app was closed
+            setSession(claims);
+            setIsRestoring(false);
+        });
+
+        // Keep tabs in sync: login, logout and activity in one tab update the others
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key !== SESSION_STORAGE_KEY) return;
+            readSession().then(setSession);
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
     }, []);
 
-    const login = (newRole: UserRole, userData?: any) => {
-        setRole(newRole);
-        setUser(userData);
-        localStorage.setItem('dermolink_role', newRole);
-        if (userData) {
-            localStorage.setItem('dermolink_user', JSON.stringify(userData));
-        }
+    // Idle tracking and expiry while signed in
+    useEffect(() => {
+        if (!session) return;
+        let lastTouch = Date.now();
+
+        const signOut = (claims: SessionClaims, status: SessionStatus) => {
+            sessionRef.current = null; // Further events before the re-render must not sign out twice
+            recordAudit(toAuditActor(claims.user), 'session-expired', { summary: status });
+            clearSession();
+            clearReminders();
+            setSession(null);
+            toast.info(status === 'idle' ? 'Signed out after inactivity.' : 'Your session has expired. Please sign in again.');
+        };
+
+        // Activity never revives a session that has already lapsed, e.g. when the device wakes from sleep
+        const handleActivity = () => {
+            const claims = sessionRef.current;
+            if (!claims) return;
+            const now = Date.now();
+            const status = sessionStatus(claims, now);
+            if (status !== 'active') {
+                signOut(claims, status);
+                return;
+            }
+            if (now - lastTouch < ACTIVITY_THROTTLE_MS) return;
+            lastTouch = now;
+            touchSession(claims, now).then(setSession);
+        };
+
+        const timer = setInterval(() => {
+            if (!sessionRef.current) return;
+            const status = sessionStatus(sessionRef.current, Date.now());
+            if (status !== 'active') signOut(sessionRef.current, status);
+        }, EXPIRY_CHECK_MS);
+
+        ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, handleActivity, { passive: true }));
+        return () => {
+            clearInterval(timer);
+            ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, handleActivity));
+        };
+    }, [session?.sid]);
+
+    const login = async (verifiedUser: User) => {
+        const claims = await createSession(toPublicUser(verifiedUser));
+        recordAudit(toAuditActor(claims.user), 'login', { summary: claims.sid });
+        setSession(claims);
     };
 
     const logout = () => {
-        setRole(UserRole.NONE);
-        setUser(null);
-        localStorage.removeItem('dermolink_role');
-        localStorage.removeItem('dermolink_user');
+        if (session) recordAudit(toAuditActor(session.user), 'logout', { summary: session.sid });
+        clearSession();
+        clearReminders();
+        setSession(null);
+    };
+
+    const requiresReauth = () => !session || needsReauth(session, Date.now());
+
+    // Step-up check before sensitive actions; confirms the signed-in doctor's password
+    const reauthenticate = async (password: string) => {
+        if (!session || sessionStatus(session, Date.now()) !== 'active') return false;
+        const verified = await authenticateDoctor(session.user.email, password);
+        if (!verified || verified.id !== session.user.id) return false;
+        setSession(await markReauthenticated(session));
+        return true;
     };
 
+    const user = session?.user ?? null;
+    const role = user?.role ?? UserRole.NONE;
     const isAuthenticated = role !== UserRole.NONE;
 
     return (
-        <AuthContext.Provider value={{ role, isAuthenticated, login, logout, user }}>
+        <AuthContext.Provider value={{ role, isAuthenticated, isRestoring, login, logout, user, requiresReauth, reauthenticate }}>
             {children}
         </AuthContext.Provider>
     );
@@ -2,8 +2,17 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { useAuth } from '../../context/AuthContext';
-import { UserRole } from '../../types';
-import { Stethoscope, User, Shield, Lock, KeyRound } from 'lucide-react';
+import { User as UserAccount, UserRole } from '../../types';
+import { authenticateDoctor, findPatientAccount, registerDoctor, registerPatient } from '../../services/accountService';
+import { OtpProvider, createGatewayOtpProvider, createLocalOtpProvider, issueOtp, verifyOtp } from '../../services/auth/otp';
+import { recordAudit, toAuditActor } from '../../services/auditService';
+import { Stethoscope, User, Shield, Lock, KeyRound, UserPlus } from 'lucide-react';
+
+// Codes go to the patient's registered contact through the gateway. Without one, only
+// development builds can sign patients in, by showing the code on this device.
+const otpProvider: OtpProvider | null = process.env.OTP_GATEWAY_URL
+  ? createGatewayOtpProvider(process.env.OTP_GATEWAY_URL)
+  : process.env.OTP_ON_SCREEN ? createLocalOtpProvider(message => toast.info(message, { duration: 15000 })) : null;
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
@@ -11,50 +20,119 @@ const Login: React.FC = () => {
 
   // Tab State: Default to PATIENT
   const [activeTab, setActiveTab] = useState<UserRole>(UserRole.PATIENT);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [busy, setBusy] = useState(false);
 
   // Auth States
   const [patientIdInput, setPatientIdInput] = useState('');
   const [patientOtpSent, setPatientOtpSent] = useState(false);
   const [patientOtp, setPatientOtp] = useState('');
+  const [patientAccount, setPatientAccount] = useState<UserAccount | null>(null);
 
+  const [doctorEmail, setDoctorEmail] = useState('');
   const [doctorPass, setDoctorPass] = useState('');
 
+  // Registration States
+  const [regName, setRegName] = useState('');
+  const [regEmail, setRegEmail] = useState('');
+  const [regPassword, setRegPassword] = useState('');
+  const [enrolmentCode, setEnrolmentCode] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+
   // Handlers
-  const handlePatientLogin = () => {
+  const handlePatientLogin = async () => {
     if (!patientIdInput.trim()) {
       toast.error("Please enter your Patient ID");
       return;
     }
-    if (!patientOtpSent) {
-      setPatientOtpSent(true);
-      setTimeout(() => toast.success("OTP sent! (Code: 1234)"), 500);
-    } else {
-      if (patientOtp === '1234') {
-        login(UserRole.PATIENT, { patientId: patientIdInput });
-        toast.success("Welcome back!");
-        navigate('/patient/dashboard');
+    if (!otpProvider) {
+      toast.error("Sign-in codes cannot be sent: no SMS or email gateway is configured.");
+      return;
+    }
+    setBusy(true);
+    try {
+      if (!patientOtpSent || !patientAccount) {
+        const account = await findPatientAccount(patientIdInput);
+        if (!account) {
+          toast.error("No account for this Patient ID. Please register first.");
+          return;
+        }
+        await issueOtp(account.id, account.email, otpProvider);
+        setPatientAccount(account);
+        setPatientOtpSent(true);
+        toast.success("OTP sent to your registered contact.");
+      } else {
+        const result = await verifyOtp(patientAccount.id, patientOtp);
+        if (result === 'valid') {
+          await login(patientAccount);
+          toast.success("Welcome back!");
+          navigate('/patient/dashboard');
+        } else if (result === 'invalid') {
+          recordAudit(toAuditActor(patientAccount), 'login-failed', { patientId: patientAccount.patientId, summary: 'invalid OTP' });
+          toast.error("Invalid OTP");
+        } else {
+          toast.error(result === 'expired' ? "Code expired. Please request a new one." : "Too many attempts. Please request a new code.");
+          setPatientOtpSent(false);
+          setPatientOtp('');
+        }
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not send a code");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDoctorLogin = async () => {
+    setBusy(true);
+    try {
+      const doctor = await authenticateDoctor(doctorEmail, doctorPass);
+      if (doctor) {
+        await login(doctor);
+        toast.success(`Welcome, ${doctor.name}.`);
+        navigate('/doctor/dashboard');
       } else {
-        toast.error("Invalid OTP");
+        recordAudit({ id: doctorEmail.trim().toLowerCase(), name: doctorEmail, role: UserRole.DOCTOR }, 'login-failed', { summary: 'invalid password' });
+        toast.error("Incorrect email or password");
       }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not sign in");
+    } finally {
+      setBusy(false);
     }
   };
 
-  const handleDoctorLogin = () => {
-    if (doctorPass.length > 3) {
-      login(UserRole.DOCTOR, { name: "Dr. S. Miller" });
-      toast.success("Welcome, Doctor.");
-      navigate('/doctor/dashboard');
-    } else {
-      toast.error("Incorrect Password (min 4 chars)");
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      if (activeTab === UserRole.PATIENT) {
+        await registerPatient({ name: regName, patientId: patientIdInput, enrolmentCode });
+        setEnrolmentCode('');
+      } else {
+        const doctor = await registerDoctor({ name: regName, email: regEmail, password: regPassword, inviteCode });
+        setInviteCode('');
+        setDoctorEmail(doctor.email);
+      }
+      toast.success("Account created. You can now sign in.");
+      setMode('login');
+      setRegPassword('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Registration failed");
+    } finally {
+      setBusy(false);
     }
   };
 
   const switchTab = (role: UserRole) => {
     setActiveTab(role);
     // Reset inputs on tab switch to avoid confusion
+    setMode('login');
     setPatientOtpSent(false);
     setPatientOtp('');
+    setPatientAccount(null);
     setDoctorPass('');
+    setRegPassword('');
   };
 
   return (
@@ -109,7 +187,7 @@ const Login: React.FC = () => {
           </div>
 
           {/* Patient Form */}
-          {activeTab === UserRole.PATIENT && (
+          {activeTab === UserRole.PATIENT && mode === 'login' && (
             <div className="space-y-6 animate-in fade-in zoom-in-95 duration-300">
               <div className="text-center">
                 <div className="w-16 h-16 bg-teal-100 text-teal-600 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -132,35 +210,38 @@ const Login: React.FC = () => {
                   />
                   <button
                     onClick={handlePatientLogin}
-                    className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl transition-colors"
+                    disabled={busy}
+                    className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
                   >
                     Send OTP
                   </button>
+                  <button onClick={() => setMode('register')} className="w-full text-teal-600 text-sm hover:underline">First time here? Register your Patient ID</button>
                 </div>
               ) : (
                 <div className="space-y-4">
                   <div className="text-center text-sm text-slate-500 mb-2">Patient ID: <span className="font-bold text-slate-800">{patientIdInput}</span></div>
                   <input
                     type="text"
-                    placeholder="Enter OTP (1234)"
+                    placeholder="Enter 6-digit code"
                     value={patientOtp}
                     onChange={(e) => setPatientOtp(e.target.value)}
                     className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-teal-500 text-center tracking-widest text-lg font-bold"
                   />
                   <button
                     onClick={handlePatientLogin}
-                    className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl transition-colors"
+                    disabled={busy}
+                    className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
                   >
                     Verify & Enter
                   </button>
-                  <button onClick={() => setPatientOtpSent(false)} className="w-full text-teal-600 text-sm hover:underline">Change ID</button>
+                  <button onClick={() => { setPatientOtpSent(false); setPatientOtp(''); }} className="w-full text-teal-600 text-sm hover:underline">Change ID</button>
                 </div>
               )}
             </div>
           )}
 
           {/* Doctor Form */}
-          {activeTab === UserRole.DOCTOR && (
+          {activeTab === UserRole.DOCTOR && mode === 'login' && (
             <div className="space-y-6 animate-in fade-in zoom-in-95 duration-300">
               <div className="text-center">
                 <div className="w-16 h-16 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -173,10 +254,16 @@ const Login: React.FC = () => {
               </div>
 
               <div className="space-y-4">
-                <input type="text" placeholder="Doctor ID" className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                <input
+                  type="email"
+                  placeholder="Email (Try 'miller@dermolink.ai')"
+                  value={doctorEmail}
+                  onChange={(e) => setDoctorEmail(e.target.value)}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
                 <input
                   type="password"
-                  placeholder="Password"
+                  placeholder="Password (Demo: 'dermolink-demo')"
                   value={doctorPass}
                   onChange={(e) => setDoctorPass(e.target.value)}
                   onKeyDown={(e) => e.key === 'Enter' && handleDoctorLogin()}
@@ -184,14 +271,104 @@ const Login: React.FC = () => {
                 />
                 <button
                   onClick={handleDoctorLogin}
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl transition-colors shadow-lg shadow-blue-200"
+                  disabled={busy}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl transition-colors shadow-lg shadow-blue-200 disabled:opacity-50"
                 >
-                  Access Dashboard
+                  {busy ? 'Verifying...' : 'Access Dashboard'}
                 </button>
+                <button onClick={() => setMode('register')} className="w-full text-blue-600 text-sm hover:underline">Create a clinician account</button>
               </div>
             </div>
           )}
 
+          {/* Registration Form */}
+          {mode === 'register' && (
+            <form onSubmit={handleRegister} className="space-y-6 animate-in fade-in zoom-in-95 duration-300">
+              <div className="text-center">
+                <div className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 ${activeTab === UserRole.PATIENT ? 'bg-teal-100 text-teal-600' : 'bg-blue-100 text-blue-600'}`}>
+                  <UserPlus className="w-8 h-8" />
+                </div>
+                <h2 className="text-2xl font-bold text-slate-900">
+                  {activeTab === UserRole.PATIENT ? 'Register as Patient' : 'Clinician Registration'}
+                </h2>
+                <p className="text-slate-500 text-sm mt-1">
+                  {activeTab === UserRole.PATIENT ? 'Use the Patient ID and enrolment code provided by your clinic.' : 'Use the email and invite code a clinician gave you. Your name is shown to your patients.'}
+                </p>
+              </div>
+
+              <div className="space-y-4">
+                {activeTab === UserRole.PATIENT && (
+                  <input
+                    type="text"
+                    required
+                    placeholder="Patient ID"
+                    value={patientIdInput}
+                    onChange={(e) => setPatientIdInput(e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  />
+                )}
+                {activeTab === UserRole.PATIENT && (
+                  <input
+                    type="text"
+                    required
+                    autoComplete="off"
+                    placeholder="Enrolment code (e.g. ABCD-EF23)"
+                    value={enrolmentCode}
+                    onChange={(e) => setEnrolmentCode(e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-teal-500 tracking-widest uppercase"
+                  />
+                )}
+                <input
+                  type="text"
+                  required
+                  placeholder={activeTab === UserRole.PATIENT ? 'Full Name' : 'Full Name (e.g. Dr. J. Doe)'}
+                  value={regName}
+                  onChange={(e) => setRegName(e.target.value)}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-slate-400"
+                />
+                {activeTab === UserRole.DOCTOR && (
+                  <input
+                    type="email"
+                    required
+                    placeholder="Email"
+                    value={regEmail}
+                    onChange={(e) => setRegEmail(e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-slate-400"
+                  />
+                )}
+                {activeTab === UserRole.DOCTOR && (
+                  <input
+                    type="text"
+                    required
+                    autoComplete="off"
+                    placeholder="Invite code (e.g. ABCD-EF23)"
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-slate-400 tracking-widest uppercase"
+                  />
+                )}
+                {activeTab === UserRole.DOCTOR && (
+                  <input
+                    type="password"
+                    required
+                    placeholder="Password (min 8 chars)"
+                    value={regPassword}
+                    onChange={(e) => setRegPassword(e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className={`w-full text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50 ${activeTab === UserRole.PATIENT ? 'bg-teal-600 hover:bg-teal-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+                >
+                  Create Account
+                </button>
+                <button type="button" onClick={() => setMode('login')} className="w-full text-slate-500 text-sm hover:underline">Back to sign in</button>
+              </div>
+            </form>
+          )}
+
         </div>
       </div>
     </div>
@@ -0,0 +1,46 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+
+const Unauthorized: React.FC = () => {
+  const navigate = useNavigate();
+  const { isAuthenticated, logout } = useAuth();
+
+  const handleSignOut = () => {
+    logout();
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl p-8 shadow-2xl max-w-md w-full text-center space-y-4">
+        <div className="w-16 h-16 bg-red-100 text-red-600 rounded-full flex items-center justify-center mx-auto">
+          <ShieldAlert className="w-8 h-8" />
+        </div>
+        <h1 className="text-2xl font-bold text-slate-900">Access Restricted</h1>
+        <p className="text-slate-500 text-sm">
+          You are not part of the care team for this record. If you believe this is a mistake, ask the patient's primary doctor to add you.
+        </p>
+        <div className="flex gap-3 pt-2">
+          {isAuthenticated && (
+            <button
+              onClick={() => navigate('/')}
+              className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50"
+            >
+              My Dashboard
+            </button>
+          )}
+          <button
+            onClick={handleSignOut}
+            className="flex-1 px-4 py-2 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Unauthorized;
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { PatientRecord } from '../../types';
+import { ADHERENCE_WINDOW_DAYS, computeAdherence, formatRate, isLowAdherence } from '../../services/adherence';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const RECENT_CHECK_INS = 4;
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  return `${(minutes / 60).toFixed(1)} h`;
+};
+
+const dayColor = (day: { scheduled: number, taken: number, missed: number, pending: number }) => {
+  if (day.scheduled === 0) return 'bg-slate-100';
+  if (day.missed === 0 && day.pending === 0) return 'bg-green-500';
+  if (day.missed === 0) return 'bg-slate-300';
+  return day.taken > 0 ? 'bg-amber-400' : 'bg-red-500';
+};
+
+interface AdherencePanelProps {
+  patient: PatientRecord;
+}
+
+// Scheduled versus completed doses over the last two weeks, from the care plan and dose log
+const AdherencePanel: React.FC<AdherencePanelProps> = ({ patient }) => {
+  const summary = useMemo(
+    () => patient.carePlan ? computeAdherence(patient.carePlan, patient.doseLog ?? [], new Date()) : null,
+    [patient.carePlan, patient.doseLog]
+  );
+  const checkIns = patient.history.filter(e => e.checkIn).slice(0, RECENT_CHECK_INS);
+  const worstWeekday = summary ? summary.missedByWeekday.indexOf(Math.max(...summary.missedByWeekday)) : -1;
+  const low = summary ? isLowAdherence(summary) : false;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2 text-slate-800">
+        <div className="flex items-center gap-2">
+          <CheckCircle2 className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">Adherence</h3>
+        </div>
+        <span className="text-[10px] text-slate-400">Last {ADHERENCE_WINDOW_DAYS} days</span>
+      </div>
+      {!summary ? (
+        <p className="p-4 text-sm text-slate-400 text-center">No care plan, so nothing is scheduled yet</p>
+      ) : (
+        <div className="p-4 space-y-4">
+          {low && (
+            <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              Adherence is below target
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className={`text-xl font-bold ${low ? 'text-red-600' : 'text-slate-800'}`}>{formatRate(summary.rate)}</div>
+              <div className="text-[10px] text-slate-500">{summary.taken} of {summary.settled} taken</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-slate-800">{summary.currentStreak}d</div>
+              <div className="text-[10px] text-slate-500">Streak (best {summary.longestStreak}d)</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-slate-800">{formatMinutes(summary.averageResponseMinutes)}</div>
+              <div className="text-[10px] text-slate-500">Alarm to dose</div>
+            </div>
+          </div>
+
+          <div className="flex gap-1" title="Green: all taken · Amber: some missed · Red: all missed">
+            {summary.days.map(day => (
+              <div
+                key={day.date}
+                className={`flex-1 h-4 rounded-sm ${dayColor(day)}`}
+                title={`${day.date}: ${day.taken} taken, ${day.missed} missed${day.pending ? `, ${day.pending} pending` : ''}`}
+              />
+            ))}
+          </div>
+
+          {summary.missedSlots.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-xs font-semibold text-slate-500 uppercase">Missed most often</span>
+              {summary.missedSlots.slice(0, 3).map(slot => (
+                <div key={`${slot.itemId}@${slot.time}`} className="flex justify-between text-xs text-slate-600">
+                  <span className="truncate">{slot.name} at {slot.time}</span>
+                  <span className="text-slate-400 flex-shrink-0">{slot.missed} of {slot.scheduled}</span>
+                </div>
+              ))}
+              {summary.missed > 1 && (
+                <p className="text-[10px] text-slate-400">Most misses fall on {WEEKDAYS[worstWeekday]}</p>
+              )}
+            </div>
+          )}
+
+          {checkIns.length > 0 && (
+            <div className="space-y-2 pt-3 border-t border-slate-100">
+              <span className="text-xs font-semibold text-slate-500 uppercase">Recent photo check-ins</span>
+              {checkIns.map(entry => {
+                const checkIn = entry.checkIn!;
+                const minutes = (new Date(checkIn.completedAt).getTime() - new Date(checkIn.alarmAt).getTime()) / 60000;
+                return (
+                  <div key={entry.id} className="flex items-center gap-2">
+                    <img src={entry.imageUrl} alt={checkIn.itemName} className="w-8 h-8 rounded object-cover" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-xs font-medium text-slate-700 truncate">{checkIn.itemName}</div>
+                      <div className="text-[10px] text-slate-400">
+                        {new Date(checkIn.scheduledAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} · {formatMinutes(Math.max(0, minutes))} after alarm
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdherencePanel;
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, ShieldCheck, ShieldAlert, ScrollText, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { PatientRecord, User } from '../../types';
+import {
+  AuditAction, AuditEntry, ChainVerification, exportAuditLog, getAuditLog, recordAudit, toAuditActor, verifyAuditChain
+} from '../../services/auditService';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'login': 'Login',
+  'login-failed': 'Failed login',
+  'logout': 'Logout',
+  'session-expired': 'Session expired',
+  'record-view': 'Record viewed',
+  'patient-create': 'Patient created',
+  'history-add': 'History added',
+  'history-update': 'History entry updated',
+  'lesion-save': 'Lesion saved',
+  'review-sign': 'Analysis signed off',
+  'review-addendum': 'Review addendum added',
+  'image-upload': 'Image uploaded',
+  'analysis-run': 'Analysis run',
+  'message-add': 'Message',
+  'direct-message-send': 'Direct message',
+  'care-team-update': 'Care team changed',
+  'chat-context-update': 'DermoBot context changed',
+  'escalation-raised': 'Escalation raised',
+  'escalation-acknowledged': 'Escalation acknowledged',
+  'care-plan-update': 'Care plan changed',
+  'dose-event': 'Dose recorded',
+  'access-denied': 'Access denied',
+  'audit-export': 'Audit exported',
+  'clinician-invite': 'Clinician invited'
+};
+
+interface AuditLogViewerProps {
+  doctor: User;
+  patients: PatientRecord[]; // The doctor's own patients; entries are limited to these
+}
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ doctor, patients }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+
+  // Filters
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [patientFilter, setPatientFilter] = useState('');
+  const [actorQuery, setActorQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    getAuditLog()
+      .then(log => {
+        setEntries(log);
+        return verifyAuditChain(log);
+      })
+      .then(setVerification)
+      .catch(error => {
+        console.error(error);
+        toast.error('The audit log could not be read.');
+      });
+  }, []);
+
+  const patientNames = useMemo(() => new Map(patients.map(p => [p.id, p.name])), [patients]);
+
+  const visible = useMemo(() => entries
+    .filter(e => e.actor.id === doctor.id || (e.patientId !== undefined && patientNames.has(e.patientId)))
+    .filter(e => !actionFilter || e.action === actionFilter)
+    .filter(e => !patientFilter || e.patientId === patientFilter)
+    .filter(e => !actorQuery || e.actor.name.toLowerCase().includes(actorQuery.toLowerCase()))
+    .filter(e => !fromDate || e.timestamp.slice(0, 10) >= fromDate)
+    .filter(e => !toDate || e.timestamp.slice(0, 10) <= toDate)
+    .reverse(), // Newest first
+    [entries, doctor.id, patientNames, actionFilter, patientFilter, actorQuery, fromDate, toDate]);
+
+  const handleExport = () => {
+    if (!verification) return;
+    const blob = new Blob([exportAuditLog(visible, verification)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dermolink-audit-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    recordAudit(toAuditActor(doctor), 'audit-export', { summary: `${visible.length} entries` });
+    toast.success(`Exported ${visible.length} audit entries`);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-slate-50 overflow-hidden">
+      <div className="h-16 bg-white border-b border-slate-200 flex items-center justify-between px-6 pr-20">
+        <div className="flex items-center gap-3">
+          <ScrollText className="w-5 h-5 text-blue-600" />
+          <div>
+            <h2 className="font-bold text-lg text-slate-800">Audit Log</h2>
+            <p className="text-xs text-slate-500">{visible.length} of {entries.length} entries</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {verification && (verification.valid ? (
+            <div className="flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-green-50 text-green-700 border border-green-200">
+              <ShieldCheck className="w-3 h-3" />
+              <span>Chain intact</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-red-50 text-red-700 border border-red-200">
+              <ShieldAlert className="w-3 h-3" />
+              <span>Tampering detected at #{verification.brokenAt}</span>
+            </div>
+          ))}
+          <button
+            onClick={handleExport}
+            disabled={!verification || visible.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:opacity-50 transition-all"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="p-4 bg-white border-b border-slate-200 flex flex-wrap gap-3">
+        <select
+          value={actionFilter}
+          onChange={e => setActionFilter(e.target.value as AuditAction | '')}
+          className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 outline-none"
+        >
+          <option value="">All actions</option>
+          {Object.entries(ACTION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <select
+          value={patientFilter}
+          onChange={e => setPatientFilter(e.target.value)}
+          className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 outline-none"
+        >
+          <option value="">All patients</option>
+          {patients.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            placeholder="Actor..."
+            value={actorQuery}
+            onChange={e => setActorQuery(e.target.value)}
+            className="pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+        </div>
+        <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none" />
+        <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none" />
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-100 text-xs text-slate-500 uppercase tracking-wider sticky top-0">
+            <tr>
+              <th className="text-left px-4 py-2 font-semibold">#</th>
+              <th className="text-left px-4 py-2 font-semibold">Time</th>
+              <th className="text-left px-4 py-2 font-semibold">Actor</th>
+              <th className="text-left px-4 py-2 font-semibold">Action</th>
+              <th className="text-left px-4 py-2 font-semibold">Patient</th>
+              <th className="text-left px-4 py-2 font-semibold">Details</th>
+              <th className="text-left px-4 py-2 font-semibold">Digest</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {visible.map(e => (
+              <tr key={e.seq} className={`border-b border-slate-100 ${verification?.brokenAt !== undefined && e.seq >= verification.brokenAt ? 'bg-red-50/50' : ''}`}>
+                <td className="px-4 py-2 text-slate-400 font-mono text-xs">{e.seq}</td>
+                <td className="px-4 py-2 text-slate-600 whitespace-nowrap">{new Date(e.timestamp).toLocaleString()}</td>
+                <td className="px-4 py-2 text-slate-800">{e.actor.name}</td>
+                <td className={`px-4 py-2 font-medium ${e.action === 'access-denied' || e.action === 'login-failed' ? 'text-red-600' : 'text-slate-800'}`}>
+                  {ACTION_LABELS[e.action] ?? e.action}
+                </td>
+                <td className="px-4 py-2 text-slate-600">{e.patientId ? patientNames.get(e.patientId) ?? `#${e.patientId}` : '—'}</td>
+                <td className="px-4 py-2 text-slate-500 max-w-xs truncate" title={e.summary}>{e.summary ?? ''}</td>
+                <td className="px-4 py-2 text-slate-400 font-mono text-xs" title={e.payloadDigest}>{e.payloadDigest.slice(0, 10)}…</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && (
+          <div className="p-8 text-center text-slate-400">
+            <ScrollText className="w-8 h-8 mx-auto mb-2 opacity-20" />
+            <p className="text-sm">No audit entries match these filters</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
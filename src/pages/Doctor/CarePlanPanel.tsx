@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, Plus, X, Save } from 'lucide-react';
+import { CarePlan, CarePlanItem, PatientRecord } from '../../types';
+import { DEFAULT_CARE_PLAN_SETTINGS, deviceTimeZone, isValidTimeZone, parseTime } from '../../services/scheduling';
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+// Times are edited as one comma-separated field
+type DraftItem = Omit<CarePlanItem, 'times'> & { times: string };
+
+interface Draft {
+  timezone: string;
+  items: DraftItem[];
+  snoozeMinutes: number;
+  maxSnoozes: number;
+  graceMinutes: number;
+}
+
+const toDraft = (plan?: CarePlan): Draft => ({
+  timezone: plan?.timezone ?? deviceTimeZone(),
+  items: (plan?.items ?? []).map(item => ({ ...item, times: item.times.join(', ') })),
+  snoozeMinutes: plan?.snoozeMinutes ?? DEFAULT_CARE_PLAN_SETTINGS.snoozeMinutes,
+  maxSnoozes: plan?.maxSnoozes ?? DEFAULT_CARE_PLAN_SETTINGS.maxSnoozes,
+  graceMinutes: plan?.graceMinutes ?? DEFAULT_CARE_PLAN_SETTINGS.graceMinutes
+});
+
+const newItem = (kind: CarePlanItem['kind']): DraftItem => ({
+  id: crypto.randomUUID(),
+  kind,
+  name: kind === 'medication' ? '' : 'Photo check-in',
+  times: kind === 'medication' ? '08:00, 20:00' : '20:00',
+  days: EVERY_DAY,
+  requiresPhoto: kind === 'check-in'
+});
+
+// Returns the problem with the draft, or the plan items it describes
+const parseItems = (draft: Draft): string | CarePlanItem[] => {
+  if (!isValidTimeZone(draft.timezone)) return `Unknown timezone "${draft.timezone}"`;
+  const items: CarePlanItem[] = [];
+  for (const item of draft.items) {
+    if (!item.name.trim()) return 'Every item needs a name';
+    const times = item.times.split(',').map(t => t.trim()).filter(Boolean);
+    if (times.length === 0 || times.some(t => !parseTime(t))) return `Times for "${item.name}" must look like 08:00, 20:00`;
+    if (item.days.length === 0) return `Pick at least one day for "${item.name}"`;
+    items.push({ ...item, name: item.name.trim(), times: [...new Set(times)].sort() });
+  }
+  return items;
+};
+
+interface CarePlanPanelProps {
+  patient: PatientRecord;
+  doctorId: string;
+  canEdit: boolean;
+  onSave: (plan: CarePlan) => Promise<void>;
+}
+
+const CarePlanPanel: React.FC<CarePlanPanelProps> = ({ patient, doctorId, canEdit, onSave }) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(patient.carePlan));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(patient.carePlan));
+    setError(null);
+  }, [patient.id, patient.carePlan?.updatedAt]);
+
+  const updateItem = (id: string, changes: Partial<DraftItem>) =>
+    setDraft(prev => ({ ...prev, items: prev.items.map(i => i.id === id ? { ...i, ...changes } : i) }));
+
+  const toggleDay = (item: DraftItem, day: number) =>
+    updateItem(item.id, { days: item.days.includes(day) ? item.days.filter(d => d !== day) : [...item.days, day].sort() });
+
+  const handleSave = async () => {
+    const items = parseItems(draft);
+    if (typeof items === 'string') {
+      setError(items);
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await onSave({
+        timezone: draft.timezone,
+        items,
+        snoozeMinutes: draft.snoozeMinutes,
+        maxSnoozes: draft.maxSnoozes,
+        graceMinutes: draft.graceMinutes,
+        updatedAt: new Date().toISOString(),
+        updatedBy: doctorId
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-70';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2 text-slate-800">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">Care Plan</h3>
+        </div>
+        {patient.carePlan && (
+          <span className="text-[10px] text-slate-400">Updated {new Date(patient.carePlan.updatedAt).toLocaleDateString()}</span>
+        )}
+      </div>
+      <div className="p-4 space-y-4">
+        <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+          <span className="font-medium">Patient timezone</span>
+          <input
+            value={draft.timezone}
+            onChange={e => setDraft({ ...draft, timezone: e.target.value })}
+            disabled={!canEdit}
+            className={`${inputClass} w-44`}
+          />
+        </label>
+
+        {draft.items.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-2">No medications or check-ins scheduled</p>
+        )}
+
+        {draft.items.map(item => (
+          <div key={item.id} className="border border-slate-100 rounded-xl p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className={`text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded ${item.kind === 'medication' ? 'bg-orange-50 text-orange-700' : 'bg-teal-50 text-teal-700'}`}>
+                {item.kind === 'medication' ? 'Medication' : 'Check-in'}
+              </span>
+              <input
+                value={item.name}
+                onChange={e => updateItem(item.id, { name: e.target.value })}
+                placeholder={item.kind === 'medication' ? 'e.g. Topical cream' : 'Check-in name'}
+                disabled={!canEdit}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              {canEdit && (
+                <button onClick={() => setDraft({ ...draft, items: draft.items.filter(i => i.id !== item.id) })} className="text-slate-300 hover:text-red-500" title="Remove">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {item.kind === 'medication' && (
+              <input
+                value={item.instructions ?? ''}
+                onChange={e => updateItem(item.id, { instructions: e.target.value || undefined })}
+                placeholder="Instructions (optional)"
+                disabled={!canEdit}
+                className={`${inputClass} w-full`}
+              />
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <input
+                value={item.times}
+                onChange={e => updateItem(item.id, { times: e.target.value })}
+                placeholder="08:00, 20:00"
+                disabled={!canEdit}
+                className={`${inputClass} w-28`}
+              />
+              <div className="flex gap-0.5">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={day}
+                    onClick={() => toggleDay(item, day)}
+                    disabled={!canEdit}
+                    className={`w-6 h-6 rounded-full text-[10px] font-semibold transition-colors ${item.days.includes(day) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={item.requiresPhoto}
+                onChange={e => updateItem(item.id, { requiresPhoto: e.target.checked })}
+                disabled={!canEdit}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              Photo required to dismiss the alarm
+            </label>
+          </div>
+        ))}
+
+        {canEdit && (
+          <div className="flex gap-2">
+            <button onClick={() => setDraft({ ...draft, items: [...draft.items, newItem('medication')] })} className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100">
+              <Plus className="w-3 h-3" /> Medication
+            </button>
+            <button onClick={() => setDraft({ ...draft, items: [...draft.items, newItem('check-in')] })} className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100">
+              <Plus className="w-3 h-3" /> Photo check-in
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 pt-3 border-t border-slate-100 text-[10px] text-slate-500">
+          <label className="space-y-1">
+            <span className="block">Snooze (min)</span>
+            <input type="number" min={1} value={draft.snoozeMinutes} onChange={e => setDraft({ ...draft, snoozeMinutes: Math.max(1, Number(e.target.value)) })} disabled={!canEdit} className={`${inputClass} w-full`} />
+          </label>
+          <label className="space-y-1">
+            <span className="block">Max snoozes</span>
+            <input type="number" min={0} value={draft.maxSnoozes} onChange={e => setDraft({ ...draft, maxSnoozes: Math.max(0, Number(e.target.value)) })} disabled={!canEdit} className={`${inputClass} w-full`} />
+          </label>
+          <label className="space-y-1">
+            <span className="block">Missed after (min)</span>
+            <input type="number" min={5} value={draft.graceMinutes} onChange={e => setDraft({ ...draft, graceMinutes: Math.max(5, Number(e.target.value)) })} disabled={!canEdit} className={`${inputClass} w-full`} />
+          </label>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {canEdit && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:opacity-50 transition-all"
+          >
+            <Save className="w-4 h-4" />
+            Save care plan
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CarePlanPanel;
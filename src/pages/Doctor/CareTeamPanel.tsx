@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Users, UserPlus, X } from 'lucide-react';
+import { CareTeamMember, CareTeamRole, PatientRecord, User } from '../../types';
+import { listDoctors } from '../../services/accountService';
+
+const ROLE_LABELS: Record<CareTeamRole, string> = {
+  primary: 'Primary',
+  consulting: 'Consulting',
+  'read-only': 'Read-only'
+};
+
+interface CareTeamPanelProps {
+  patient: PatientRecord;
+  currentDoctorId: string;
+  canManage: boolean;
+  onChange: (careTeam: CareTeamMember[]) => void;
+}
+
+const CareTeamPanel: React.FC<CareTeamPanelProps> = ({ patient, currentDoctorId, canManage, onChange }) => {
+  const [doctors, setDoctors] = useState<User[]>([]);
+  const [newDoctorId, setNewDoctorId] = useState('');
+  const [newRole, setNewRole] = useState<CareTeamRole>('consulting');
+
+  useEffect(() => {
+    listDoctors().then(setDoctors);
+  }, []);
+
+  const doctorName = (id: string) => doctors.find(d => d.id === id)?.name ?? 'Unknown doctor';
+  const candidates = doctors.filter(d => !patient.careTeam.some(m => m.doctorId === d.id));
+
+  const changeRole = (doctorId: string, role: CareTeamRole) =>
+    onChange(patient.careTeam.map(m => m.doctorId === doctorId ? { ...m, role } : m));
+
+  const removeMember = (doctorId: string) =>
+    onChange(patient.careTeam.filter(m => m.doctorId !== doctorId));
+
+  const addMember = () => {
+    if (!newDoctorId) return;
+    onChange([...patient.careTeam, { doctorId: newDoctorId, role: newRole }]);
+    setNewDoctorId('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-2 text-slate-800">
+        <Users className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold">Care Team</h3>
+      </div>
+      <div className="p-4 space-y-3">
+        {patient.careTeam.map(member => (
+          <div key={member.doctorId} className="flex items-center justify-between gap-3">
+            <div className="text-sm font-medium text-slate-800 truncate">
+              {doctorName(member.doctorId)}
+              {member.doctorId === currentDoctorId && <span className="text-slate-400 font-normal"> (you)</span>}
+            </div>
+            <div className="flex items-center gap-2">
+              {canManage ? (
+                <select
+                  value={member.role}
+                  onChange={e => changeRole(member.doctorId, e.target.value as CareTeamRole)}
+                  className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              ) : (
+                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">{ROLE_LABELS[member.role]}</span>
+              )}
+              {canManage && (
+                <button onClick={() => removeMember(member.doctorId)} className="text-slate-300 hover:text-red-500" title="Remove from care team">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {canManage && candidates.length > 0 && (
+          <div className="flex gap-2 pt-3 border-t border-slate-100">
+            <select
+              value={newDoctorId}
+              onChange={e => setNewDoctorId(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="">Add doctor...</option>
+              {candidates.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+            <select
+              value={newRole}
+              onChange={e => setNewRole(e.target.value as CareTeamRole)}
+              className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              {Object.entries(ROLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <button
+              onClick={addMember}
+              disabled={!newDoctorId}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              title="Add to care team"
+            >
+              <UserPlus className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CareTeamPanel;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Bot } from 'lucide-react';
+import { ChatContextField, PatientRecord } from '../../types';
+import { CHAT_CONTEXT_FIELDS, buildPatientContext } from '../../services/patientContext';
+
+interface ChatContextPanelProps {
+  patient: PatientRecord;
+  canEdit: boolean;
+  onChange: (exclusions: ChatContextField[]) => void;
+}
+
+// Lets the care team choose which parts of the record DermoBot is told about
+const ChatContextPanel: React.FC<ChatContextPanelProps> = ({ patient, canEdit, onChange }) => {
+  const exclusions = patient.chatContextExclusions ?? [];
+  const shared = new Map(buildPatientContext(patient).map(item => [item.field, item.value]));
+
+  const toggle = (field: ChatContextField) =>
+    onChange(exclusions.includes(field) ? exclusions.filter(f => f !== field) : [...exclusions, field]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-2 text-slate-800">
+        <Bot className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold">Shared with DermoBot</h3>
+      </div>
+      <div className="p-4 space-y-3">
+        {(Object.entries(CHAT_CONTEXT_FIELDS) as [ChatContextField, string][]).map(([field, label]) => (
+          <label key={field} className={`flex items-start gap-3 ${canEdit ? 'cursor-pointer' : 'opacity-70'}`}>
+            <input
+              type="checkbox"
+              checked={!exclusions.includes(field)}
+              onChange={() => toggle(field)}
+              disabled={!canEdit}
+              className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-slate-800">{label}</div>
+              <div className="text-xs text-slate-500 truncate">
+                {exclusions.includes(field) ? 'Withheld' : shared.get(field) ?? 'Nothing recorded yet'}
+              </div>
+            </div>
+          </label>
+        ))}
+        <p className="text-xs text-slate-400 pt-2 border-t border-slate-100">
+          The patient's name, photos and notes are never sent.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ChatContextPanel;
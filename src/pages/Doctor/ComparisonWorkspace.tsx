@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Columns2, Layers, SplitSquareHorizontal, X, ArrowRight } from 'lucide-react';
+import { HistoryEntry } from '../../types';
+import { compareEntries } from '../../services/comparison';
+
+type CompareMode = 'side-by-side' | 'overlay' | 'swipe';
+
+const MODES: { id: CompareMode, label: string, icon: React.ElementType }[] = [
+  { id: 'side-by-side', label: 'Side by side', icon: Columns2 },
+  { id: 'overlay', label: 'Overlay', icon: Layers },
+  { id: 'swipe', label: 'Swipe', icon: SplitSquareHorizontal }
+];
+
+// Cleaned images compare better, since hair and glare differ between photos
+const imageOf = (entry: HistoryEntry) => entry.processedImageUrl ?? entry.imageUrl;
+
+const deltaColor = (delta: number) => delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-600' : 'text-slate-400';
+
+const formatDelta = (delta: number, scale = 1) => `${delta > 0 ? '+' : ''}${Math.round(delta * scale)}`;
+
+const EntryPicker: React.FC<{ label: string, history: HistoryEntry[], value: string, onChange: (id: string) => void }> = ({ label, history, value, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-slate-500">
+    {label}
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {history.map(entry => (
+        <option key={entry.id} value={entry.id}>
+          {entry.date}{entry.analysisResult ? ` · ${entry.analysisResult.diagnosis}` : ''}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+interface ComparisonWorkspaceProps {
+  history: HistoryEntry[]; // Newest first
+  onClose: () => void;
+}
+
+// Two photos from the record in one view, with what the analyses say changed between them
+const ComparisonWorkspace: React.FC<ComparisonWorkspaceProps> = ({ history, onClose }) => {
+  const [firstId, setFirstId] = useState(history[history.length - 1]?.id ?? '');
+  const [secondId, setSecondId] = useState(history[0]?.id ?? '');
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [opacity, setOpacity] = useState(50);
+  const [swipe, setSwipe] = useState(50);
+
+  const first = history.find(e => e.id === firstId) ?? history[history.length - 1];
+  const second = history.find(e => e.id === secondId) ?? history[0];
+  const comparison = useMemo(() => first && second ? compareEntries(first, second) : null, [first, second]);
+
+  if (!comparison) return null;
+  const { before, after } = comparison;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+      <div className="xl:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-slate-50 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <EntryPicker label="Compare" history={history} value={first.id} onChange={setFirstId} />
+            <EntryPicker label="with" history={history} value={second.id} onChange={setSecondId} />
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-slate-200 rounded-lg p-1 text-xs font-medium">
+              {MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMode(m.id)}
+                  className={`flex items-center gap-1 px-2.5 py-1 rounded-md transition-all ${mode === m.id ? 'bg-white shadow text-blue-700' : 'text-slate-500'}`}
+                >
+                  <m.icon className="w-3 h-3" />
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-200 rounded-lg transition-colors" title="Close comparison">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {mode === 'side-by-side' ? (
+          <div className="grid grid-cols-2 gap-px bg-slate-700 min-h-[400px]">
+            {[before, after].map((entry, i) => (
+              <div key={i} className="bg-slate-900 relative flex items-center justify-center">
+                <img src={imageOf(entry)} alt={entry.date} className="max-h-[400px] max-w-full object-contain" />
+                <span className="absolute top-3 left-3 bg-black/60 text-white text-xs px-2 py-1 rounded">{i === 0 ? 'Before' : 'After'} · {entry.date}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-slate-900 relative min-h-[400px] flex items-center justify-center overflow-hidden">
+            <img src={imageOf(before)} alt={before.date} className="max-h-[400px] max-w-full object-contain" />
+            <img
+              src={imageOf(after)}
+              alt={after.date}
+              className="absolute inset-0 m-auto max-h-[400px] max-w-full object-contain"
+              style={mode === 'overlay' ? { opacity: opacity / 100 } : { clipPath: `inset(0 0 0 ${swipe}%)` }}
+            />
+            {mode === 'swipe' && <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${swipe}%` }} />}
+            <span className="absolute top-3 left-3 bg-black/60 text-white text-xs px-2 py-1 rounded">Before · {before.date}</span>
+            <span className="absolute top-3 right-3 bg-black/60 text-white text-xs px-2 py-1 rounded">After · {after.date}</span>
+          </div>
+        )}
+
+        {mode !== 'side-by-side' && (
+          <div className="p-4 border-t border-slate-100 flex items-center gap-3 text-xs text-slate-500">
+            <span className="w-24">{mode === 'overlay' ? 'After opacity' : 'Divider'}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={mode === 'overlay' ? opacity : swipe}
+              onChange={e => (mode === 'overlay' ? setOpacity : setSwipe)(Number(e.target.value))}
+              className="flex-1 accent-blue-600"
+            />
+            <span className="w-10 text-right">{mode === 'overlay' ? opacity : swipe}%</span>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between text-slate-800">
+          <h3 className="font-bold">Change Report</h3>
+          <span className="flex items-center gap-1 text-[10px] text-slate-400">
+            {before.date} <ArrowRight className="w-3 h-3" /> {after.date}
+          </span>
+        </div>
+        <div className="p-4 space-y-5">
+          <ul className="space-y-1.5 text-sm text-slate-700">
+            {comparison.summary.map((line, i) => <li key={i}>{line}</li>)}
+          </ul>
+
+          {comparison.analyzed && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                  <div className="text-xs font-medium text-slate-500 mb-1">Severity</div>
+                  <div className="text-sm font-bold text-slate-800">{comparison.severity.before} → {comparison.severity.after}</div>
+                </div>
+                <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                  <div className="text-xs font-medium text-slate-500 mb-1">Score change</div>
+                  <div className={`text-sm font-bold ${deltaColor(comparison.severity.scoreChange ?? 0)}`}>
+                    {formatDelta(comparison.severity.scoreChange ?? 0)} / 10
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-500 uppercase">Class probabilities</span>
+                {comparison.probabilities.map(p => (
+                  <div key={p.label} className="flex items-center gap-2 text-xs">
+                    <span className="flex-1 truncate text-slate-600">{p.label}</span>
+                    <span className="text-slate-400 w-20 text-right">{Math.round(p.before * 100)}% → {Math.round(p.after * 100)}%</span>
+                    <span className={`w-10 text-right font-semibold ${deltaColor(p.delta)}`}>{formatDelta(p.delta, 100)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-xs font-semibold text-slate-500 uppercase">Features</span>
+                <div className="flex flex-wrap gap-1.5">
+                  {comparison.features.added.map(f => <span key={`+${f}`} className="px-2 py-0.5 bg-red-50 text-red-700 border border-red-100 rounded-full text-xs">+ {f}</span>)}
+                  {comparison.features.removed.map(f => <span key={`-${f}`} className="px-2 py-0.5 bg-green-50 text-green-700 border border-green-100 rounded-full text-xs line-through">{f}</span>)}
+                  {comparison.features.unchanged.map(f => <span key={`=${f}`} className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs">{f}</span>)}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonWorkspace;
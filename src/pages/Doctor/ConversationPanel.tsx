@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare } from 'lucide-react';
+import { ChatThread, Message, PatientRecord } from '../../types';
+import { PatientRepository } from '../../services/storageService';
+import { sortThreads, threadMessages } from '../../services/chatService';
+
+interface ConversationPanelProps {
+  patient: PatientRecord;
+  repository: PatientRepository;
+}
+
+// Read-only view of the patient's DermoBot threads
+const ConversationPanel: React.FC<ConversationPanelProps> = ({ patient, repository }) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [threadId, setThreadId] = useState('');
+
+  useEffect(() => {
+    Promise.all([repository.listThreads(patient.id), repository.getMessages(patient.id)])
+      .then(([storedThreads, storedMessages]) => {
+        const sorted = sortThreads(storedThreads);
+        setThreads(sorted);
+        setMessages(storedMessages);
+        setThreadId(sorted[0]?.id ?? '');
+      })
+      .catch(error => console.error(error));
+  }, [patient.id, repository]);
+
+  const visible = threadMessages(messages, threadId);
+  const thread = threads.find(t => t.id === threadId);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2 text-slate-800">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">DermoBot Conversations</h3>
+        </div>
+        {threads.length > 0 && (
+          <select
+            value={threadId}
+            onChange={e => setThreadId(e.target.value)}
+            className="max-w-[50%] bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {threads.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+          </select>
+        )}
+      </div>
+      {thread?.summary && (
+        <div className="px-4 py-2 bg-blue-50/50 border-b border-slate-100 text-xs text-slate-600">
+          <span className="font-semibold text-slate-700">Earlier summary: </span>{thread.summary}
+        </div>
+      )}
+      <div className="max-h-80 overflow-y-auto p-4 space-y-3">
+        {visible.length > 0 ? visible.map(m => (
+          <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+            <div className={`max-w-[85%] rounded-xl px-3 py-2 text-sm leading-relaxed ${m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700'}`}>
+              {m.text}
+            </div>
+            <span className="text-[10px] text-slate-400 mt-0.5">
+              {m.role === 'user' ? patient.name : 'DermoBot'} · {new Date(m.timestamp).toLocaleString()}
+            </span>
+          </div>
+        )) : (
+          <p className="text-sm text-slate-400 text-center py-4">No conversations yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationPanel;
@@ -1,12 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
 import {
   Users, Search, Filter, ChevronRight, AlertTriangle,
-  Wand2, FileText, Download, Check, X, Scissors, Layers, CheckCircle, Bell, Info, LogOut, History, Plus, BarChart2, Save
+  Wand2, FileText, Download, Check, X, Scissors, Layers, CheckCircle, Bell, Info, LogOut, History, Plus, UserPlus, BarChart2, Save, ScrollText, Mail, GitCompare
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveContainer, Cell } from 'recharts';
-import { analyzeLesion, cleanLesionImage } from '../../services/geminiService';
-import { getPatients, addPatient, addHistoryEntry } from '../../services/storageService';
-import { AnalysisResult, AppNotification, PatientRecord } from '../../types';
+import { AnalysisError, analyzeLesion, checkAnalysisProvider, cleanLesionImage } from '../../services/analysisService';
+import { measureLesion } from '../../services/lesionMetrics';
+import { VIEW_LABELS, entryImages, isPrimaryImage } from '../../services/imageViews';
+import { lesionHistory } from '../../services/lesions';
+import { severityScoreFor } from '../../services/review';
+import { HairRemovalMode, removeHairLocally } from '../../services/hairRemovalService';
+import { UnreadableDataError, getRepositoryForUser, isEscalationOpen } from '../../services/storageService';
+import { openEscalations } from '../../services/triage';
+import { formatRate, lowAdherenceAlerts } from '../../services/adherence';
+import { MESSAGE_POLL_MS, composeDirectMessage, messageNotification, unreadMessages } from '../../services/messagingService';
+import { accessLevel } from '../../services/accessControl';
+import { recordAudit, toAuditActor } from '../../services/auditService';
+import { issueEnrolmentCode } from '../../services/accountService';
+import {
+  AppNotification, CarePlan, CareTeamMember, ChatContextField, ClinicalReview, DirectMessage, EntryImage, HistoryEntryUpdate, Lesion, PatientRecord,
+  ReviewAddendum, User
+} from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import ReauthDialog from '../../components/ReauthDialog';
+import CareTeamPanel from './CareTeamPanel';
+import InviteClinicianDialog from './InviteClinicianDialog';
+import AuditLogViewer from './AuditLogViewer';
+import ConversationPanel from './ConversationPanel';
+import ChatContextPanel from './ChatContextPanel';
+import CarePlanPanel from './CarePlanPanel';
+import AdherencePanel from './AdherencePanel';
+import HistoryTimeline from './HistoryTimeline';
+import ComparisonWorkspace from './ComparisonWorkspace';
+import LesionMetricsCard from './LesionMetricsCard';
+import LesionMapCard from './LesionMapCard';
+import ReviewPanel from './ReviewPanel';
+import SeverityTrendChart from '../../components/SeverityTrendChart';
+import { TrendRange } from '../../services/trends';
+import DirectMessageThread from '../../components/DirectMessageThread';
 import { toast } from 'sonner';
 
 const INITIAL_DOC_NOTIFICATIONS: AppNotification[] = [
@@ -14,22 +45,46 @@ const INITIAL_DOC_NOTIFICATIONS: AppNotification[] = [
   { id: 'd2', type: 'info', title: 'System Update', message: 'New AI model v3.5 deployed successfully.', timestamp: new Date(Date.now() - 1000 * 60 * 60 * 5), read: true },
 ];
 
+const fetchAsBase64 = async (url: string) => {
+  const resp = await fetch(url);
+  const blob = await resp.blob();
+  return new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.readAsDataURL(blob);
+  });
+};
+
 interface DoctorInterfaceProps {
   onLogout: () => void;
+  doctor: User;
 }
 
-const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
+const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout, doctor }) => {
+  const repository = getRepositoryForUser(doctor);
   const [patients, setPatients] = useState<PatientRecord[]>([]);
   const [selectedPatient, setSelectedPatient] = useState<PatientRecord | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [cleaning, setCleaning] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [processedImage, setProcessedImage] = useState<string | null>(null);
+  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null); // History photo in the viewer
+  const [selectedLesionId, setSelectedLesionId] = useState<string | null>(null); // Narrows the timeline, trend and comparison; null for all
   const [viewMode, setViewMode] = useState<'original' | 'processed'>('original');
+  const [galleryImageId, setGalleryImageId] = useState<string | null>(null); // View in the viewer; null for the primary
+  const [comparing, setComparing] = useState(false);
+  const [cleanMode, setCleanMode] = useState<HairRemovalMode>('local');
+  const [showHairMask, setShowHairMask] = useState(false);
+  const [activeView, setActiveView] = useState<'patients' | 'audit'>('patients');
 
   // Add Patient Modal State
   const [showAddModal, setShowAddModal] = useState(false);
-  const [newPatientForm, setNewPatientForm] = useState({ name: '', age: '', condition: 'Unknown' });
+  const [showInvite, setShowInvite] = useState(false);
+  const [newPatientForm, setNewPatientForm] = useState({ name: '', age: '', condition: 'Unknown', email: '' });
+  // What the new patient needs to register, shown once in place of the form
+  const [enrolment, setEnrolment] = useState<{ name: string, patientId: string, contact: string, code: string, expiresAt: Date } | null>(null);
+
+  // Sensitive actions wait here until the doctor re-enters their password
+  const { requiresReauth } = useAuth();
+  const [pendingAction, setPendingAction] = useState<{ label: string, run: () => void } | null>(null);
 
   // Recent History
   const [recentPatients, setRecentPatients] = useState<PatientRecord[]>([]);
@@ -38,12 +93,90 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
   const [notifications, setNotifications] = useState<AppNotification[]>(INITIAL_DOC_NOTIFICATIONS);
   const [showNotifications, setShowNotifications] = useState(false);
   const notificationRef = useRef<HTMLDivElement>(null);
+  const alertedEscalations = useRef(new Set<string>());
+  const alertedAdherence = useRef(new Set<string>());
+  const [trendRange, setTrendRange] = useState<TrendRange>('90d');
 
-  // Load Patients from "Backend" (LocalStorage)
+  // Patient–doctor messages for every listed patient, keyed by patient id
+  const [directMessages, setDirectMessages] = useState<Record<string, DirectMessage[]>>({});
+  const notifiedMessages = useRef(new Set<string>());
+
+  // A missing model or key is reported on arrival and stays up, not discovered at the first analysis
   useEffect(() => {
-    setPatients(getPatients());
+    checkAnalysisProvider().catch(error => {
+      toast.error(`Lesion analysis is unavailable: ${error instanceof Error ? error.message : error}`, { id: 'analysis-unavailable', duration: Infinity });
+    });
   }, []);
 
+  // Load this doctor's patients from "Backend" (PatientRepository, filtered by care team),
+  // polling so escalations, messages and doses from patient sessions show up without a reload
+  useEffect(() => {
+    const refresh = async () => {
+      const list = await repository.listPatients();
+      setPatients(list);
+      setSelectedPatient(prev => prev ? list.find(p => p.id === prev.id) ?? prev : prev);
+      raiseEscalationAlerts(list);
+      raiseAdherenceAlerts(list);
+
+      const threads = await Promise.all(list.map(async p => [p.id, await repository.getDirectMessages(p.id)] as const));
+      const byPatient: Record<string, DirectMessage[]> = Object.fromEntries(threads);
+      setDirectMessages(byPatient);
+      raiseMessageAlerts(list, byPatient);
+    };
+    // Stored data this version cannot read is left alone; say so once instead of showing an empty list
+    const reportError = (error: unknown) => error instanceof UnreadableDataError
+      ? toast.error(error.message, { id: 'unreadable-data', duration: Infinity })
+      : console.error(error);
+    refresh().catch(reportError);
+    const timer = setInterval(() => refresh().catch(reportError), MESSAGE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [repository]);
+
+  const raiseMessageAlerts = (list: PatientRecord[], byPatient: Record<string, DirectMessage[]>) => {
+    const fresh = list.flatMap(p => unreadMessages(byPatient[p.id] ?? [], doctor.role)
+      .filter(m => !notifiedMessages.current.has(m.id))
+      .map(m => ({ message: m, patient: p })));
+    if (fresh.length === 0) return;
+    fresh.forEach(({ message }) => notifiedMessages.current.add(message.id));
+    setNotifications(prev => [...fresh.map(({ message, patient }) => messageNotification(message, patient.name)), ...prev]);
+  };
+
+  const raiseEscalationAlerts = (list: PatientRecord[]) => {
+    const fresh = openEscalations(list).filter(e => !alertedEscalations.current.has(e.key));
+    if (fresh.length === 0) return;
+    fresh.forEach(e => alertedEscalations.current.add(e.key));
+    setNotifications(prev => [
+      ...fresh.map((e): AppNotification => ({
+        id: `escalation-${e.key}`,
+        type: 'alert',
+        title: `Urgent: ${e.patient.name}`,
+        message: e.escalation.reason,
+        timestamp: new Date(e.escalation.raisedAt),
+        read: false
+      })),
+      ...prev
+    ]);
+    fresh.forEach(e => toast.error(`Urgent: ${e.patient.name} — ${e.escalation.reason}`));
+  };
+
+  const raiseAdherenceAlerts = (list: PatientRecord[]) => {
+    const fresh = lowAdherenceAlerts(list, new Date()).filter(a => !alertedAdherence.current.has(a.key));
+    if (fresh.length === 0) return;
+    fresh.forEach(a => alertedAdherence.current.add(a.key));
+    setNotifications(prev => [
+      ...fresh.map((a): AppNotification => ({
+        id: `adherence-${a.key}`,
+        type: 'alert',
+        title: `Low adherence: ${a.patient.name}`,
+        message: `${formatRate(a.summary.rate)} of scheduled doses taken (${a.summary.missed} missed).`,
+        timestamp: new Date(),
+        read: false
+      })),
+      ...prev
+    ]);
+    fresh.forEach(a => toast.warning(`Low adherence: ${a.patient.name} (${formatRate(a.summary.rate)})`));
+  };
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (notificationRef.current && !notificationRef.current.contains(event.target as Node)) {
@@ -73,21 +206,47 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
 
   const handlePatientSelect = (patient: PatientRecord) => {
     setSelectedPatient(patient);
-    setAnalysisResult(null);
-    setProcessedImage(null);
+    setSelectedEntryId(patient.history[0]?.id ?? null);
+    setSelectedLesionId(null);
     setViewMode('original');
+    setComparing(false);
+    setShowHairMask(false);
 
     // Add to recent history (Keep top 5, unique)
     setRecentPatients(prev => {
       const others = prev.filter(p => p.id !== patient.id);
       return [patient, ...others].slice(0, 5);
     });
+
+    // Re-read through the repository so the view is checked and audited
+    repository.getPatient(patient.id)
+      .then(fresh => setSelectedPatient(prev => prev?.id === patient.id && fresh ? fresh : prev))
+      .catch(() => {
+        toast.error("You no longer have access to this patient.");
+        setSelectedPatient(prev => prev?.id === patient.id ? null : prev);
+      });
+  };
+
+  // Signing is an attestation, so it asks for the password every time rather than within the re-auth window
+  const withReauth = (label: string, run: () => void, always = false) => {
+    if (always || requiresReauth()) setPendingAction({ label, run });
+    else run();
+  };
+
+  const closeAddModal = () => {
+    setShowAddModal(false);
+    setEnrolment(null);
   };
 
   const handleAddPatientSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newPatientForm.name && newPatientForm.age) {
-      const newPatient = addPatient({
+    withReauth('add a patient', createPatient);
+  };
+
+  const createPatient = async () => {
+    if (!newPatientForm.name || !newPatientForm.age || !newPatientForm.email) return;
+    try {
+      const newPatient = await repository.addPatient({
         name: newPatientForm.name,
         age: parseInt(newPatientForm.age),
         condition: newPatientForm.condition,
@@ -95,70 +254,119 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
         lastUpdate: 'Just now',
         img: `https://picsum.photos/400/400?random=${Date.now()}` // Mock image for demo
       });
-      setPatients(getPatients()); // Refresh list
-      setShowAddModal(false);
-      setNewPatientForm({ name: '', age: '', condition: 'Unknown' });
+      const issued = await issueEnrolmentCode(newPatient.id, newPatientForm.email);
+      setPatients(await repository.listPatients()); // Refresh list
+      setEnrolment({ name: newPatient.name, patientId: newPatient.id, contact: newPatientForm.email.trim(), ...issued });
+      setNewPatientForm({ name: '', age: '', condition: 'Unknown', email: '' });
       handlePatientSelect(newPatient); // Auto select
       toast.success(`Patient profile created for ${newPatient.name}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Could not create the patient profile");
     }
   };
 
-  const runAnalysis = async () => {
+  // Re-reads every record after a write so the list and the open record show what was stored
+  const reloadPatients = async (current: PatientRecord) => {
+    const refreshed = await repository.listPatients();
+    setPatients(refreshed);
+    setSelectedPatient(refreshed.find(p => p.id === current.id) ?? current);
+  };
+
+  // Analyses and cleaned images are written back onto the entry they were made from
+  const updateEntry = async (entryId: string, update: HistoryEntryUpdate) => {
     if (!selectedPatient) return;
+    await repository.updateHistoryEntry(selectedPatient.id, entryId, update);
+    await reloadPatients(selectedPatient);
+  };
+
+  const runAnalysis = async () => {
+    if (!selectedPatient || !selectedEntry) return;
+    const entry = selectedEntry;
     const toastId = toast.loading('Running CNN Analysis...');
     setAnalyzing(true);
 
     try {
-      const resp = await fetch(selectedPatient.img);
-      const blob = await resp.blob();
-      const base64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(blob);
-      });
+      // Every view is analyzed and fused. For the primary view, analyze what the doctor is looking
+      // at if it was cleaned locally; the generative cleanup can invent lesion detail, so its output
+      // is never classified or measured.
+      const cleanedLocally = viewMode === 'processed' && !!entry.processedImageUrl && entry.processedBy === 'local';
+      if (viewMode === 'processed' && entry.processedImageUrl && !cleanedLocally) {
+        toast.info('AI-cleaned images are not analyzed; using the original photo.');
+      }
+      const primaryUrl = cleanedLocally ? entry.processedImageUrl! : entry.imageUrl;
+      const images = entryImages(entry);
+      const views = await Promise.all(images.map(async image => ({
+        imageId: image.id,
+        view: image.view,
+        imageBase64: await fetchAsBase64(isPrimaryImage(entry, image) ? primaryUrl : image.url)
+      })));
+      const base64 = views[Math.max(0, images.findIndex(image => isPrimaryImage(entry, image)))].imageBase64;
 
-      const result = await analyzeLesion(base64);
-      setAnalysisResult(result);
-
-      // Save to Backend History
-      addHistoryEntry(selectedPatient.id, {
-        date: new Date().toISOString().split('T')[0],
-        imageUrl: selectedPatient.img,
-        processedImageUrl: processedImage || undefined,
-        notes: `AI Diagnosis: ${result.diagnosis} (${Math.round(result.confidence * 100)}%)`,
-        severityScore: result.severity === 'Critical' ? 9 : result.severity === 'High' ? 7 : result.severity === 'Moderate' ? 5 : 2,
-        analysisResult: result
+      // Measured from the fetched bytes so a cross-origin photo cannot taint the canvas.
+      // A failed measurement leaves the AI result to stand on its own.
+      // Only an earlier photo of the same lesion is a baseline for evolution.
+      const older = selectedPatient.history.slice(selectedPatient.history.indexOf(entry) + 1);
+      const previous = older.find(e => e.lesionId === entry.lesionId && e.lesionMetrics);
+      const [result, lesionMetrics] = await Promise.all([
+        analyzeLesion(views, {
+          onRetry: (_error, attempt) => toast.loading(`Analysis attempt ${attempt} failed, retrying...`, { id: toastId })
+        }),
+        measureLesion(`data:image/jpeg;base64,${base64}`, {
+          date: entry.date,
+          previous: previous && { entryId: previous.id, date: previous.date, metrics: previous.lesionMetrics! }
+        }).catch(() => null)
+      ]);
+      recordAudit(toAuditActor(doctor), 'analysis-run', {
+        patientId: selectedPatient.id,
+        summary: entry.id,
+        payload: { entryId: entry.id, result }
       });
 
-      // Refresh patient list to show updated status if changed
-      setPatients(getPatients());
-      toast.success("Analysis Complete", { id: toastId });
+      await updateEntry(entry.id, { analysisResult: result, lesionMetrics: lesionMetrics ?? undefined, severityScore: severityScoreFor(result.severity) });
+      const fused = result.views?.length ?? 1;
+      if (fused < views.length) {
+        toast.warning(`Analysis complete from ${fused} of ${views.length} views; the others could not be analyzed`, { id: toastId });
+      } else {
+        toast.success(views.length > 1 ? `Analysis Complete (${views.length} views fused)` : "Analysis Complete", { id: toastId });
+      }
 
     } catch (e) {
+      // Nothing is saved, so a failure never shows up as a result in the record
       console.error(e);
-      toast.error("Analysis Failed. Please try again.", { id: toastId });
+      if (e instanceof AnalysisError) {
+        const cause = e.reason === 'unavailable' ? 'The analysis model is unavailable' : 'The model returned an unusable result';
+        toast.error(`${cause} (${e.attempts} attempt${e.attempts > 1 ? 's' : ''}). No result was saved.`, { id: toastId });
+      } else {
+        toast.error("Analysis Failed. Please try again.", { id: toastId });
+      }
     } finally {
       setAnalyzing(false);
     }
   };
 
   const runHairRemoval = async () => {
-    if (!selectedPatient) return;
-    const toastId = toast.loading('Removing artifacts...');
+    if (!selectedPatient || !selectedEntry) return;
+    const entry = selectedEntry;
+    const toastId = toast.loading(cleanMode === 'local' ? 'Detecting hair...' : 'Removing artifacts...');
     setCleaning(true);
     try {
-      const resp = await fetch(selectedPatient.img);
-      const blob = await resp.blob();
-      const base64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(blob);
-      });
+      const base64 = await fetchAsBase64(entry.imageUrl);
+
+      if (cleanMode === 'local') {
+        // Decoded from the fetched bytes so a cross-origin photo cannot taint the canvas
+        const local = await removeHairLocally(`data:image/jpeg;base64,${base64}`);
+        await updateEntry(entry.id, { processedImageUrl: local.cleanedUrl, processedBy: 'local', hairMaskUrl: local.maskUrl });
+        setViewMode('processed');
+        setShowHairMask(true);
+        toast.success(`Hair removed from ${(local.hairFraction * 100).toFixed(1)}% of the photo`, { id: toastId });
+        return;
+      }
 
       const cleanBase64 = await cleanLesionImage(base64);
       if (cleanBase64) {
-        setProcessedImage(`data:image/jpeg;base64,${cleanBase64}`);
+        await updateEntry(entry.id, { processedImageUrl: `data:image/jpeg;base64,${cleanBase64}`, processedBy: 'ai', hairMaskUrl: undefined });
         setViewMode('processed');
+        setShowHairMask(false);
         toast.success("Image enhanced", { id: toastId });
       } else {
         toast.error("Could not process image.", { id: toastId });
@@ -171,7 +379,202 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
     }
   };
 
+  const annotateEntry = async (entryId: string, text: string) => {
+    const entry = selectedPatient?.history.find(e => e.id === entryId);
+    if (!entry) return false;
+    try {
+      await updateEntry(entryId, {
+        annotations: [...(entry.annotations ?? []), {
+          id: crypto.randomUUID(),
+          text,
+          authorId: doctor.id,
+          authorName: doctor.name,
+          createdAt: new Date().toISOString()
+        }]
+      });
+      return true;
+    } catch {
+      toast.error("Could not save the annotation");
+      return false;
+    }
+  };
+
+  const saveLesion = async (lesion: Lesion) => {
+    if (!selectedPatient) return false;
+    try {
+      await repository.saveLesion(selectedPatient.id, lesion);
+      await reloadPatients(selectedPatient);
+      toast.success(`${lesion.label} saved`);
+      return true;
+    } catch {
+      toast.error("Could not save the lesion");
+      return false;
+    }
+  };
+
+  const signReview = async (entryId: string, review: ClinicalReview) => {
+    if (!selectedPatient) return;
+    try {
+      await repository.signReview(selectedPatient.id, entryId, review);
+      await reloadPatients(selectedPatient);
+      toast.success(`Signed off: ${review.diagnosis} (${review.severity})`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Could not sign off the analysis");
+    }
+  };
+
+  const addAddendum = async (entryId: string, addendum: ReviewAddendum) => {
+    if (!selectedPatient) return false;
+    try {
+      await repository.addReviewAddendum(selectedPatient.id, entryId, addendum);
+      await reloadPatients(selectedPatient);
+      toast.success("Addendum added");
+      return true;
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Could not add the addendum");
+      return false;
+    }
+  };
+
+  const moveEntryToLesion = async (entryId: string, lesionId: string) => {
+    try {
+      await updateEntry(entryId, { lesionId });
+      // Keep the photo in view when the timeline is narrowed to one lesion
+      setSelectedLesionId(prev => prev && lesionId);
+      toast.success("Photo moved");
+    } catch {
+      toast.error("Could not move the photo");
+    }
+  };
+
+  const updateCareTeam = async (careTeam: CareTeamMember[]) => {
+    if (!selectedPatient) return;
+    try {
+      await repository.updateCareTeam(selectedPatient.id, careTeam);
+      const refreshed = await repository.listPatients();
+      setPatients(refreshed);
+      // Removing yourself (or the patient) from the team drops access to the record
+      setSelectedPatient(refreshed.find(p => p.id === selectedPatient.id) ?? null);
+      toast.success("Care team updated");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Could not update care team");
+    }
+  };
+
+  const updateChatContext = async (exclusions: ChatContextField[]) => {
+    if (!selectedPatient) return;
+    try {
+      await repository.updateChatContextExclusions(selectedPatient.id, exclusions);
+      const updated = { ...selectedPatient, chatContextExclusions: exclusions };
+      setSelectedPatient(updated);
+      setPatients(prev => prev.map(p => p.id === updated.id ? updated : p));
+    } catch {
+      toast.error("Could not update what DermoBot is told");
+    }
+  };
+
+  const saveCarePlan = async (plan: CarePlan) => {
+    if (!selectedPatient) return;
+    try {
+      await repository.updateCarePlan(selectedPatient.id, plan);
+      const updated = { ...selectedPatient, carePlan: plan };
+      setSelectedPatient(updated);
+      setPatients(prev => prev.map(p => p.id === updated.id ? updated : p));
+      toast.success("Care plan saved");
+    } catch {
+      toast.error("Could not save the care plan");
+    }
+  };
+
+  const selectedMessages = selectedPatient ? directMessages[selectedPatient.id] ?? [] : [];
+
+  // The messages card is always visible in the workspace, so opening a patient reads their messages
+  useEffect(() => {
+    if (!selectedPatient) return;
+    const ids = unreadMessages(selectedMessages, doctor.role).map(m => m.id);
+    if (ids.length === 0) return;
+    const patientId = selectedPatient.id;
+    const readAt = new Date().toISOString();
+    repository.markDirectMessagesRead(patientId, ids, readAt).then(() => {
+      setDirectMessages(prev => ({
+        ...prev,
+        [patientId]: (prev[patientId] ?? []).map(m => ids.includes(m.id) && !m.readAt ? { ...m, readAt } : m)
+      }));
+      setNotifications(prev => prev.map(n => ids.some(id => n.id === `dm-${id}`) ? { ...n, read: true } : n));
+    }).catch(error => console.error(error));
+  }, [selectedPatient?.id, selectedMessages]);
+
+  const sendDirectMessage = async (text: string, attachmentIds: string[]) => {
+    if (!selectedPatient) return false;
+    const patientId = selectedPatient.id;
+    const message = composeDirectMessage(doctor, text, attachmentIds);
+    try {
+      await repository.sendDirectMessage(patientId, message);
+      setDirectMessages(prev => ({ ...prev, [patientId]: [...(prev[patientId] ?? []), message] }));
+      return true;
+    } catch {
+      toast.error("Message could not be sent");
+      return false;
+    }
+  };
+
+  const acknowledgeEscalation = async () => {
+    if (!selectedPatient) return;
+    try {
+      await repository.acknowledgeEscalation(selectedPatient.id, doctor.id);
+      const refreshed = await repository.listPatients();
+      setPatients(refreshed);
+      setSelectedPatient(refreshed.find(p => p.id === selectedPatient.id) ?? null);
+      setNotifications(prev => prev.map(n => n.id.startsWith(`escalation-${selectedPatient.id}:`) ? { ...n, read: true } : n));
+      toast.success("Escalation acknowledged");
+    } catch {
+      toast.error("Could not acknowledge the escalation");
+    }
+  };
+
+  const access = selectedPatient ? accessLevel(doctor, selectedPatient) : 'none';
+  const canWrite = access === 'write' || access === 'manage';
+  const lesionEntries = !selectedPatient ? [] : selectedLesionId ? lesionHistory(selectedPatient.history, selectedLesionId) : selectedPatient.history;
+  const selectedEntry = selectedPatient?.history.find(e => e.id === selectedEntryId) ?? null;
+  const analysisResult = selectedEntry?.analysisResult ?? null;
+  const processedImage = selectedEntry?.processedImageUrl ?? null;
+  const galleryImages = selectedEntry ? entryImages(selectedEntry) : [];
+  const shownImage = galleryImages.find(image => image.id === galleryImageId) ?? galleryImages.find(image => isPrimaryImage(selectedEntry!, image)) ?? null;
+  // Hair removal and its mask only exist for the primary view
+  const showingPrimary = !shownImage || isPrimaryImage(selectedEntry!, shownImage);
+  const entryLocked = !!selectedEntry?.review; // Signed off; only addenda from here
+  const entryActionHint = !canWrite ? 'Read-only access to this patient'
+    : !selectedEntry ? 'Select a photo from the history timeline'
+      : entryLocked ? 'Signed off; changes need an addendum'
+        : undefined;
+
+  // Narrowing to a lesion shows its latest photo unless the current one is already of it
+  const selectLesion = (lesionId: string | null) => {
+    setSelectedLesionId(lesionId);
+    setComparing(false);
+    if (!lesionId || !selectedPatient || selectedEntry?.lesionId === lesionId) return;
+    const latest = lesionHistory(selectedPatient.history, lesionId)[0];
+    if (latest) selectEntry(latest.id);
+  };
+
+  const selectEntry = (entryId: string) => {
+    setSelectedEntryId(entryId);
+    setGalleryImageId(null);
+    setViewMode('original');
+    setShowHairMask(false);
+  };
+
+  const showGalleryImage = (image: EntryImage) => {
+    setGalleryImageId(image.id);
+    if (!isPrimaryImage(selectedEntry!, image)) {
+      setViewMode('original');
+      setShowHairMask(false);
+    }
+  };
+
   const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadByPatient = (patientId: string) => unreadMessages(directMessages[patientId] ?? [], doctor.role).length;
+  const unreadDirectCount = patients.reduce((sum, p) => sum + unreadByPatient(p.id), 0);
 
   const markAllRead = () => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
@@ -201,7 +604,10 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
           </div>
         </div>
         <nav className="flex-1 p-4 space-y-2">
-          <div className="flex items-center gap-3 bg-blue-600/20 text-blue-400 px-4 py-3 rounded-lg cursor-pointer">
+          <div
+            onClick={() => setActiveView('patients')}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg cursor-pointer transition-colors ${activeView === 'patients' ? 'bg-blue-600/20 text-blue-400' : 'text-slate-400 hover:bg-slate-800'}`}
+          >
             <Users className="w-5 h-5" />
             <span className="font-medium">Patients</span>
           </div>
@@ -213,15 +619,29 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
             <Layers className="w-5 h-5" />
             <span className="font-medium">CNN Model</span>
           </div>
+          <div
+            onClick={() => setActiveView('audit')}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg cursor-pointer transition-colors ${activeView === 'audit' ? 'bg-blue-600/20 text-blue-400' : 'text-slate-400 hover:bg-slate-800'}`}
+          >
+            <ScrollText className="w-5 h-5" />
+            <span className="font-medium">Audit Log</span>
+          </div>
         </nav>
         <div className="p-4 border-t border-slate-800 space-y-4">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-slate-700"></div>
-            <div>
-              <div className="text-sm font-medium">Dr. S. Miller</div>
+            <div className="w-10 h-10 rounded-full bg-slate-700 flex items-center justify-center font-bold text-slate-300">{doctor.name.replace(/^Dr\.?\s*/, '').charAt(0)}</div>
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{doctor.name}</div>
               <div className="text-xs text-slate-500">Dermatologist</div>
             </div>
           </div>
+          <button
+            onClick={() => withReauth('invite a clinician', () => setShowInvite(true))}
+            className="w-full flex items-center justify-center gap-2 text-slate-400 hover:bg-slate-800 px-4 py-2 rounded-lg text-sm transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Invite Clinician
+          </button>
           <button
             onClick={onLogout}
             className="w-full flex items-center justify-center gap-2 text-red-400 hover:bg-red-900/20 px-4 py-2 rounded-lg text-sm transition-colors border border-transparent hover:border-red-900/30"
@@ -251,7 +671,12 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
             {showNotifications && (
               <div className="absolute right-0 top-12 w-96 bg-white rounded-2xl shadow-2xl border border-slate-200 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
                 <div className="p-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
-                  <h3 className="font-semibold text-slate-800">System Alerts</h3>
+                  <div>
+                    <h3 className="font-semibold text-slate-800">System Alerts</h3>
+                    {unreadDirectCount > 0 && (
+                      <p className="text-xs text-slate-500">{unreadDirectCount} unread patient message{unreadDirectCount === 1 ? '' : 's'}</p>
+                    )}
+                  </div>
                   {unreadCount > 0 && (
                     <button onClick={markAllRead} className="text-xs text-blue-600 font-medium hover:underline">
                       Mark all read
@@ -270,7 +695,7 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
                         <div className={`mt-1 w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${n.type === 'alert' ? 'bg-red-100 text-red-600' :
                           n.type === 'info' ? 'bg-blue-100 text-blue-600' : 'bg-slate-100 text-slate-600'
                           }`}>
-                          {n.type === 'alert' ? <AlertTriangle className="w-4 h-4" /> : <Info className="w-4 h-4" />}
+                          {n.type === 'alert' ? <AlertTriangle className="w-4 h-4" /> : n.type === 'message' ? <Mail className="w-4 h-4" /> : <Info className="w-4 h-4" />}
                         </div>
                         <div className="flex-1">
                           <div className="flex justify-between items-start">
@@ -293,329 +718,559 @@ const DoctorInterface: React.FC<DoctorInterfaceProps> = ({ onLogout }) => {
           </div>
         </div>
 
-        {/* Patient List */}
-        <div className="w-full md:w-80 bg-white border-r border-slate-200 flex flex-col pt-16 md:pt-0">
-          <div className="p-4 border-b border-slate-200 space-y-4">
-            <div className="flex items-center justify-between">
-              <h2 className="font-bold text-slate-800">Patient Queue</h2>
-              <div className="text-xs font-medium text-slate-500 bg-slate-100 px-2 py-1 rounded-full">{patients.length} active</div>
-            </div>
-
-            <button
-              onClick={() => setShowAddModal(true)}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2.5 rounded-xl text-sm font-semibold flex items-center justify-center gap-2 shadow-sm shadow-blue-200 transition-all hover:shadow-md"
-            >
-              <Plus className="w-4 h-4" />
-              Add New Patient
-            </button>
+        {activeView === 'audit' ? (
+          <AuditLogViewer doctor={doctor} patients={patients} />
+        ) : (
+          <>
+            {/* Patient List */}
+            <div className="w-full md:w-80 bg-white border-r border-slate-200 flex flex-col pt-16 md:pt-0">
+              <div className="p-4 border-b border-slate-200 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-bold text-slate-800">Patient Queue</h2>
+                  <div className="text-xs font-medium text-slate-500 bg-slate-100 px-2 py-1 rounded-full">{patients.length} active</div>
+                </div>
 
-            <div className="relative">
-              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
-              <input type="text" placeholder="Search patients..." className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
-            </div>
+                <button
+                  onClick={() => setShowAddModal(true)}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2.5 rounded-xl text-sm font-semibold flex items-center justify-center gap-2 shadow-sm shadow-blue-200 transition-all hover:shadow-md"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add New Patient
+                </button>
 
-            {/* Recently Viewed */}
-            {recentPatients.length > 0 && (
-              <div className="pt-2 animate-in fade-in slide-in-from-top-2">
-                <div className="flex items-center gap-2 text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider">
-                  <History className="w-3 h-3" />
-                  <span>Recently Viewed</span>
+                <div className="relative">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                  <input type="text" placeholder="Search patients..." className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
                 </div>
-                <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
-                  {recentPatients.map(p => (
-                    <button
-                      key={p.id}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handlePatientSelect(p);
-                      }}
-                      className="group relative flex-shrink-0"
-                      title={p.name}
-                    >
-                      <img
-                        src={p.img}
-                        alt={p.name}
-                        className={`w-10 h-10 rounded-full object-cover border-2 transition-all ${selectedPatient?.id === p.id ? 'border-blue-500 ring-2 ring-blue-500/20' : 'border-slate-100 group-hover:border-blue-300'}`}
-                      />
-                      <div className="absolute -bottom-1 -right-1 w-3.5 h-3.5 bg-white rounded-full flex items-center justify-center">
-                        <div className={`w-2.5 h-2.5 rounded-full ${p.status === 'Critical' ? 'bg-red-500' :
-                          p.status === 'Stable' ? 'bg-blue-500' : 'bg-green-500'
-                          }`}></div>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-          <div className="flex-1 overflow-y-auto">
-            {patients.map(p => (
-              <div
-                key={p.id}
-                onClick={() => handlePatientSelect(p)}
-                className={`p-4 border-b border-slate-100 cursor-pointer hover:bg-slate-50 transition-colors ${selectedPatient?.id === p.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''}`}
-              >
-                <div className="flex items-start gap-3">
-                  <img src={p.img} alt={p.name} className="w-10 h-10 rounded-full object-cover" />
-                  <div className="flex-1 min-w-0">
-                    <div className="flex justify-between items-start">
-                      <h3 className="text-sm font-semibold text-slate-900 truncate">{p.name}</h3>
-                      <span className="text-[10px] text-slate-400">{p.lastUpdate}</span>
+
+                {/* Recently Viewed */}
+                {recentPatients.length > 0 && (
+                  <div className="pt-2 animate-in fade-in slide-in-from-top-2">
+                    <div className="flex items-center gap-2 text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider">
+                      <History className="w-3 h-3" />
+                      <span>Recently Viewed</span>
                     </div>
-                    <p className="text-xs text-slate-500 truncate">{p.condition}</p>
-                    <div className={`mt-2 inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border ${p.status === 'Critical' ? 'bg-red-50 text-red-700 border-red-200' :
-                      p.status === 'Improving' ? 'bg-green-50 text-green-700 border-green-200' :
-                        'bg-blue-50 text-blue-700 border-blue-200'
-                      }`}>
-                      {p.status}
+                    <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
+                      {recentPatients.map(p => (
+                        <button
+                          key={p.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handlePatientSelect(p);
+                          }}
+                          className="group relative flex-shrink-0"
+                          title={p.name}
+                        >
+                          <img
+                            src={p.img}
+                            alt={p.name}
+                            className={`w-10 h-10 rounded-full object-cover border-2 transition-all ${selectedPatient?.id === p.id ? 'border-blue-500 ring-2 ring-blue-500/20' : 'border-slate-100 group-hover:border-blue-300'}`}
+                          />
+                          <div className="absolute -bottom-1 -right-1 w-3.5 h-3.5 bg-white rounded-full flex items-center justify-center">
+                            <div className={`w-2.5 h-2.5 rounded-full ${p.status === 'Critical' ? 'bg-red-500' :
+                              p.status === 'Stable' ? 'bg-blue-500' : 'bg-green-500'
+                              }`}></div>
+                          </div>
+                        </button>
+                      ))}
                     </div>
                   </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
-
-        {/* Workspace */}
-        {selectedPatient ? (
-          <div className="flex-1 flex flex-col bg-slate-50 overflow-hidden relative">
-            {/* Toolbar */}
-            <div className="h-16 bg-white border-b border-slate-200 flex items-center justify-between px-6 pr-20">
-              <div>
-                <h2 className="font-bold text-lg text-slate-800">{selectedPatient.name}</h2>
-                <p className="text-xs text-slate-500">ID: #{selectedPatient.id} • {selectedPatient.age} yrs</p>
+                )}
               </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={runHairRemoval}
-                  disabled={cleaning}
-                  className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:opacity-50 transition-all"
-                >
-                  {cleaning ? <Wand2 className="w-4 h-4 animate-spin" /> : <Scissors className="w-4 h-4" />}
-                  Grab Cut / Clean
-                </button>
-                <button
-                  onClick={runAnalysis}
-                  disabled={analyzing}
-                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-all shadow-lg shadow-blue-200/50"
-                >
-                  {analyzing ? <Wand2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
-                  CNN Diagnosis
-                </button>
+              <div className="flex-1 overflow-y-auto">
+                {patients.map(p => (
+                  <div
+                    key={p.id}
+                    onClick={() => handlePatientSelect(p)}
+                    className={`p-4 border-b border-slate-100 cursor-pointer hover:bg-slate-50 transition-colors ${selectedPatient?.id === p.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <img src={p.img} alt={p.name} className="w-10 h-10 rounded-full object-cover" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex justify-between items-start">
+                          <h3 className="text-sm font-semibold text-slate-900 truncate">{p.name}</h3>
+                          <span className="text-[10px] text-slate-400">{p.lastUpdate}</span>
+                        </div>
+                        {unreadByPatient(p.id) > 0 && (
+                          <div className="flex items-center gap-1 text-[10px] font-medium text-blue-600">
+                            <Mail className="w-3 h-3" />
+                            {unreadByPatient(p.id)} unread
+                          </div>
+                        )}
+                        <p className="text-xs text-slate-500 truncate">{p.condition}</p>
+                        <div className={`mt-2 inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border ${p.status === 'Critical' ? 'bg-red-50 text-red-700 border-red-200' :
+                          p.status === 'Improving' ? 'bg-green-50 text-green-700 border-green-200' :
+                            'bg-blue-50 text-blue-700 border-blue-200'
+                          }`}>
+                          {p.status}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
 
-            <div className="flex-1 overflow-y-auto p-6">
-              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-                {/* Image Viewer */}
-                <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
-                  <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
-                    <h3 className="font-semibold text-slate-700">Lesion Visualization</h3>
-                    <div className="flex bg-slate-200 rounded-lg p-1 text-xs font-medium">
-                      <button
-                        onClick={() => setViewMode('original')}
-                        className={`px-3 py-1 rounded-md transition-all ${viewMode === 'original' ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
-                      >
-                        Original
-                      </button>
+            {/* Workspace */}
+            {selectedPatient ? (
+              <div className="flex-1 flex flex-col bg-slate-50 overflow-hidden relative">
+                {/* Toolbar */}
+                <div className="h-16 bg-white border-b border-slate-200 flex items-center justify-between px-6 pr-20">
+                  <div>
+                    <h2 className="font-bold text-lg text-slate-800">{selectedPatient.name}</h2>
+                    <p className="text-xs text-slate-500">ID: #{selectedPatient.id} • {selectedPatient.age} yrs • {access === 'manage' ? 'Primary doctor' : access === 'write' ? 'Consulting' : 'Read-only access'}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setComparing(c => !c)}
+                      disabled={lesionEntries.length < 2}
+                      title={lesionEntries.length < 2 ? `Needs at least two photos ${selectedLesionId ? 'of this lesion' : 'on the record'}` : undefined}
+                      className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border disabled:opacity-50 transition-all ${comparing ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}`}
+                    >
+                      <GitCompare className="w-4 h-4" />
+                      Compare
+                    </button>
+                    <div className="flex rounded-lg overflow-hidden">
                       <button
-                        onClick={() => processedImage && setViewMode('processed')}
-                        disabled={!processedImage}
-                        className={`px-3 py-1 rounded-md transition-all ${viewMode === 'processed' ? 'bg-white shadow text-blue-700' : 'text-slate-500 disabled:opacity-50'}`}
+                        onClick={runHairRemoval}
+                        disabled={cleaning || !canWrite || !selectedEntry || entryLocked}
+                        title={entryActionHint}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 disabled:opacity-50 transition-all"
                       >
-                        AI Processed
+                        {cleaning ? <Wand2 className="w-4 h-4 animate-spin" /> : <Scissors className="w-4 h-4" />}
+                        Hair Removal
                       </button>
-                    </div>
-                  </div>
-                  <div className="flex-1 bg-slate-900 relative min-h-[400px] flex items-center justify-center">
-                    <img
-                      src={viewMode === 'original' ? selectedPatient.img : processedImage!}
-                      className="max-h-full max-w-full object-contain"
-                      alt="Lesion"
-                    />
-                    {viewMode === 'processed' && (
-                      <div className="absolute top-4 right-4 bg-blue-600 text-white text-xs px-2 py-1 rounded shadow-lg flex items-center gap-1">
-                        <Wand2 className="w-3 h-3" />
-                        <span>Hair Removed</span>
+                      <div className="flex bg-slate-700 p-1 gap-1 text-xs font-medium" title="Local is deterministic and works offline; AI uses the generative image model">
+                        {(['local', 'ai'] as const).map(mode => (
+                          <button
+                            key={mode}
+                            onClick={() => setCleanMode(mode)}
+                            disabled={cleaning}
+                            className={`px-2 rounded-md transition-all ${cleanMode === mode ? 'bg-white text-slate-900' : 'text-slate-300 hover:text-white'}`}
+                          >
+                            {mode === 'local' ? 'Local' : 'AI'}
+                          </button>
+                        ))}
                       </div>
-                    )}
+                    </div>
+                    <button
+                      onClick={() => withReauth('run an analysis', runAnalysis)}
+                      disabled={analyzing || !canWrite || !selectedEntry || entryLocked}
+                      title={entryActionHint}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-all shadow-lg shadow-blue-200/50"
+                    >
+                      {analyzing ? <Wand2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
+                      CNN Diagnosis
+                    </button>
                   </div>
                 </div>
 
-                {/* Analysis Report */}
-                <div className="space-y-6">
-                  {analysisResult ? (
-                    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-
-                      {/* CNN Probability Chart */}
-                      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
-                        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
-                          <div className="flex items-center gap-2 text-slate-800">
-                            <BarChart2 className="w-5 h-5 text-blue-600" />
-                            <h3 className="font-bold">CNN Class Probabilities</h3>
-                          </div>
-                        </div>
-                        <div className="p-4 h-48 w-full">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                              <XAxis type="number" domain={[0, 100]} hide />
-                              <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 11 }} />
-                              <RechartsTooltip cursor={{ fill: '#f1f5f9' }} />
-                              <Bar dataKey="value" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={20}>
-                                {chartData.map((entry, index) => (
-                                  <Cell key={`cell-${index}`} fill={index === 0 ? '#ef4444' : '#3b82f6'} />
-                                ))}
-                              </Bar>
-                            </BarChart>
-                          </ResponsiveContainer>
-                        </div>
+                {isEscalationOpen(selectedPatient) && (
+                  <div className="bg-red-50 border-b border-red-200 px-6 py-3 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3 text-red-800 min-w-0">
+                      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <div className="text-sm font-semibold truncate">Escalated from patient chat: {selectedPatient.escalation!.reason}</div>
+                        <div className="text-xs text-red-600">{new Date(selectedPatient.escalation!.raisedAt).toLocaleString()}</div>
                       </div>
+                    </div>
+                    <button
+                      onClick={acknowledgeEscalation}
+                      disabled={!canWrite}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 transition-colors flex-shrink-0"
+                    >
+                      <Check className="w-4 h-4" />
+                      Acknowledge
+                    </button>
+                  </div>
+                )}
 
-                      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
-                        <div className="p-4 border-b border-slate-100 bg-blue-50/50 flex items-center justify-between">
-                          <div className="flex items-center gap-2 text-blue-700">
-                            <Wand2 className="w-5 h-5" />
-                            <h3 className="font-bold">Diagnostic Report</h3>
+                <div className="flex-1 overflow-y-auto p-6">
+                  {comparing && (
+                    <div className="mb-6">
+                      <ComparisonWorkspace history={lesionEntries} onClose={() => setComparing(false)} />
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                    <div className="space-y-6">
+                      {/* Image Viewer */}
+                      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+                        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                          <div className="min-w-0">
+                            <h3 className="font-semibold text-slate-700">Lesion Visualization</h3>
+                            <p className="text-xs text-slate-400 truncate">
+                              {selectedEntry
+                                ? `Photo from ${selectedEntry.date}${galleryImages.length > 1 && shownImage ? ` · ${VIEW_LABELS[shownImage.view]}` : ''}${shownImage?.quality ? ` · Quality ${shownImage.quality.score}/100` : ''}`
+                                : 'Profile photo (reference only)'}
+                            </p>
                           </div>
-                          <div className="text-xs font-bold bg-blue-100 text-blue-700 px-2 py-1 rounded">
-                            {Math.round(analysisResult.confidence * 100)}% Confidence
+                          <div className="flex bg-slate-200 rounded-lg p-1 text-xs font-medium">
+                            <button
+                              onClick={() => setViewMode('original')}
+                              className={`px-3 py-1 rounded-md transition-all ${viewMode === 'original' ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+                            >
+                              Original
+                            </button>
+                            <button
+                              onClick={() => {
+                                if (!processedImage) return;
+                                setGalleryImageId(null);
+                                setViewMode('processed');
+                              }}
+                              disabled={!processedImage}
+                              className={`px-3 py-1 rounded-md transition-all ${viewMode === 'processed' ? 'bg-white shadow text-blue-700' : 'text-slate-500 disabled:opacity-50'}`}
+                            >
+                              AI Processed
+                            </button>
                           </div>
                         </div>
-                        <div className="p-6 space-y-6">
-                          <div>
-                            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Diagnosis</div>
-                            <div className="text-2xl font-bold text-slate-900">{analysisResult.diagnosis}</div>
+                        <div className="flex-1 bg-slate-900 relative min-h-[400px] flex items-center justify-center">
+                          <div className="relative">
+                            <img
+                              src={!showingPrimary ? shownImage!.url : viewMode === 'processed' && processedImage ? processedImage : selectedEntry?.imageUrl ?? selectedPatient.img}
+                              className="max-h-[400px] max-w-full object-contain block"
+                              alt="Lesion"
+                            />
+                            {showingPrimary && showHairMask && selectedEntry?.hairMaskUrl && (
+                              <img src={selectedEntry.hairMaskUrl} className="absolute inset-0 w-full h-full pointer-events-none" alt="Detected hair" />
+                            )}
+                          </div>
+                          {viewMode === 'processed' && showingPrimary && (
+                            <div className="absolute top-4 right-4 bg-blue-600 text-white text-xs px-2 py-1 rounded shadow-lg flex items-center gap-1">
+                              <Wand2 className="w-3 h-3" />
+                              <span>{selectedEntry?.processedBy === 'local' ? 'Hair Removed (local)' : 'Hair Removed (AI)'}</span>
+                            </div>
+                          )}
+                          {showingPrimary && selectedEntry?.hairMaskUrl && (
+                            <button
+                              onClick={() => setShowHairMask(s => !s)}
+                              className={`absolute bottom-4 right-4 text-xs px-2 py-1 rounded shadow-lg transition-colors ${showHairMask ? 'bg-red-500 text-white' : 'bg-white/90 text-slate-700 hover:bg-white'}`}
+                            >
+                              {showHairMask ? 'Hide hair mask' : 'Show hair mask'}
+                            </button>
+                          )}
+                        </div>
+                        {/* Views of this entry */}
+                        {galleryImages.length > 1 && (
+                          <div className="p-3 border-t border-slate-100 flex gap-2 overflow-x-auto">
+                            {galleryImages.map(image => (
+                              <button
+                                key={image.id}
+                                onClick={() => showGalleryImage(image)}
+                                title={isPrimaryImage(selectedEntry!, image) ? 'Primary view: cleaned, measured and compared' : undefined}
+                                className={`flex-shrink-0 rounded-lg overflow-hidden border-2 transition-colors ${shownImage?.id === image.id ? 'border-blue-500' : 'border-transparent hover:border-slate-300'}`}
+                              >
+                                <img src={image.url} alt={VIEW_LABELS[image.view]} className="w-16 h-16 object-cover block" />
+                                <div className="px-1 py-0.5 bg-slate-50 text-[10px] text-slate-600 text-center">
+                                  {VIEW_LABELS[image.view]}{isPrimaryImage(selectedEntry!, image) ? ' ★' : ''}
+                                </div>
+                              </button>
+                            ))}
                           </div>
+                        )}
+                      </div>
+
+                      <HistoryTimeline
+                        history={lesionEntries}
+                        lesions={selectedPatient.lesions}
+                        selectedId={selectedEntryId}
+                        onSelect={selectEntry}
+                        canAnnotate={canWrite}
+                        onAnnotate={annotateEntry}
+                        onMoveToLesion={moveEntryToLesion}
+                      />
+
+                      <LesionMapCard
+                        patient={selectedPatient}
+                        selectedId={selectedLesionId}
+                        onSelect={selectLesion}
+                        canEdit={canWrite}
+                        onSave={saveLesion}
+                      />
+                    </div>
 
-                          <div className="grid grid-cols-2 gap-4">
-                            <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
-                              <div className="text-xs font-medium text-slate-500 mb-1">Severity</div>
-                              <div className={`font-bold ${analysisResult.severity === 'Critical' || analysisResult.severity === 'High' ? 'text-red-600' : 'text-green-600'
-                                }`}>
-                                {analysisResult.severity}
+                    {/* Analysis Report */}
+                    <div className="space-y-6">
+                      {analysisResult ? (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+
+                          {/* CNN Probability Chart */}
+                          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                            <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+                              <div className="flex items-center gap-2 text-slate-800">
+                                <BarChart2 className="w-5 h-5 text-blue-600" />
+                                <h3 className="font-bold">CNN Class Probabilities</h3>
                               </div>
                             </div>
-                            <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
-                              <div className="text-xs font-medium text-slate-500 mb-1">Risk Factor</div>
-                              <div className="font-bold text-slate-800">Moderate</div>
+                            <div className="p-4 h-48 w-full">
+                              <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                                  <XAxis type="number" domain={[0, 100]} hide />
+                                  <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 11 }} />
+                                  <RechartsTooltip cursor={{ fill: '#f1f5f9' }} />
+                                  <Bar dataKey="value" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={20}>
+                                    {chartData.map((entry, index) => (
+                                      <Cell key={`cell-${index}`} fill={index === 0 ? '#ef4444' : '#3b82f6'} />
+                                    ))}
+                                  </Bar>
+                                </BarChart>
+                              </ResponsiveContainer>
                             </div>
                           </div>
 
-                          <div>
-                            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Key Features</div>
-                            <div className="flex flex-wrap gap-2">
-                              {analysisResult.features.map((f, i) => (
-                                <span key={i} className="px-3 py-1 bg-slate-100 text-slate-600 rounded-full text-sm">
-                                  {f}
-                                </span>
-                              ))}
+                          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                            <div className="p-4 border-b border-slate-100 bg-blue-50/50 flex items-center justify-between">
+                              <div className="flex items-center gap-2 text-blue-700">
+                                <Wand2 className="w-5 h-5" />
+                                <h3 className="font-bold">AI Diagnostic Report</h3>
+                              </div>
+                              <div className="text-xs font-bold bg-blue-100 text-blue-700 px-2 py-1 rounded">
+                                {Math.round(analysisResult.confidence * 100)}% Confidence
+                              </div>
                             </div>
-                          </div>
+                            <div className="p-6 space-y-6">
+                              <div>
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Diagnosis</div>
+                                <div className="text-2xl font-bold text-slate-900">{analysisResult.diagnosis}</div>
+                              </div>
+
+                              {analysisResult.views && analysisResult.views.length > 1 && (
+                                <div>
+                                  <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Fused from {analysisResult.views.length} views</div>
+                                  <div className="space-y-1">
+                                    {analysisResult.views.map((v, i) => (
+                                      <div key={v.imageId ?? i} className="flex justify-between gap-2 text-sm">
+                                        <span className="text-slate-500">{VIEW_LABELS[v.view]}</span>
+                                        <span className="text-slate-800">{v.diagnosis} · {Math.round(v.confidence * 100)}% · {v.severity}</span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
+                              <div className="grid grid-cols-2 gap-4">
+                                <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                                  <div className="text-xs font-medium text-slate-500 mb-1">Severity</div>
+                                  <div className={`font-bold ${analysisResult.severity === 'Critical' || analysisResult.severity === 'High' ? 'text-red-600' : 'text-green-600'
+                                    }`}>
+                                    {analysisResult.severity}
+                                  </div>
+                                </div>
+                                <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                                  <div className="text-xs font-medium text-slate-500 mb-1">Risk Factor</div>
+                                  <div className="font-bold text-slate-800">Moderate</div>
+                                </div>
+                              </div>
+
+                              <div>
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Key Features</div>
+                                <div className="flex flex-wrap gap-2">
+                                  {analysisResult.features.map((f, i) => (
+                                    <span key={i} className="px-3 py-1 bg-slate-100 text-slate-600 rounded-full text-sm">
+                                      {f}
+                                    </span>
+                                  ))}
+                                </div>
+                              </div>
 
-                          <div>
-                            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">AI Recommendations</div>
-                            <ul className="space-y-2">
-                              {analysisResult.recommendations.map((r, i) => (
-                                <li key={i} className="flex items-start gap-2 text-sm text-slate-700">
-                                  <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
-                                  <span>{r}</span>
-                                </li>
-                              ))}
-                            </ul>
+                              <div>
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">AI Recommendations</div>
+                                <ul className="space-y-2">
+                                  {analysisResult.recommendations.map((r, i) => (
+                                    <li key={i} className="flex items-start gap-2 text-sm text-slate-700">
+                                      <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                                      <span>{r}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+
+                              <div className="pt-4 border-t border-slate-100">
+                                <p className="text-xs text-slate-400 italic">
+                                  * Machine opinion, not a clinical diagnosis. Patients only see the signed review below.
+                                </p>
+                              </div>
+                            </div>
                           </div>
 
-                          <div className="pt-4 border-t border-slate-100">
-                            <p className="text-xs text-slate-400 italic">
-                              * Analysis generated by CNN Model v4.2. Validated on ISIC 2024 Dataset.
-                            </p>
+                          <ReviewPanel
+                            key={selectedEntry!.id}
+                            entry={selectedEntry!}
+                            doctor={doctor}
+                            canSign={canWrite}
+                            onSign={review => withReauth('sign off this analysis', () => signReview(selectedEntry!.id, review), true)}
+                            onAddendum={addendum => addAddendum(selectedEntry!.id, addendum)}
+                          />
+                        </div>
+                      ) : (
+                        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 flex flex-col items-center justify-center text-center h-64">
+                          <div className="w-16 h-16 bg-slate-50 rounded-full flex items-center justify-center mb-4">
+                            <Layers className="w-8 h-8 text-slate-300" />
                           </div>
+                          <h3 className="text-slate-900 font-medium mb-1">Ready to Analyze</h3>
+                          <p className="text-slate-500 text-sm max-w-xs">Select "CNN Diagnosis" from the toolbar to run the multi-class classification model.</p>
                         </div>
+                      )}
+
+                      {selectedEntry?.lesionMetrics && <LesionMetricsCard metrics={selectedEntry.lesionMetrics} />}
+
+                      <SeverityTrendChart history={lesionEntries} range={trendRange} onRangeChange={setTrendRange} accent="blue" />
+
+                      <CareTeamPanel
+                        patient={selectedPatient}
+                        currentDoctorId={doctor.id}
+                        canManage={access === 'manage'}
+                        onChange={careTeam => withReauth('change the care team', () => updateCareTeam(careTeam))}
+                      />
+
+                      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-2 text-slate-800">
+                          <Mail className="w-5 h-5 text-blue-600" />
+                          <h3 className="font-bold">Messages</h3>
+                        </div>
+                        <DirectMessageThread
+                          messages={selectedMessages}
+                          viewer={doctor}
+                          history={selectedPatient.history}
+                          canSend={canWrite}
+                          onSend={sendDirectMessage}
+                          className="h-96"
+                        />
                       </div>
+
+                      <AdherencePanel patient={selectedPatient} />
+
+                      <CarePlanPanel patient={selectedPatient} doctorId={doctor.id} canEdit={canWrite} onSave={saveCarePlan} />
+
+                      <ChatContextPanel patient={selectedPatient} canEdit={canWrite} onChange={updateChatContext} />
+
+                      <ConversationPanel patient={selectedPatient} repository={repository} />
                     </div>
-                  ) : (
-                    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 flex flex-col items-center justify-center text-center h-64">
-                      <div className="w-16 h-16 bg-slate-50 rounded-full flex items-center justify-center mb-4">
-                        <Layers className="w-8 h-8 text-slate-300" />
-                      </div>
-                      <h3 className="text-slate-900 font-medium mb-1">Ready to Analyze</h3>
-                      <p className="text-slate-500 text-sm max-w-xs">Select "CNN Diagnosis" from the toolbar to run the multi-class classification model.</p>
-                    </div>
-                  )}
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
-        ) : (
-          <div className="flex-1 flex items-center justify-center text-slate-400 flex-col gap-4">
-            <Users className="w-16 h-16 opacity-20" />
-            <p>Select a patient to begin analysis</p>
-          </div>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-slate-400 flex-col gap-4">
+                <Users className="w-16 h-16 opacity-20" />
+                <p>Select a patient to begin analysis</p>
+              </div>
+            )}
+          </>
         )}
       </main>
 
+      {pendingAction && (
+        <ReauthDialog
+          actionLabel={pendingAction.label}
+          onConfirmed={() => {
+            pendingAction.run();
+            setPendingAction(null);
+          }}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+
+      {showInvite && <InviteClinicianDialog doctor={doctor} onClose={() => setShowInvite(false)} />}
+
       {/* Add Patient Modal */}
       {showAddModal && (
         <div className="fixed inset-0 z-50 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
           <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-md">
             <div className="flex justify-between items-center mb-6">
-              <h2 className="text-xl font-bold text-slate-900">Add New Patient</h2>
-              <button onClick={() => setShowAddModal(false)} className="text-slate-400 hover:text-slate-600">
+              <h2 className="text-xl font-bold text-slate-900">{enrolment ? 'Patient Enrolment' : 'Add New Patient'}</h2>
+              <button onClick={closeAddModal} className="text-slate-400 hover:text-slate-600">
                 <X className="w-5 h-5" />
               </button>
             </div>
-            <form onSubmit={handleAddPatientSubmit} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Full Name</label>
-                <input
-                  type="text"
-                  required
-                  value={newPatientForm.name}
-                  onChange={e => setNewPatientForm({ ...newPatientForm, name: e.target.value })}
-                  className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                  placeholder="e.g. John Doe"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Age</label>
-                <input
-                  type="number"
-                  required
-                  value={newPatientForm.age}
-                  onChange={e => setNewPatientForm({ ...newPatientForm, age: e.target.value })}
-                  className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                  placeholder="e.g. 45"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Condition</label>
-                <select
-                  value={newPatientForm.condition}
-                  onChange={e => setNewPatientForm({ ...newPatientForm, condition: e.target.value })}
-                  className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                >
-                  <option value="Unknown">Unknown</option>
-                  <option value="Melanocytic Nevus">Melanocytic Nevus</option>
-                  <option value="Basal Cell Carcinoma">Basal Cell Carcinoma</option>
-                  <option value="Eczema">Eczema</option>
-                  <option value="Psoriasis">Psoriasis</option>
-                </select>
-              </div>
-              <div className="pt-4 flex gap-3">
-                <button
-                  type="button"
-                  onClick={() => setShowAddModal(false)}
-                  className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50"
-                >
-                  Cancel
-                </button>
+            {enrolment ? (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-600">
+                  Give these to {enrolment.name} to register. The code is shown only once and works once, until {enrolment.expiresAt.toLocaleDateString()}.
+                </p>
+                <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-3">
+                  <div>
+                    <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Patient ID</div>
+                    <div className="font-mono text-sm text-slate-900 break-all select-all">{enrolment.patientId}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Enrolment code</div>
+                    <div className="font-mono text-lg font-bold tracking-widest text-slate-900 select-all">{enrolment.code}</div>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500">Sign-in codes will be sent to {enrolment.contact}.</p>
                 <button
-                  type="submit"
-                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-lg shadow-blue-200"
+                  onClick={closeAddModal}
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-lg shadow-blue-200"
                 >
-                  Create Profile
+                  Done
                 </button>
               </div>
-            </form>
+            ) : (
+              <form onSubmit={handleAddPatientSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Full Name</label>
+                  <input
+                    type="text"
+                    required
+                    value={newPatientForm.name}
+                    onChange={e => setNewPatientForm({ ...newPatientForm, name: e.target.value })}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="e.g. John Doe"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Age</label>
+                  <input
+                    type="number"
+                    required
+                    value={newPatientForm.age}
+                    onChange={e => setNewPatientForm({ ...newPatientForm, age: e.target.value })}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="e.g. 45"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    required
+                    value={newPatientForm.email}
+                    onChange={e => setNewPatientForm({ ...newPatientForm, email: e.target.value })}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="Where sign-in codes are sent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Condition</label>
+                  <select
+                    value={newPatientForm.condition}
+                    onChange={e => setNewPatientForm({ ...newPatientForm, condition: e.target.value })}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="Unknown">Unknown</option>
+                    <option value="Melanocytic Nevus">Melanocytic Nevus</option>
+                    <option value="Basal Cell Carcinoma">Basal Cell Carcinoma</option>
+                    <option value="Eczema">Eczema</option>
+                    <option value="Psoriasis">Psoriasis</option>
+                  </select>
+                </div>
+                <div className="pt-4 flex gap-3">
+                  <button
+                    type="button"
+                    onClick={closeAddModal}
+                    className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-lg shadow-blue-200"
+                  >
+                    Create Profile
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { History, Brain, Wand2, MessageSquarePlus, Send, ShieldCheck } from 'lucide-react';
+import { HistoryEntry, HistoryEntrySource, Lesion } from '../../types';
+import { isScored } from '../../services/trends';
+
+const SOURCE_LABELS: Record<HistoryEntrySource, string> = {
+  analysis: 'AI analysis',
+  'self-report': 'Patient upload',
+  'check-in': 'Check-in',
+  clinician: 'Clinician'
+};
+
+interface HistoryTimelineProps {
+  history: HistoryEntry[]; // Newest first
+  lesions: Lesion[];
+  selectedId: string | null;
+  onSelect: (entryId: string) => void;
+  canAnnotate: boolean;
+  onAnnotate: (entryId: string, text: string) => Promise<boolean>; // False keeps the draft
+  onMoveToLesion: (entryId: string, lesionId: string) => void; // Fixes a photo filed under the wrong lesion
+}
+
+// Every photo on the record; the selected one is what the viewer shows and the toolbar acts on
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ history, lesions, selectedId, onSelect, canAnnotate, onAnnotate, onMoveToLesion }) => {
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const selected = history.find(e => e.id === selectedId) ?? null;
+  const editable = canAnnotate && !selected?.review; // Signed entries only change through review addenda
+
+  const handleAnnotate = async () => {
+    if (!selected || !draft.trim() || saving) return;
+    setSaving(true);
+    try {
+      if (await onAnnotate(selected.id, draft.trim())) setDraft('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2 text-slate-800">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">History Timeline</h3>
+        </div>
+        <span className="text-[10px] text-slate-400">{history.length} photo(s)</span>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="p-4 text-sm text-slate-400 text-center">No photos on the record yet</p>
+      ) : (
+        <>
+          <div className="flex gap-2 overflow-x-auto p-4">
+            {history.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => onSelect(entry.id)}
+                className={`flex-shrink-0 w-20 text-left rounded-lg overflow-hidden border transition-all ${entry.id === selectedId ? 'border-blue-500 ring-2 ring-blue-500' : 'border-slate-200 hover:border-slate-300'}`}
+              >
+                <div className="relative">
+                  <img src={entry.processedImageUrl ?? entry.imageUrl} alt={entry.date} className="w-20 h-20 object-cover" />
+                  <div className="absolute top-1 right-1 flex gap-0.5">
+                    {entry.review && <span className="bg-green-600 text-white rounded p-0.5" title="Signed off"><ShieldCheck className="w-3 h-3" /></span>}
+                    {entry.analysisResult && <span className="bg-blue-600 text-white rounded p-0.5" title="Analyzed"><Brain className="w-3 h-3" /></span>}
+                    {entry.processedImageUrl && <span className="bg-slate-900 text-white rounded p-0.5" title="Cleaned"><Wand2 className="w-3 h-3" /></span>}
+                  </div>
+                  {(entry.images?.length ?? 0) > 1 && (
+                    <span className="absolute bottom-1 right-1 bg-slate-900/70 text-white rounded px-1 text-[10px] font-medium">{entry.images!.length} views</span>
+                  )}
+                </div>
+                <div className="px-1.5 py-1">
+                  <div className="text-[10px] font-medium text-slate-700">{entry.date}</div>
+                  <div className="text-[10px] text-slate-400 truncate">{isScored(entry) ? `${entry.severityScore}/10` : SOURCE_LABELS[entry.source]}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="px-4 pb-4 space-y-3">
+              <div className="text-xs text-slate-500">
+                <span className="font-semibold text-slate-700">{SOURCE_LABELS[selected.source]}</span> · {selected.date} ·{' '}
+                {editable && lesions.length > 1 ? (
+                  <select
+                    value={selected.lesionId}
+                    onChange={e => onMoveToLesion(selected.id, e.target.value)}
+                    title="Lesion this photo shows"
+                    className="bg-slate-50 border border-slate-200 rounded px-1 py-0.5 text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {lesions.map(lesion => <option key={lesion.id} value={lesion.id}>{lesion.label}</option>)}
+                  </select>
+                ) : (
+                  lesions.find(l => l.id === selected.lesionId)?.label
+                )}
+                {selected.notes && <p className="mt-1 text-slate-600">{selected.notes}</p>}
+              </div>
+
+              {selected.annotations && selected.annotations.length > 0 && (
+                <div className="space-y-2">
+                  {selected.annotations.map(a => (
+                    <div key={a.id} className="p-2 bg-amber-50 border border-amber-100 rounded-lg text-xs">
+                      <p className="text-slate-700">{a.text}</p>
+                      <p className="text-[10px] text-slate-400 mt-1">{a.authorName} · {new Date(a.createdAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {editable && (
+                <div className="flex gap-2">
+                  <div className="flex-1 flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-2">
+                    <MessageSquarePlus className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    <input
+                      value={draft}
+                      onChange={e => setDraft(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && handleAnnotate()}
+                      placeholder="Annotate this photo..."
+                      className="flex-1 min-w-0 bg-transparent py-1.5 text-xs outline-none"
+                    />
+                  </div>
+                  <button
+                    onClick={handleAnnotate}
+                    disabled={!draft.trim() || saving}
+                    className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTimeline;
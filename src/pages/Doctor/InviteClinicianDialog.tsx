@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { User } from '../../types';
+import { issueClinicianInvite } from '../../services/accountService';
+import { recordAudit, toAuditActor } from '../../services/auditService';
+
+interface InviteClinicianDialogProps {
+  doctor: User;
+  onClose: () => void;
+}
+
+const InviteClinicianDialog: React.FC<InviteClinicianDialogProps> = ({ doctor, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [invite, setInvite] = useState<{ email: string, code: string, expiresAt: Date } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const issued = await issueClinicianInvite(doctor, email);
+      // The code itself stays out of the log, like enrolment codes
+      recordAudit(toAuditActor(doctor), 'clinician-invite', { summary: email.trim() });
+      setInvite({ email: email.trim(), ...issued });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not create the invite");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-md">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-slate-900">Invite a Clinician</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {invite ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Give this code to the clinician at {invite.email}. They register with that email and the code, which is shown only once and works once, until {invite.expiresAt.toLocaleDateString()}.
+            </p>
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl">
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Invite code</div>
+              <div className="font-mono text-lg font-bold tracking-widest text-slate-900 select-all">{invite.code}</div>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-lg shadow-blue-200"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="The email they will register with"
+              />
+            </div>
+            <p className="text-xs text-slate-500">An invite lets them create a clinician account. They can then be added to care teams.</p>
+            <div className="pt-4 flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-lg shadow-blue-200"
+              >
+                Create Invite
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InviteClinicianDialog;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { MapPin, Plus } from 'lucide-react';
+import { BodyLocation, Lesion, PatientRecord } from '../../types';
+import BodyMap from '../../components/BodyMap';
+import { describeLocation } from '../../services/bodyMap';
+import { LESION_STATUS_COLORS, lesionHistory, lesionStatus, newLesion, nextLesionLabel } from '../../services/lesions';
+import { buildTrend } from '../../services/trends';
+
+const TREND_LABELS = {
+  improving: 'Improving',
+  worsening: 'Worsening',
+  steady: 'Steady',
+  insufficient: 'Not enough scores'
+};
+
+interface LesionMapCardProps {
+  patient: PatientRecord;
+  selectedId: string | null; // Null shows every lesion's entries
+  onSelect: (lesionId: string | null) => void;
+  canEdit: boolean;
+  onSave: (lesion: Lesion) => Promise<boolean>; // False keeps the draft
+}
+
+// The patient's lesions on the body map, each with its own status and trend. Doctors with write
+// access add a lesion by clicking an empty spot, and place or move one from the list.
+const LesionMapCard: React.FC<LesionMapCardProps> = ({ patient, selectedId, onSelect, canEdit, onSave }) => {
+  const [placingId, setPlacingId] = useState<string | null>(null); // Lesion waiting for a click on the map
+  const [newSpot, setNewSpot] = useState<BodyLocation | null>(null);
+  const [newLabel, setNewLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const statuses = Object.fromEntries(patient.lesions.map(l => [l.id, lesionStatus(patient.history, l.id)]));
+
+  const save = async (lesion: Lesion) => {
+    setSaving(true);
+    try {
+      return await onSave(lesion);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePick = async (location: BodyLocation) => {
+    const placing = patient.lesions.find(l => l.id === placingId);
+    if (placing) {
+      if (await save({ ...placing, location })) setPlacingId(null);
+      return;
+    }
+    setNewSpot(location);
+    setNewLabel(nextLesionLabel(patient.lesions));
+  };
+
+  const handleAdd = async () => {
+    if (!newSpot || !newLabel.trim()) return;
+    const lesion = newLesion(newLabel, newSpot);
+    if (await save(lesion)) {
+      setNewSpot(null);
+      onSelect(lesion.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2 text-slate-800">
+        <div className="flex items-center gap-2">
+          <MapPin className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">Body Map</h3>
+        </div>
+        <button
+          onClick={() => onSelect(null)}
+          disabled={selectedId === null}
+          className="text-xs text-blue-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+        >
+          All lesions
+        </button>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-4">
+        <div>
+          <BodyMap
+            lesions={patient.lesions}
+            statuses={statuses}
+            selectedId={selectedId}
+            pending={newSpot}
+            onSelect={id => onSelect(id === selectedId ? null : id)}
+            onPick={canEdit && !saving ? handlePick : undefined}
+          />
+          {canEdit && (
+            <p className="text-[10px] text-slate-400 text-center mt-1">
+              {placingId ? `Click where ${patient.lesions.find(l => l.id === placingId)?.label} is` : 'Click the body to add a lesion'}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2 min-w-0">
+          {newSpot && (
+            <div className="p-2 bg-blue-50 border border-blue-100 rounded-lg space-y-2">
+              <div className="text-xs text-slate-600">New lesion: {describeLocation(newSpot)}</div>
+              <div className="flex gap-2">
+                <input
+                  value={newLabel}
+                  onChange={e => setNewLabel(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                  className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleAdd}
+                  disabled={!newLabel.trim() || saving}
+                  className="p-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  title="Add lesion"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              <button onClick={() => setNewSpot(null)} className="text-[10px] text-slate-500 hover:underline">Cancel</button>
+            </div>
+          )}
+
+          {patient.lesions.length === 0 && !newSpot && <p className="text-sm text-slate-400">No lesions tracked yet</p>}
+
+          {patient.lesions.map(lesion => {
+            const entries = lesionHistory(patient.history, lesion.id);
+            const trend = buildTrend(entries, 'all');
+            return (
+              <div
+                key={lesion.id}
+                onClick={() => onSelect(lesion.id === selectedId ? null : lesion.id)}
+                className={`p-2 rounded-lg border cursor-pointer transition-colors ${lesion.id === selectedId ? 'border-blue-500 bg-blue-50/50' : 'border-slate-100 hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1.5 min-w-0">
+                    <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ background: LESION_STATUS_COLORS[statuses[lesion.id]] }} />
+                    <span className="text-sm font-medium text-slate-800 truncate">{lesion.label}</span>
+                  </div>
+                  <span className="text-[10px] font-medium text-slate-500 flex-shrink-0">{statuses[lesion.id]}</span>
+                </div>
+                <div className="text-[10px] text-slate-400 mt-0.5">
+                  {describeLocation(lesion.location)} · {entries.length} photo(s) · {TREND_LABELS[trend.direction]}
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      setNewSpot(null);
+                      setPlacingId(placingId === lesion.id ? null : lesion.id);
+                    }}
+                    className="text-[10px] text-blue-600 hover:underline mt-0.5"
+                  >
+                    {placingId === lesion.id ? 'Cancel' : lesion.location ? 'Move on map' : 'Place on map'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LesionMapCard;
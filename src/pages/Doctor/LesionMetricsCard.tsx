@@ -0,0 +1,106 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { DermoscopicColor, LesionMetrics } from '../../types';
+import { CALIBRATION_STICKER_MM, IRREGULAR_BORDER, LARGE_DIAMETER_MM, MANY_COLORS } from '../../services/lesionMetrics';
+
+const COLOR_SWATCHES: Record<DermoscopicColor, { label: string, hex: string }> = {
+  white: { label: 'White', hex: '#e1dcd7' },
+  red: { label: 'Red', hex: '#c83c3c' },
+  'light-brown': { label: 'Light brown', hex: '#af734b' },
+  'dark-brown': { label: 'Dark brown', hex: '#643c28' },
+  'blue-gray': { label: 'Blue-gray', hex: '#647387' },
+  black: { label: 'Black', hex: '#1e1919' }
+};
+
+const signed = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const Metric: React.FC<{ letter: string, label: string, value: string, detail?: string, flagged?: boolean }> = ({ letter, label, value, detail, flagged }) => (
+  <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+    <div className="flex items-center gap-1.5 text-xs font-medium text-slate-500 mb-1">
+      <span className={`w-4 h-4 rounded text-[10px] font-bold flex items-center justify-center ${flagged ? 'bg-red-100 text-red-700' : 'bg-slate-200 text-slate-600'}`}>{letter}</span>
+      {label}
+    </div>
+    <div className={`font-bold ${flagged ? 'text-red-600' : 'text-slate-800'}`}>{value}</div>
+    {detail && <div className="text-[10px] text-slate-400 mt-0.5">{detail}</div>}
+  </div>
+);
+
+interface LesionMetricsCardProps {
+  metrics: LesionMetrics;
+}
+
+// Measured ABCDE values, flagged where the ABCD rule would count them against the lesion
+const LesionMetricsCard: React.FC<LesionMetricsCardProps> = ({ metrics }) => {
+  const evolution = metrics.evolution;
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2 text-slate-800">
+        <div className="flex items-center gap-2">
+          <Ruler className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">ABCDE Measurements</h3>
+        </div>
+        <span className="text-[10px] text-slate-400">Measured on device</span>
+      </div>
+      <div className="p-4 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <Metric
+            letter="A"
+            label="Asymmetry"
+            value={metrics.asymmetry.toFixed(2)}
+            detail={`${metrics.asymmetricAxes} of 2 axes asymmetric`}
+            flagged={metrics.asymmetricAxes > 0}
+          />
+          <Metric
+            letter="B"
+            label="Border irregularity"
+            value={metrics.borderIrregularity.toFixed(2)}
+            detail="1.00 is a perfect circle"
+            flagged={metrics.borderIrregularity > IRREGULAR_BORDER}
+          />
+          <Metric
+            letter="C"
+            label="Colours"
+            value={String(metrics.colors.length)}
+            flagged={metrics.colors.length >= MANY_COLORS}
+          />
+          <Metric
+            letter="D"
+            label="Diameter"
+            value={metrics.diameterMm !== null ? `${metrics.diameterMm} mm` : `${metrics.diameterPx} px`}
+            detail={metrics.diameterMm !== null ? `${metrics.diameterPx} px, calibrated` : `No ${CALIBRATION_STICKER_MM} mm sticker found`}
+            flagged={metrics.diameterMm !== null && metrics.diameterMm > LARGE_DIAMETER_MM}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {metrics.colors.map(color => (
+            <span key={color} className="flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ background: COLOR_SWATCHES[color].hex }} />
+              {COLOR_SWATCHES[color].label}
+            </span>
+          ))}
+        </div>
+
+        <div className="pt-3 border-t border-slate-100 text-xs">
+          <div className="flex items-center gap-1.5 font-medium text-slate-500 mb-1">
+            <span className="w-4 h-4 rounded text-[10px] font-bold flex items-center justify-center bg-slate-200 text-slate-600">E</span>
+            Evolution
+          </div>
+          {evolution ? (
+            <div className="text-slate-600 space-y-0.5">
+              <div>Since {evolution.previousDate} ({evolution.daysApart} days)</div>
+              <div>
+                Asymmetry {signed(evolution.asymmetryChange)} · Border {signed(evolution.borderChange)} · Colours {signed(evolution.colorCountChange, 0)}
+                {evolution.diameterChangeMm !== null && ` · Diameter ${signed(evolution.diameterChangeMm, 1)} mm`}
+              </div>
+            </div>
+          ) : (
+            <p className="text-slate-400">No earlier measured photo to compare with</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LesionMetricsCard;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { FilePlus, ShieldCheck } from 'lucide-react';
+import { ClinicalReview, HistoryEntry, ReviewAddendum, ReviewDecision, ReviewSeverity, User } from '../../types';
+import { DECISION_LABELS, DIAGNOSIS_VOCABULARY, REVIEW_SEVERITIES, currentFindings, reviewProblem } from '../../services/review';
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  confirmed: 'bg-green-100 text-green-700',
+  amended: 'bg-amber-100 text-amber-700',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+const SELECT_CLASS = 'w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60';
+
+interface ReviewPanelProps {
+  entry: HistoryEntry; // Has an analysisResult; remount per entry so drafts do not carry over
+  doctor: User;
+  canSign: boolean;
+  onSign: (review: ClinicalReview) => void;
+  onAddendum: (addendum: ReviewAddendum) => Promise<boolean>; // False keeps the draft
+}
+
+// Confirm, amend or reject the AI result and sign it; afterwards the review only grows by addenda
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ entry, doctor, canSign, onSign, onAddendum }) => {
+  const result = entry.analysisResult!;
+  const aiSeverity = REVIEW_SEVERITIES.find(s => s === result.severity);
+  const canConfirm = DIAGNOSIS_VOCABULARY.includes(result.diagnosis) && !!aiSeverity;
+
+  const [decision, setDecision] = useState<ReviewDecision>(canConfirm ? 'confirmed' : 'amended');
+  const [diagnosis, setDiagnosis] = useState(DIAGNOSIS_VOCABULARY.includes(result.diagnosis) ? result.diagnosis : '');
+  const [severity, setSeverity] = useState<ReviewSeverity>(aiSeverity ?? 'Moderate');
+  const [findings, setFindings] = useState('');
+
+  const [addendumText, setAddendumText] = useState('');
+  const [addendumDiagnosis, setAddendumDiagnosis] = useState('');
+  const [addendumSeverity, setAddendumSeverity] = useState<ReviewSeverity | ''>('');
+  const [saving, setSaving] = useState(false);
+
+  const chooseDecision = (next: ReviewDecision) => {
+    setDecision(next);
+    if (next === 'confirmed') {
+      setDiagnosis(result.diagnosis);
+      setSeverity(aiSeverity!);
+    }
+  };
+
+  const draft: ClinicalReview = {
+    decision,
+    diagnosis,
+    severity,
+    findings: findings.trim(),
+    signedById: doctor.id,
+    signedByName: doctor.name,
+    signedAt: new Date().toISOString(),
+    addenda: []
+  };
+  const problem = reviewProblem(draft, result);
+
+  const handleAddendum = async () => {
+    if (!addendumText.trim() || saving) return;
+    setSaving(true);
+    try {
+      const saved = await onAddendum({
+        id: crypto.randomUUID(),
+        text: addendumText.trim(),
+        ...(addendumDiagnosis && { diagnosis: addendumDiagnosis }),
+        ...(addendumSeverity && { severity: addendumSeverity }),
+        authorId: doctor.id,
+        authorName: doctor.name,
+        createdAt: new Date().toISOString()
+      });
+      if (saved) {
+        setAddendumText('');
+        setAddendumDiagnosis('');
+        setAddendumSeverity('');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const review = entry.review;
+  const current = review && currentFindings(review);
+  const revised = review && (current!.diagnosis !== review.diagnosis || current!.severity !== review.severity);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-slate-800">
+          <ShieldCheck className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold">Clinical Review</h3>
+        </div>
+        {review
+          ? <span className={`text-xs font-bold px-2 py-1 rounded ${DECISION_STYLES[review.decision]}`}>{DECISION_LABELS[review.decision]} · Signed</span>
+          : <span className="text-xs font-bold px-2 py-1 rounded bg-slate-100 text-slate-500">Awaiting sign-off</span>}
+      </div>
+
+      {review ? (
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Final diagnosis</div>
+              <div className="font-bold text-slate-900">{current!.diagnosis}</div>
+            </div>
+            <div>
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Severity</div>
+              <div className="font-bold text-slate-900">{current!.severity}</div>
+            </div>
+          </div>
+          {revised && <p className="text-xs text-amber-600">Revised by addendum; signed as {review.diagnosis} ({review.severity})</p>}
+          {review.findings && <p className="text-sm text-slate-700 whitespace-pre-wrap">{review.findings}</p>}
+          <p className="text-xs text-slate-400">Signed by {review.signedByName} · {new Date(review.signedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</p>
+
+          {review.addenda.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Addenda</div>
+              {review.addenda.map(a => (
+                <div key={a.id} className="p-2 bg-amber-50 border border-amber-100 rounded-lg text-xs">
+                  {(a.diagnosis || a.severity) && (
+                    <p className="font-semibold text-slate-800">Revised to {[a.diagnosis, a.severity].filter(Boolean).join(', ')}</p>
+                  )}
+                  <p className="text-slate-700">{a.text}</p>
+                  <p className="text-[10px] text-slate-400 mt-1">{a.authorName} · {new Date(a.createdAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canSign && (
+            <div className="pt-4 border-t border-slate-100 space-y-2">
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Add addendum</div>
+              <div className="grid grid-cols-2 gap-2">
+                <select value={addendumDiagnosis} onChange={e => setAddendumDiagnosis(e.target.value)} className={SELECT_CLASS}>
+                  <option value="">Diagnosis unchanged</option>
+                  {DIAGNOSIS_VOCABULARY.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+                <select value={addendumSeverity} onChange={e => setAddendumSeverity(e.target.value as ReviewSeverity | '')} className={SELECT_CLASS}>
+                  <option value="">Severity unchanged</option>
+                  {REVIEW_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+              <textarea
+                value={addendumText}
+                onChange={e => setAddendumText(e.target.value)}
+                rows={2}
+                placeholder="Reason for the addendum..."
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+              />
+              <button
+                onClick={handleAddendum}
+                disabled={!addendumText.trim() || saving}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 disabled:opacity-50 transition-colors"
+              >
+                <FilePlus className="w-4 h-4" />
+                Add Addendum
+              </button>
+            </div>
+          )}
+        </div>
+      ) : canSign ? (
+        <div className="p-6 space-y-4">
+          <div className="flex bg-slate-200 rounded-lg p-1 text-xs font-medium">
+            {(['confirmed', 'amended', 'rejected'] as ReviewDecision[]).map(d => (
+              <button
+                key={d}
+                onClick={() => chooseDecision(d)}
+                disabled={d === 'confirmed' && !canConfirm}
+                className={`flex-1 px-3 py-1.5 rounded-md transition-all disabled:opacity-50 ${decision === d ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+              >
+                {d === 'confirmed' ? 'Confirm' : d === 'amended' ? 'Amend' : 'Reject'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-slate-500">Final diagnosis</span>
+              <select value={diagnosis} onChange={e => setDiagnosis(e.target.value)} disabled={decision === 'confirmed'} className={SELECT_CLASS}>
+                {!diagnosis && <option value="">Choose...</option>}
+                {DIAGNOSIS_VOCABULARY.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-slate-500">Severity</span>
+              <select value={severity} onChange={e => setSeverity(e.target.value as ReviewSeverity)} disabled={decision === 'confirmed'} className={SELECT_CLASS}>
+                {REVIEW_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <textarea
+            value={findings}
+            onChange={e => setFindings(e.target.value)}
+            rows={3}
+            placeholder={decision === 'rejected' ? 'Why the AI result is rejected...' : 'Clinical findings (optional)...'}
+            className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+          />
+
+          {problem && diagnosis && <p className="text-xs text-slate-500">{problem}</p>}
+          <button
+            onClick={() => onSign({ ...draft, signedAt: new Date().toISOString() })}
+            disabled={!!problem}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            Sign Off
+          </button>
+          <p className="text-[10px] text-slate-400 text-center">Signing is final. The patient sees the signed result, and later changes need an addendum.</p>
+        </div>
+      ) : (
+        <p className="p-6 text-sm text-slate-500">Not yet signed off by the care team. The patient does not see this result until it is.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
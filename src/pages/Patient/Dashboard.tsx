@@ -1,24 +1,39 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   Bell, Camera, Send, ShieldCheck, Activity, Calendar,
-  UploadCloud, AlertCircle, CheckCircle, Clock, X, Info, AlertTriangle, LogOut
+  UploadCloud, AlertCircle, CheckCircle, Clock, X, Info, AlertTriangle, LogOut, Plus, Square, Eye, AlarmClock
 } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { chatWithMedicalBot, fileToGenerativePart, verifySkinPhoto } from '../../services/geminiService';
-import { getPatient, addHistoryEntry } from '../../services/storageService';
-import { Message, AppNotification, HistoryEntry } from '../../types';
+import { useSearchParams } from 'react-router-dom';
+import { streamChatWithMedicalBot, assessMessageUrgency, fileToGenerativePart, verifySkinPhoto } from '../../services/analysisService';
+import { appendMessage, prepareChatRequest, sortThreads, startThread, threadMessages } from '../../services/chatService';
+import { buildPatientContext, formatPatientContext } from '../../services/patientContext';
+import { toEscalation, triageMessage } from '../../services/triage';
+import { MESSAGE_POLL_MS, composeDirectMessage, messageNotification, unreadMessages } from '../../services/messagingService';
+import {
+  ALARM_TICK_MS, MISSED_LOOKBACK_DAYS, Occurrence, activeAlarm, canSnooze, deviceTimeZone, doseEvent,
+  findOccurrence, formatInZone, missedOccurrences, nextOccurrence, occurrenceStatus, systemClock
+} from '../../services/scheduling';
+import {
+  ALARM_LINK_PARAM, ReminderPermission, buildReminders, onReminderClick, registerReminderWorker,
+  reminderPermission, requestReminderPermission, sendTestReminder, syncReminders
+} from '../../services/reminderService';
+import { computeAdherence, formatRate } from '../../services/adherence';
+import { TREND_RANGES, TrendRange, buildTrend, isScored } from '../../services/trends';
+import SeverityTrendChart from '../../components/SeverityTrendChart';
+import BodyMap from '../../components/BodyMap';
+import BackgroundRemindersCard from '../../components/BackgroundRemindersCard';
+import DirectMessageThread from '../../components/DirectMessageThread';
+import ViewCaptureDialog, { LesionChoice, TaggedPhoto } from '../../components/ViewCaptureDialog';
+import { cameraAvailable } from '../../components/CameraCapture';
+import { orderViews } from '../../services/imageViews';
+import { LESION_STATUS_COLORS, lesionHistory, lesionStatus, likelyLesionId } from '../../services/lesions';
+import { describeLocation } from '../../services/bodyMap';
+import { currentFindings } from '../../services/review';
+import { UnreadableDataError, getRepositoryForUser } from '../../services/storageService';
+import { AccessDeniedError } from '../../services/accessControl';
+import { Message, AppNotification, EntryImage, HistoryEntry, User, ChatThread, PatientRecord, DirectMessage, DoseEvent } from '../../types';
 import { toast } from 'sonner';
 
-const MOCK_DATA = [
-  { day: 'Mon', score: 7 },
-  { day: 'Tue', score: 6.5 },
-  { day: 'Wed', score: 6 },
-  { day: 'Thu', score: 5 },
-  { day: 'Fri', score: 4.5 },
-  { day: 'Sat', score: 4 },
-  { day: 'Sun', score: 3.5 },
-];
-
 const INITIAL_NOTIFICATIONS: AppNotification[] = [
   { id: '1', type: 'reminder', title: 'Medication Due', message: 'Time to apply your topical cream.', timestamp: new Date(Date.now() - 1000 * 60 * 30), read: false },
   { id: '2', type: 'info', title: 'Dr. Miller', message: 'Updated your care plan.', timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24), read: true },
@@ -26,42 +41,148 @@ const INITIAL_NOTIFICATIONS: AppNotification[] = [
 
 interface PatientInterfaceProps {
   onLogout: () => void;
+  onAccessDenied: () => void;
+  user: User;
   patientId: string;
 }
 
-const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId }) => {
+const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, onAccessDenied, user, patientId }) => {
+  const repository = getRepositoryForUser(user);
   const [activeTab, setActiveTab] = useState<'dashboard' | 'chat'>('dashboard');
-  const [alarmActive, setAlarmActive] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    { id: '1', role: 'model', text: "Hello! I'm DermoBot. How is your skin feeling today? Any new symptoms?", timestamp: new Date() }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([]); // Messages of the active thread
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThread, setActiveThread] = useState<ChatThread | null>(null);
   const [inputMsg, setInputMsg] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [pendingUpload, setPendingUpload] = useState<{ purpose: 'manual' | 'alarm', files: File[], camera: boolean } | null>(null); // Photos waiting to be tagged
   const [patientName, setPatientName] = useState('Patient');
+  const [patient, setPatient] = useState<PatientRecord | null>(null);
+  const [showSharedContext, setShowSharedContext] = useState(false);
+  const [chatMode, setChatMode] = useState<'dermobot' | 'doctor'>('dermobot');
+  const [directMessages, setDirectMessages] = useState<DirectMessage[]>([]);
+  const notifiedMessages = useRef(new Set<string>());
+  const [doseLog, setDoseLog] = useState<DoseEvent[]>([]);
+  const [now, setNow] = useState(systemClock);
+  const notifiedDoses = useRef(new Set<string>());
+  const alarmShownAt = useRef(new Map<string, string>()); // When each alarm first rang, for response times
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [linkedOccurrenceId, setLinkedOccurrenceId] = useState<string | null>(null);
+  const [remindersPermission, setRemindersPermission] = useState<ReminderPermission>(reminderPermission);
 
   // Storage State
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [trendRange, setTrendRange] = useState<TrendRange>('30d');
+  const [trendLesionId, setTrendLesionId] = useState<string | null>(null); // Progress of one lesion; null for all
+  const trendHistory = useMemo(() => trendLesionId ? lesionHistory(history, trendLesionId) : history, [history, trendLesionId]);
+  const trend = useMemo(() => buildTrend(trendHistory, trendRange), [trendHistory, trendRange]);
 
   // Notification State
   const [notifications, setNotifications] = useState<AppNotification[]>(INITIAL_NOTIFICATIONS);
   const [showNotifications, setShowNotifications] = useState(false);
 
   const scrollRef = useRef<HTMLDivElement>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
   const notificationRef = useRef<HTMLDivElement>(null);
 
   // Load Patient Data dynamically based on ID
   useEffect(() => {
-    const patientData = getPatient(patientId);
-    if (patientData) {
-      setHistory(patientData.history);
-      setPatientName(patientData.name);
-    } else {
-      // Fallback or empty state if ID not found (e.g. wrong ID entered)
-      console.warn(`Patient ID ${patientId} not found`);
-    }
+    repository.getPatient(patientId).then(patientData => {
+      if (patientData) {
+        setHistory(patientData.history);
+        setPatientName(patientData.name);
+        setPatient(patientData);
+        setDoseLog(patientData.doseLog ?? []);
+      }
+      return loadConversations();
+    }).catch(error => {
+      if (error instanceof AccessDeniedError) onAccessDenied();
+      else if (error instanceof UnreadableDataError) toast.error(error.message, { id: 'unreadable-data', duration: Infinity });
+      else console.error(error);
+    });
   }, [patientId]);
 
+  // Replies from the care team arrive by polling; each unread one is also listed in the notifications
+  useEffect(() => {
+    const refresh = () => repository.getDirectMessages(patientId).then(list => {
+      setDirectMessages(list);
+      const fresh = unreadMessages(list, user.role).filter(m => !notifiedMessages.current.has(m.id));
+      if (fresh.length === 0) return;
+      fresh.forEach(m => notifiedMessages.current.add(m.id));
+      setNotifications(prev => [...fresh.map(m => messageNotification(m)), ...prev]);
+    }).catch(error => console.error(error));
+    refresh();
+    const timer = setInterval(refresh, MESSAGE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [patientId]);
+
+  // Opening "My Doctor" marks the doctor's messages read, which shows up as a receipt on their side
+  useEffect(() => {
+    if (chatMode !== 'doctor') return;
+    const ids = unreadMessages(directMessages, user.role).map(m => m.id);
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    repository.markDirectMessagesRead(patientId, ids, readAt).then(() => {
+      setDirectMessages(prev => prev.map(m => ids.includes(m.id) && !m.readAt ? { ...m, readAt } : m));
+      setNotifications(prev => prev.map(n => ids.some(id => n.id === `dm-${id}`) ? { ...n, read: true } : n));
+    }).catch(error => console.error(error));
+  }, [chatMode, directMessages]);
+
+  const handleSendDirectMessage = async (text: string, attachmentIds: string[]) => {
+    const message = composeDirectMessage(user, text, attachmentIds);
+    try {
+      await repository.sendDirectMessage(patientId, message);
+      setDirectMessages(prev => [...prev, message]);
+      return true;
+    } catch (error) {
+      console.error(error);
+      toast.error("Your message could not be sent.");
+      return false;
+    }
+  };
+
+  const openDoctorChat = () => {
+    setChatMode('doctor');
+    setActiveTab('chat');
+    setShowNotifications(false);
+  };
+
+  // Exactly what DermoBot is told about the patient, kept current as history grows
+  const sharedContext = useMemo(() => patient ? buildPatientContext({ ...patient, history }) : [], [patient, history]);
+
+  // Resume the most recently active DermoBot thread, or start the first one
+  const loadConversations = async () => {
+    const stored = sortThreads(await repository.listThreads(patientId));
+    if (stored.length === 0) {
+      const started = await startThread(repository, patientId);
+      setThreads([started.thread]);
+      setActiveThread(started.thread);
+      setMessages(started.messages);
+      return;
+    }
+    setThreads(stored);
+    setActiveThread(stored[0]);
+    setMessages(threadMessages(await repository.getMessages(patientId), stored[0].id));
+  };
+
+  const updateThread = (thread: ChatThread) => {
+    setThreads(prev => sortThreads([thread, ...prev.filter(t => t.id !== thread.id)]));
+    setActiveThread(thread);
+  };
+
+  const handleSelectThread = async (threadId: string) => {
+    const thread = threads.find(t => t.id === threadId);
+    if (!thread) return;
+    setActiveThread(thread);
+    setMessages(threadMessages(await repository.getMessages(patientId), thread.id));
+  };
+
+  const handleNewThread = async () => {
+    const started = await startThread(repository, patientId);
+    updateThread(started.thread);
+    setMessages(started.messages);
+  };
+
   // Close notifications when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -73,24 +194,135 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Simulate Smart Alarm triggering
+  // Stop any reply still streaming when leaving the page
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
+
+  // Smart Alarm: the care plan is re-evaluated on a tick rather than with one timer per dose,
+  // so sleeping devices, snoozes and plan edits all settle on the next tick
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setAlarmActive(true);
-      // Also add a notification for the alarm
-      const newNotif: AppNotification = {
-        id: Date.now().toString(),
+    const timer = setInterval(() => setNow(systemClock()), ALARM_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const carePlan = patient?.carePlan;
+
+  // A clicked reminder opens the upload for that occurrence, even if it is snoozed or not quite due yet
+  const linkedAlarm = useMemo(() => {
+    if (!carePlan || !linkedOccurrenceId) return null;
+    const occurrence = findOccurrence(carePlan, linkedOccurrenceId);
+    if (!occurrence) return null;
+    const status = occurrenceStatus(occurrence, doseLog, carePlan, now);
+    return status === 'taken' || status === 'missed' ? null : occurrence;
+  }, [carePlan, linkedOccurrenceId, doseLog, now]);
+  const alarm = useMemo(
+    () => linkedAlarm ?? (carePlan ? activeAlarm(carePlan, doseLog, now) : null),
+    [linkedAlarm, carePlan, doseLog, now]
+  );
+  const adherence = useMemo(() => carePlan ? computeAdherence(carePlan, doseLog, now) : null, [carePlan, doseLog, now]);
+  const nextDose = useMemo(() => carePlan ? nextOccurrence(carePlan, now, 'medication') : null, [carePlan, now]);
+  const planZoneLabel = carePlan && carePlan.timezone !== deviceTimeZone() ? ` (${carePlan.timezone})` : '';
+
+  // Each missed dose or check-in is listed once in the notifications
+  useEffect(() => {
+    if (!carePlan) return;
+    const from = new Date(now.getTime() - MISSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const fresh = missedOccurrences(carePlan, doseLog, from, now).filter(o => !notifiedDoses.current.has(o.id));
+    if (fresh.length === 0) return;
+    fresh.forEach(o => notifiedDoses.current.add(o.id));
+    setNotifications(prev => [
+      ...fresh.reverse().map((o): AppNotification => ({
+        id: `missed-${o.id}`,
         type: 'alert',
-        title: 'Missed Check-in',
-        message: 'Please complete your daily scan to silence the alarm.',
-        timestamp: new Date(),
+        title: o.item.kind === 'medication' ? 'Missed Dose' : 'Missed Check-in',
+        message: `${o.item.name} was due at ${formatInZone(o.scheduledAt, carePlan.timezone)} on ${o.scheduledAt.toLocaleDateString()}.`,
+        timestamp: o.scheduledAt,
         read: false
-      };
-      setNotifications(prev => [newNotif, ...prev]);
-    }, 5000); // Triggers 5s after load for demo
-    return () => clearTimeout(timer);
+      })),
+      ...prev
+    ]);
+  }, [carePlan, doseLog, now]);
+
+  // Background reminders: the service worker gets the next day's schedule whenever it changes
+  useEffect(() => {
+    registerReminderWorker();
+    return onReminderClick(url => {
+      setLinkedOccurrenceId(new URL(url, window.location.origin).searchParams.get(ALARM_LINK_PARAM));
+      setActiveTab('dashboard');
+    });
   }, []);
 
+  useEffect(() => {
+    if (remindersPermission !== 'granted') return;
+    syncReminders(carePlan ? buildReminders(carePlan, doseLog, systemClock()) : [])
+      .catch(error => console.error(error));
+  }, [carePlan, doseLog, remindersPermission]);
+
+  // Deep links are consumed once, so reloading the page does not reopen the alarm
+  useEffect(() => {
+    if (!searchParams.has(ALARM_LINK_PARAM)) return;
+    setLinkedOccurrenceId(searchParams.get(ALARM_LINK_PARAM));
+    setSearchParams(params => {
+      params.delete(ALARM_LINK_PARAM);
+      return params;
+    }, { replace: true });
+  }, [searchParams]);
+
+  // Once the plan has loaded, a link to a dose that is already done or over just explains itself
+  useEffect(() => {
+    if (carePlan && linkedOccurrenceId && !linkedAlarm) {
+      toast.info("That reminder is no longer open.");
+      setLinkedOccurrenceId(null);
+    }
+  }, [carePlan, linkedOccurrenceId, linkedAlarm]);
+
+  const handleEnableReminders = async () => {
+    const permission = await requestReminderPermission();
+    setRemindersPermission(permission);
+    if (permission === 'granted') toast.success("Background reminders enabled");
+    else if (permission === 'denied') toast.info("Reminders will only ring while DermoLink is open.");
+  };
+
+  const handleTestReminder = () => {
+    sendTestReminder(alarm?.id ?? nextDose?.id ?? null)
+      .then(() => toast.info("A test notification will appear in a few seconds. Try switching to another tab."))
+      .catch(error => console.error(error));
+  };
+
+  useEffect(() => {
+    if (alarm && !alarmShownAt.current.has(alarm.id)) alarmShownAt.current.set(alarm.id, systemClock().toISOString());
+  }, [alarm]);
+
+  const recordDose = async (occurrence: Occurrence, action: DoseEvent['action'], historyEntryId?: string) => {
+    const alarmAt = action === 'taken' ? alarmShownAt.current.get(occurrence.id) : undefined;
+    const event = doseEvent(occurrence, action, systemClock(), { historyEntryId, alarmAt });
+    await repository.recordDoseEvent(patientId, event);
+    setDoseLog(prev => [...prev, event]);
+    if (action === 'taken') setLinkedOccurrenceId(null);
+  };
+
+  const handleSnooze = async () => {
+    if (!alarm) return;
+    try {
+      await recordDose(alarm, 'snoozed');
+      setLinkedOccurrenceId(null);
+      toast.info(`Snoozed for ${carePlan!.snoozeMinutes} minutes`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not snooze the alarm.");
+    }
+  };
+
+  const handleMarkTaken = async () => {
+    if (!alarm) return;
+    try {
+      await recordDose(alarm, 'taken');
+      toast.success("Adherence recorded! Alarm disabled.");
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not record the dose.");
+    }
+  };
+
   // Simulate incoming appointment reminder
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -114,48 +346,132 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
     }
   }, [messages]);
 
+  // Red flags reach the care team whatever DermoBot replies
+  const escalateIfUrgent = async (message: Message) => {
+    try {
+      const result = await triageMessage(message.text, assessMessageUrgency);
+      if (!result.urgent) return;
+      const escalation = toEscalation(result, message.id);
+      await repository.escalate(patientId, escalation);
+      setPatient(prev => prev && { ...prev, status: 'Critical', escalation });
+      toast.warning("We've alerted your care team. If this feels like an emergency, call emergency services now.", { duration: 10000 });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!inputMsg.trim()) return;
+    if (!inputMsg.trim() || !activeThread || isTyping) return;
 
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', text: inputMsg, timestamp: new Date() };
+    const userMsg: Message = { id: crypto.randomUUID(), threadId: activeThread.id, role: 'user', text: inputMsg, timestamp: new Date() };
     setMessages(prev => [...prev, userMsg]);
     setInputMsg('');
     setIsTyping(true);
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+
+    try {
+      const thread = await appendMessage(repository, patientId, activeThread, userMsg);
+      escalateIfUrgent(userMsg);
+      // Earlier turns only; the new message is sent separately
+      const request = await prepareChatRequest(repository, patientId, thread, messages);
+
+      // Tokens are rendered into this bubble as they arrive
+      const botId = crypto.randomUUID();
+      const setBotText = (text: string) => setMessages(prev => {
+        const others = prev.filter(m => m.id !== botId);
+        return [...others, { id: botId, threadId: thread.id, role: 'model', text, timestamp: new Date() }];
+      });
+
+      const context = { ...request.context, patientContext: formatPatientContext(sharedContext) };
+      const reply = await streamChatWithMedicalBot(request.history, userMsg.text, context, {
+        signal: controller.signal,
+        onText: setBotText
+      });
+
+      if (reply.status === 'aborted' && !reply.text) {
+        setMessages(prev => prev.filter(m => m.id !== botId));
+        updateThread(request.thread);
+        return;
+      }
+      if (reply.status === 'failed') {
+        toast.error(reply.text ? "The reply was cut off." : "I'm having trouble connecting to the server. Please try again later.");
+      }
+
+      const botMsg: Message = {
+        id: botId,
+        threadId: thread.id,
+        role: 'model',
+        text: reply.text || "I'm currently offline.",
+        timestamp: new Date(),
+        ...(reply.status !== 'complete' && { interrupted: true })
+      };
+      setMessages(prev => [...prev.filter(m => m.id !== botId), botMsg]);
+      updateThread(await appendMessage(repository, patientId, request.thread, botMsg));
+    } catch (error) {
+      console.error(error);
+      toast.error("Your message could not be saved.");
+    } finally {
+      replyAbortRef.current = null;
+      setIsTyping(false);
+    }
+  };
+
+  const handleStopReply = () => replyAbortRef.current?.abort();
 
-    const history = messages.map(m => ({
-      role: m.role === 'user' ? 'user' : 'model',
-      parts: [{ text: m.text }]
-    }));
+  // Chosen photos are tagged in ViewCaptureDialog before anything is verified or saved
+  const startUpload = (purpose: 'manual' | 'alarm') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Reset input
+    if (files.length > 0) setPendingUpload({ purpose, files, camera: false });
+  };
 
-    const responseText = await chatWithMedicalBot(history, userMsg.text);
+  // Opens the dialog on the in-app camera, or on the file picker where there is no camera
+  const startCapture = (purpose: 'manual' | 'alarm') => setPendingUpload({ purpose, files: [], camera: cameraAvailable() });
 
-    const botMsg: Message = { id: (Date.now() + 1).toString(), role: 'model', text: responseText || "I'm currently offline.", timestamp: new Date() };
-    setMessages(prev => [...prev, botMsg]);
-    setIsTyping(false);
+  // Every view must pass the skin check; null if any does not. The primary view comes first.
+  const verifiedImages = async (entryId: string, photos: TaggedPhoto[]): Promise<EntryImage[] | null> => {
+    const images: EntryImage[] = [];
+    for (const [index, photo] of orderViews(photos).entries()) {
+      const base64 = await fileToGenerativePart(photo.file);
+      if (!(await verifySkinPhoto(base64))) return null;
+      images.push({ id: `${entryId}-${index}`, view: photo.view, url: `data:image/jpeg;base64,${base64}`, ...(photo.quality && { quality: photo.quality }) });
+    }
+    return images;
   };
 
-  const handleManualUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // A lesion first marked on the map in this upload is saved just before its first entry
+  const saveChosenLesion = async ({ lesion, isNew }: LesionChoice) => {
+    if (!isNew) return;
+    await repository.saveLesion(patientId, lesion);
+    setPatient(prev => prev && { ...prev, lesions: [...prev.lesions.filter(l => l.id !== lesion.id), lesion] });
+  };
 
+  const handleManualUpload = async (photos: TaggedPhoto[], choice: LesionChoice) => {
     const toastId = toast.loading('Uploading...');
     setUploading(true);
     try {
-      const base64 = await fileToGenerativePart(file);
-      const isValid = await verifySkinPhoto(base64);
+      const entryId = Date.now().toString();
+      const images = await verifiedImages(entryId, photos);
 
-      if (isValid) {
+      if (images) {
         // SAVE TO BACKEND
+        await saveChosenLesion(choice);
         const newEntry: HistoryEntry = {
+          id: entryId,
+          lesionId: choice.lesion.id,
+          source: 'self-report',
           date: new Date().toISOString().split('T')[0],
-          imageUrl: `data:image/jpeg;base64,${base64}`,
-          notes: 'Self-reported progress photo',
+          imageUrl: images[0].url,
+          images,
+          notes: images.length > 1 ? `Self-reported progress photos (${images.length} views)` : 'Self-reported progress photo',
           severityScore: 0,
         };
 
-        addHistoryEntry(patientId, newEntry);
+        await repository.addHistoryEntry(patientId, newEntry);
         setHistory(prev => [newEntry, ...prev]);
-        toast.success("Photo added to medical log!", { id: toastId });
+        setPendingUpload(null);
+        toast.success(images.length > 1 ? "Photos added to medical log!" : "Photo added to medical log!", { id: toastId });
       } else {
         toast.error("Invalid photo. Please use a clearer image.", { id: toastId });
       }
@@ -164,33 +480,45 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
       toast.error("Error verifying image.", { id: toastId });
     } finally {
       setUploading(false);
-      e.target.value = ''; // Reset input
     }
   };
 
-  const handleAlarmUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
+  const handleAlarmUpload = async (photos: TaggedPhoto[], choice: LesionChoice) => {
     const toastId = toast.loading('Verifying...');
     setUploading(true);
     try {
-      const base64 = await fileToGenerativePart(file);
-      const isValid = await verifySkinPhoto(base64);
-
-      if (isValid) {
-        setAlarmActive(false);
+      const entryId = Date.now().toString();
+      const images = await verifiedImages(entryId, photos);
 
+      if (images) {
         // SAVE TO BACKEND
+        const completedAt = systemClock().toISOString();
+        await saveChosenLesion(choice);
         const newEntry: HistoryEntry = {
+          id: entryId,
+          lesionId: choice.lesion.id,
+          source: 'check-in',
           date: new Date().toISOString().split('T')[0],
-          imageUrl: `data:image/jpeg;base64,${base64}`,
-          notes: 'Medication Adherence Check-in (Smart Alarm)',
+          imageUrl: images[0].url,
+          images,
+          notes: alarm ? `${alarm.item.name} Check-in (Smart Alarm)` : 'Medication Adherence Check-in (Smart Alarm)',
           severityScore: 0, // Not applicable for simple adherence check
+          ...(alarm && {
+            checkIn: {
+              occurrenceId: alarm.id,
+              itemId: alarm.item.id,
+              itemName: alarm.item.name,
+              scheduledAt: alarm.scheduledAt.toISOString(),
+              alarmAt: alarmShownAt.current.get(alarm.id) ?? completedAt,
+              completedAt
+            }
+          })
         };
 
-        addHistoryEntry(patientId, newEntry);
+        await repository.addHistoryEntry(patientId, newEntry);
         setHistory(prev => [newEntry, ...prev]);
+        if (alarm) await recordDose(alarm, 'taken', newEntry.id);
+        setPendingUpload(null);
 
         toast.success("Adherence recorded! Alarm disabled.", { id: toastId });
       } else {
@@ -204,7 +532,11 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
     }
   };
 
+  const lesions = patient?.lesions ?? [];
+  const lesionStatuses = Object.fromEntries(lesions.map(l => [l.id, lesionStatus(history, l.id)]));
+
   const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadDirectCount = unreadMessages(directMessages, user.role).length;
 
   const markAllRead = () => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
@@ -218,34 +550,88 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
   return (
     <div className="min-h-screen bg-slate-50 pb-20 md:pb-0 relative">
       {/* Smart Alarm Overlay */}
-      {alarmActive && (
+      {alarm && carePlan && (
         <div className="fixed inset-0 z-50 bg-red-600/90 backdrop-blur-sm flex items-center justify-center p-4 animate-pulse">
           <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full text-center space-y-6">
             <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto">
               <Bell className="w-10 h-10 text-red-600 animate-bounce" />
             </div>
-            <h2 className="text-3xl font-bold text-slate-900">Medication Time!</h2>
+            <h2 className="text-3xl font-bold text-slate-900">{alarm.item.kind === 'medication' ? 'Medication Time!' : 'Check-in Time!'}</h2>
+            <div>
+              <p className="font-semibold text-slate-800">{alarm.item.name}</p>
+              <p className="text-sm text-slate-500">Due at {formatInZone(alarm.scheduledAt, carePlan.timezone)}{planZoneLabel}</p>
+              {alarm.item.instructions && <p className="text-sm text-slate-500 mt-1">{alarm.item.instructions}</p>}
+            </div>
             <p className="text-slate-600">
-              The Smart Alarm is active. To turn it off and record your adherence, please take a clear photo of your treated area.
+              {alarm.item.requiresPhoto
+                ? 'The Smart Alarm is active. To turn it off and record your adherence, please take a clear photo of your treated area.'
+                : 'The Smart Alarm is active. Confirm once you have taken it to record your adherence.'}
             </p>
 
-            <div className="pt-4">
-              <label className="cursor-pointer bg-slate-900 text-white hover:bg-slate-800 transition-colors py-4 px-6 rounded-xl flex items-center justify-center gap-2 font-semibold text-lg shadow-lg">
-                {uploading ? (
-                  <span>Verifying Photo...</span>
-                ) : (
-                  <>
-                    <Camera className="w-6 h-6" />
-                    <span>Upload Proof to Dismiss</span>
-                  </>
-                )}
-                <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handleAlarmUpload} disabled={uploading} />
-              </label>
+            <div className="pt-4 space-y-3">
+              {alarm.item.requiresPhoto ? (
+                <button
+                  onClick={() => startCapture('alarm')}
+                  disabled={uploading}
+                  className="w-full bg-slate-900 text-white hover:bg-slate-800 transition-colors py-4 px-6 rounded-xl flex items-center justify-center gap-2 font-semibold text-lg shadow-lg"
+                >
+                  {uploading ? (
+                    <span>Verifying Photo...</span>
+                  ) : (
+                    <>
+                      <Camera className="w-6 h-6" />
+                      <span>Take Photo to Dismiss</span>
+                    </>
+                  )}
+                </button>
+              ) : (
+                <button
+                  onClick={handleMarkTaken}
+                  className="w-full bg-slate-900 text-white hover:bg-slate-800 transition-colors py-4 px-6 rounded-xl flex items-center justify-center gap-2 font-semibold text-lg shadow-lg"
+                >
+                  <CheckCircle className="w-6 h-6" />
+                  <span>Mark as Taken</span>
+                </button>
+              )}
+              {canSnooze(alarm, doseLog, carePlan, now) && (
+                <button
+                  onClick={handleSnooze}
+                  disabled={uploading}
+                  className="w-full text-slate-600 hover:bg-slate-100 transition-colors py-3 px-6 rounded-xl flex items-center justify-center gap-2 font-medium"
+                >
+                  <AlarmClock className="w-5 h-5" />
+                  <span>Snooze {carePlan.snoozeMinutes} min</span>
+                </button>
+              )}
+              {linkedAlarm && occurrenceStatus(linkedAlarm, doseLog, carePlan, now) !== 'due' && (
+                <button
+                  onClick={() => setLinkedOccurrenceId(null)}
+                  disabled={uploading}
+                  className="w-full text-slate-600 hover:bg-slate-100 transition-colors py-3 px-6 rounded-xl font-medium"
+                >
+                  Not now
+                </button>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {pendingUpload && (
+        <ViewCaptureDialog
+          initialFiles={pendingUpload.files}
+          lesions={lesions}
+          statuses={lesionStatuses}
+          defaultLesionId={likelyLesionId({ lesions, history })}
+          title={pendingUpload.purpose === 'alarm' ? 'Check-in photos' : 'Add photos'}
+          submitLabel={pendingUpload.purpose === 'alarm' ? 'Upload Proof to Dismiss' : 'Add to Medical Log'}
+          busy={uploading}
+          startWithCamera={pendingUpload.camera}
+          onCancel={() => setPendingUpload(null)}
+          onSubmit={pendingUpload.purpose === 'alarm' ? handleAlarmUpload : handleManualUpload}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-white border-b border-slate-200 sticky top-0 z-30">
         <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
@@ -275,7 +661,14 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
               {showNotifications && (
                 <div className="absolute right-0 top-12 w-80 md:w-96 bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden z-40 animate-in fade-in slide-in-from-top-2 duration-200">
                   <div className="p-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
-                    <h3 className="font-semibold text-slate-800">Notifications</h3>
+                    <div>
+                      <h3 className="font-semibold text-slate-800">Notifications</h3>
+                      {unreadDirectCount > 0 && (
+                        <button onClick={openDoctorChat} className="text-xs text-slate-500 hover:text-teal-600">
+                          {unreadDirectCount} unread message{unreadDirectCount === 1 ? '' : 's'} from your doctor
+                        </button>
+                      )}
+                    </div>
                     {unreadCount > 0 && (
                       <button onClick={markAllRead} className="text-xs text-teal-600 font-medium hover:underline">
                         Mark all read
@@ -290,7 +683,11 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
                       </div>
                     ) : (
                       notifications.map(n => (
-                        <div key={n.id} className={`p-4 border-b border-slate-100 hover:bg-slate-50 transition-colors flex gap-3 ${!n.read ? 'bg-blue-50/30' : ''}`}>
+                        <div
+                          key={n.id}
+                          onClick={n.type === 'message' ? openDoctorChat : undefined}
+                          className={`p-4 border-b border-slate-100 hover:bg-slate-50 transition-colors flex gap-3 ${!n.read ? 'bg-blue-50/30' : ''} ${n.type === 'message' ? 'cursor-pointer' : ''}`}
+                        >
                           <div className={`mt-1 w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${n.type === 'alert' ? 'bg-red-100 text-red-600' :
                             n.type === 'info' ? 'bg-blue-100 text-blue-600' :
                               n.type === 'reminder' ? 'bg-orange-100 text-orange-600' : 'bg-slate-100 text-slate-600'
@@ -363,6 +760,10 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Dashboard Column */}
           <div className={`md:col-span-2 space-y-6 ${activeTab === 'chat' ? 'hidden md:block' : ''}`}>
+            {carePlan && carePlan.items.length > 0 && (
+              <BackgroundRemindersCard permission={remindersPermission} onEnable={handleEnableReminders} onTest={handleTestReminder} />
+            )}
+
             {/* Quick Stats */}
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
               <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
@@ -370,72 +771,137 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
                   <Activity className="w-5 h-5" />
                   <span className="font-semibold text-sm">Improvement</span>
                 </div>
-                <div className="text-2xl font-bold text-slate-800">85%</div>
-                <div className="text-xs text-slate-500">Last 7 days</div>
+                <div className="text-2xl font-bold text-slate-800">{trend.improvement !== null ? `${trend.improvement}%` : '—'}</div>
+                <div className="text-xs text-slate-500">
+                  {trend.improvement !== null ? TREND_RANGES.find(r => r.id === trendRange)!.label : 'Needs two scored scans'}
+                </div>
               </div>
               <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
                 <div className="flex items-center gap-2 text-indigo-600 mb-2">
                   <Calendar className="w-5 h-5" />
                   <span className="font-semibold text-sm">Streak</span>
                 </div>
-                <div className="text-2xl font-bold text-slate-800">12 Days</div>
-                <div className="text-xs text-slate-500">Medication Adherence</div>
+                <div className="text-2xl font-bold text-slate-800">
+                  {adherence ? `${adherence.currentStreak} ${adherence.currentStreak === 1 ? 'Day' : 'Days'}` : '—'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {adherence?.rate != null ? `${formatRate(adherence.rate)} of doses taken` : 'Medication Adherence'}
+                </div>
               </div>
               <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100 hidden sm:block">
                 <div className="flex items-center gap-2 text-orange-600 mb-2">
                   <Clock className="w-5 h-5" />
                   <span className="font-semibold text-sm">Next Dose</span>
                 </div>
-                <div className="text-2xl font-bold text-slate-800">8:00 PM</div>
-                <div className="text-xs text-slate-500">Topical Cream</div>
+                <div className="text-2xl font-bold text-slate-800">
+                  {nextDose && carePlan ? formatInZone(nextDose.scheduledAt, carePlan.timezone) : '—'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {nextDose ? `${nextDose.item.name}${planZoneLabel}` : 'No medication scheduled'}
+                </div>
               </div>
             </div>
 
-            {/* Progress Chart */}
-            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
-              <h3 className="font-semibold text-lg text-slate-800 mb-6">Lesion Severity Tracking</h3>
-              <div className="h-64 w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={MOCK_DATA}>
-                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                    <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} dy={10} />
-                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
-                    <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
-                    <Line type="monotone" dataKey="score" stroke="#0d9488" strokeWidth={3} dot={{ fill: '#0d9488', r: 4, strokeWidth: 0 }} activeDot={{ r: 6 }} />
-                  </LineChart>
-                </ResponsiveContainer>
+            {/* My Lesions */}
+            {lesions.length > 0 && (
+              <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold text-lg text-slate-800">My Lesions</h3>
+                  {trendLesionId && (
+                    <button onClick={() => setTrendLesionId(null)} className="text-xs text-teal-600 hover:underline">Show all</button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-4">
+                  <BodyMap
+                    lesions={lesions}
+                    statuses={lesionStatuses}
+                    selectedId={trendLesionId}
+                    onSelect={id => setTrendLesionId(prev => prev === id ? null : id)}
+                    accent="teal"
+                    className="h-64"
+                  />
+                  <div className="space-y-2">
+                    {lesions.map(lesion => (
+                      <button
+                        key={lesion.id}
+                        onClick={() => setTrendLesionId(prev => prev === lesion.id ? null : lesion.id)}
+                        className={`w-full text-left p-3 rounded-xl border transition-colors ${lesion.id === trendLesionId ? 'border-teal-500 bg-teal-50/50' : 'border-slate-100 hover:bg-slate-50'}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ background: LESION_STATUS_COLORS[lesionStatuses[lesion.id]] }} />
+                            <span className="text-sm font-medium text-slate-800 truncate">{lesion.label}</span>
+                          </div>
+                          <span className="text-xs text-slate-500 flex-shrink-0">{lesionStatuses[lesion.id]}</span>
+                        </div>
+                        <div className="text-xs text-slate-400 mt-0.5">
+                          {describeLocation(lesion.location)} · {lesionHistory(history, lesion.id).length} photo(s)
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
-            </div>
+            )}
+
+            {/* Progress Chart */}
+            <SeverityTrendChart history={trendHistory} range={trendRange} onRangeChange={setTrendRange} />
 
             {/* Medical Log (Updated with detailed list) */}
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-lg text-slate-800">Medical Log</h3>
-                <label className={`flex items-center gap-2 px-3 py-1.5 bg-teal-50 text-teal-700 rounded-lg text-sm font-medium hover:bg-teal-100 transition-colors cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
-                  {uploading ? (
-                    <div className="w-4 h-4 border-2 border-teal-600 border-t-transparent rounded-full animate-spin"></div>
-                  ) : (
-                    <Camera className="w-4 h-4" />
-                  )}
-                  <span>{uploading ? 'Analyzing...' : 'Add Photo'}</span>
-                  <input type="file" accept="image/*" className="hidden" onChange={handleManualUpload} disabled={uploading} />
-                </label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => startCapture('manual')}
+                    disabled={uploading}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-teal-50 text-teal-700 rounded-lg text-sm font-medium hover:bg-teal-100 transition-colors disabled:opacity-50"
+                  >
+                    {uploading ? (
+                      <div className="w-4 h-4 border-2 border-teal-600 border-t-transparent rounded-full animate-spin"></div>
+                    ) : (
+                      <Camera className="w-4 h-4" />
+                    )}
+                    <span>{uploading ? 'Analyzing...' : 'Take Photo'}</span>
+                  </button>
+                  <label className={`flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`} title="Choose photos from this device">
+                    <UploadCloud className="w-4 h-4" />
+                    <span className="hidden sm:inline">Upload</span>
+                    <input type="file" accept="image/*" multiple className="hidden" onChange={startUpload('manual')} disabled={uploading} />
+                  </label>
+                </div>
               </div>
               <div className="space-y-4">
                 {history.length > 0 ? history.map((entry, index) => (
                   <div key={index} className="flex gap-4 p-3 rounded-xl hover:bg-slate-50 border border-slate-100 transition-colors">
-                    <div className="w-20 h-20 flex-shrink-0 rounded-lg overflow-hidden bg-slate-200 border border-slate-200">
+                    <div className="relative w-20 h-20 flex-shrink-0 rounded-lg overflow-hidden bg-slate-200 border border-slate-200">
                       <img src={entry.imageUrl} alt="Lesion" className="w-full h-full object-cover" />
+                      {(entry.images?.length ?? 0) > 1 && (
+                        <span className="absolute bottom-1 right-1 px-1.5 py-0.5 bg-slate-900/70 text-white rounded text-[10px] font-medium">{entry.images!.length} views</span>
+                      )}
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex justify-between items-start mb-1">
-                        <div className="text-sm font-bold text-slate-900">{entry.date}</div>
+                        <div className="min-w-0">
+                          <div className="text-sm font-bold text-slate-900">{entry.date}</div>
+                          <div className="text-xs text-slate-400 truncate">{lesions.find(l => l.id === entry.lesionId)?.label}</div>
+                        </div>
                         <div className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-teal-50 text-teal-700">
                           <Activity className="w-3 h-3" />
-                          <span>Score: {entry.severityScore > 0 ? `${entry.severityScore}/10` : 'Check-in'}</span>
+                          <span>{isScored(entry) ? `Score: ${entry.severityScore}/10` : entry.source === 'check-in' ? 'Check-in' : 'Awaiting review'}</span>
                         </div>
                       </div>
                       <p className="text-sm text-slate-600 line-clamp-2 leading-relaxed">{entry.notes}</p>
+                      {entry.review && (
+                        <div className="mt-2 p-2 bg-teal-50/60 border border-teal-100 rounded-lg text-xs">
+                          <p className="font-semibold text-slate-800">
+                            {currentFindings(entry.review).diagnosis} · {currentFindings(entry.review).severity} severity
+                          </p>
+                          {entry.review.findings && <p className="text-slate-600 mt-0.5">{entry.review.findings}</p>}
+                          {entry.review.addenda.map(a => <p key={a.id} className="text-slate-600 mt-0.5">Addendum: {a.text}</p>)}
+                          <p className="text-[10px] text-slate-400 mt-1">Reviewed by {entry.review.signedByName} · {new Date(entry.review.signedAt).toLocaleDateString()}</p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )) : (
@@ -449,57 +915,145 @@ const PatientInterface: React.FC<PatientInterfaceProps> = ({ onLogout, patientId
 
           {/* Chat Column */}
           <div className={`md:col-span-1 flex flex-col h-[calc(100vh-8rem)] md:h-[600px] bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden ${activeTab === 'dashboard' ? 'hidden md:flex' : ''}`}>
-            <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-                <h3 className="font-semibold text-slate-800">DermoBot AI</h3>
+            <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between gap-2">
+              {/* DermoBot or the care team */}
+              <div className="flex bg-slate-200 rounded-lg p-1 text-xs font-medium">
+                <button
+                  onClick={() => setChatMode('dermobot')}
+                  className={`px-3 py-1 rounded-md transition-all flex items-center gap-1.5 ${chatMode === 'dermobot' ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+                >
+                  <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
+                  DermoBot
+                </button>
+                <button
+                  onClick={() => setChatMode('doctor')}
+                  className={`px-3 py-1 rounded-md transition-all flex items-center gap-1.5 ${chatMode === 'doctor' ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+                >
+                  My Doctor
+                  {unreadDirectCount > 0 && (
+                    <span className="min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">{unreadDirectCount}</span>
+                  )}
+                </button>
               </div>
-              <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-medium">Personal Assistant</span>
+              {chatMode === 'dermobot' && (
+                <button
+                  onClick={() => setShowSharedContext(!showSharedContext)}
+                  className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full font-medium transition-colors ${showSharedContext ? 'bg-indigo-600 text-white' : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'}`}
+                  title="What DermoBot knows about you"
+                >
+                  <Eye className="w-3 h-3" />
+                  <span>Shared info</span>
+                </button>
+              )}
             </div>
 
-            <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50/50" ref={scrollRef}>
-              {messages.map((m) => (
-                <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                  <div className={`max-w-[85%] rounded-2xl p-3 text-sm leading-relaxed ${m.role === 'user'
-                    ? 'bg-teal-600 text-white rounded-br-none'
-                    : 'bg-white text-slate-700 shadow-sm border border-slate-100 rounded-bl-none'
-                    }`}>
-                    {m.text}
-                  </div>
-                </div>
-              ))}
-              {isTyping && (
-                <div className="flex justify-start">
-                  <div className="bg-white rounded-2xl rounded-bl-none p-3 shadow-sm border border-slate-100">
-                    <div className="flex gap-1">
-                      <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce"></div>
-                      <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce delay-100"></div>
-                      <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce delay-200"></div>
-                    </div>
-                  </div>
+            {chatMode === 'doctor' ? (
+              <DirectMessageThread
+                messages={directMessages}
+                viewer={user}
+                history={history}
+                canSend
+                onSend={handleSendDirectMessage}
+                accent="teal"
+                className="flex-1"
+              />
+            ) : (
+              <>
+              {showSharedContext && (
+                <div className="px-4 py-3 border-b border-slate-100 bg-indigo-50/50 text-xs text-slate-600 space-y-1">
+                  <p className="font-semibold text-slate-700">DermoBot is told only this about you:</p>
+                  {sharedContext.length > 0 ? (
+                    <ul className="space-y-0.5">
+                      {sharedContext.map(item => (
+                        <li key={item.field}><span className="font-medium text-slate-700">{item.label}:</span> {item.value}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="italic">Nothing from your record is shared.</p>
+                  )}
+                  <p className="text-slate-400">Your name, photos and notes are never shared. Your doctor chooses which fields are included.</p>
                 </div>
               )}
-            </div>
 
-            <div className="p-3 border-t border-slate-100 bg-white">
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  value={inputMsg}
-                  onChange={(e) => setInputMsg(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-                  placeholder="Type a message..."
-                  className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
-                />
+              {/* Conversation picker */}
+              <div className="px-4 py-2 border-b border-slate-100 bg-white flex items-center gap-2">
+                <select
+                  value={activeThread?.id ?? ''}
+                  onChange={(e) => handleSelectThread(e.target.value)}
+                  disabled={isTyping}
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                >
+                  {threads.map(t => (
+                    <option key={t.id} value={t.id}>{t.title} · {new Date(t.updatedAt).toLocaleDateString()}</option>
+                  ))}
+                </select>
                 <button
-                  onClick={handleSendMessage}
-                  disabled={!inputMsg.trim() || isTyping}
-                  className="bg-teal-600 text-white p-2 rounded-xl hover:bg-teal-700 transition-colors disabled:opacity-50"
+                  onClick={handleNewThread}
+                  disabled={isTyping}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100 transition-colors disabled:opacity-50"
+                  title="New conversation"
                 >
-                  <Send className="w-5 h-5" />
+                  <Plus className="w-3 h-3" />
+                  <span>New</span>
                 </button>
               </div>
-            </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50/50" ref={scrollRef}>
+                {messages.map((m) => (
+                  <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[85%] rounded-2xl p-3 text-sm leading-relaxed ${m.role === 'user'
+                      ? 'bg-teal-600 text-white rounded-br-none'
+                      : 'bg-white text-slate-700 shadow-sm border border-slate-100 rounded-bl-none'
+                      }`}>
+                      {m.text}
+                      {m.interrupted && <span className="block mt-1 text-xs italic text-slate-400">Reply stopped</span>}
+                    </div>
+                  </div>
+                ))}
+                {isTyping && messages[messages.length - 1]?.role === 'user' && (
+                  <div className="flex justify-start">
+                    <div className="bg-white rounded-2xl rounded-bl-none p-3 shadow-sm border border-slate-100">
+                      <div className="flex gap-1">
+                        <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce"></div>
+                        <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce delay-100"></div>
+                        <div className="w-2 h-2 bg-slate-300 rounded-full animate-bounce delay-200"></div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-3 border-t border-slate-100 bg-white">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={inputMsg}
+                    onChange={(e) => setInputMsg(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && !isTyping && handleSendMessage()}
+                    placeholder="Type a message..."
+                    className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+                  />
+                  {isTyping ? (
+                    <button
+                      onClick={handleStopReply}
+                      className="bg-slate-800 text-white p-2 rounded-xl hover:bg-slate-700 transition-colors"
+                      title="Stop reply"
+                    >
+                      <Square className="w-5 h-5" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSendMessage}
+                      disabled={!inputMsg.trim() || !activeThread}
+                      className="bg-teal-600 text-white p-2 rounded-xl hover:bg-teal-700 transition-colors disabled:opacity-50"
+                    >
+                      <Send className="w-5 h-5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              </>
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,41 @@
+import { CareTeamMember, CareTeamRole, PatientRecord, User, UserRole } from '../types';
+
+// What a user may do with one PatientRecord, in increasing order
+export type AccessLevel = 'none' | 'read' | 'write' | 'manage';
+
+const LEVEL_RANK: Record<AccessLevel, number> = { none: 0, read: 1, write: 2, manage: 3 };
+
+const ROLE_ACCESS: Record<CareTeamRole, AccessLevel> = {
+  primary: 'manage',
+  consulting: 'write',
+  'read-only': 'read'
+};
+
+export class AccessDeniedError extends Error {
+  constructor(public patientId: string, public required: AccessLevel) {
+    super(`Not permitted to ${required} patient record ${patientId}`);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export const accessLevel = (user: User, patient: Pick<PatientRecord, 'id' | 'careTeam'>): AccessLevel => {
+  if (user.role === UserRole.PATIENT) {
+    // Patients add photos and messages to their own record only
+    return user.patientId === patient.id ? 'write' : 'none';
+  }
+  if (user.role === UserRole.DOCTOR) {
+    const member = patient.careTeam.find(m => m.doctorId === user.id);
+    return member ? ROLE_ACCESS[member.role] : 'none';
+  }
+  return 'none';
+};
+
+export const hasAccess = (user: User, patient: Pick<PatientRecord, 'id' | 'careTeam'>, required: AccessLevel) =>
+  LEVEL_RANK[accessLevel(user, patient)] >= LEVEL_RANK[required];
+
+// A care team must always keep at least one primary doctor
+export const validateCareTeam = (careTeam: CareTeamMember[]): string | null => {
+  if (!careTeam.some(m => m.role === 'primary')) return 'A care team needs at least one primary doctor';
+  if (new Set(careTeam.map(m => m.doctorId)).size !== careTeam.length) return 'A doctor can only appear once in a care team';
+  return null;
+};
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { findPatientAccount, issueClinicianInvite, issueEnrolmentCode, registerDoctor, registerPatient } from './accountService';
+import { User, UserRole } from '../types';
+import { getPatientRepository } from './storageService';
+
+describe('patient enrolment', () => {
+  let patientId: string;
+
+  beforeEach(async () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    });
+    const patient = await getPatientRepository().addPatient({
+      name: 'New Patient', age: 40, condition: 'Unknown', status: 'Stable', lastUpdate: 'Just now', img: ''
+    });
+    patientId = patient.id;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('gives new patients unguessable IDs', () => {
+    expect(patientId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+  });
+
+  it('registers with the clinic-issued code and the contact it was issued for', async () => {
+    const { code } = await issueEnrolmentCode(patientId, ' New.Patient@Example.com ');
+    expect(code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+
+    const user = await registerPatient({ name: 'New Patient', patientId, enrolmentCode: code.toLowerCase() });
+    expect(user.email).toBe('new.patient@example.com');
+    expect((await findPatientAccount(patientId))?.id).toBe(user.id);
+  });
+
+  it('refuses a Patient ID without a matching code', async () => {
+    await expect(registerPatient({ name: 'Intruder', patientId, enrolmentCode: 'AAAA-AAAA' })).rejects.toThrow(/do not match/);
+    await issueEnrolmentCode(patientId, 'new.patient@example.com');
+    await expect(registerPatient({ name: 'Intruder', patientId, enrolmentCode: 'AAAA-AAAA' })).rejects.toThrow(/do not match/);
+    expect(await findPatientAccount(patientId)).toBeUndefined();
+  });
+
+  it('accepts each code once, and only until it expires', async () => {
+    const { code } = await issueEnrolmentCode(patientId, 'new.patient@example.com');
+    await registerPatient({ name: 'New Patient', patientId, enrolmentCode: code });
+    await expect(registerPatient({ name: 'Again', patientId, enrolmentCode: code })).rejects.toThrow(/do not match/);
+
+    const other = await getPatientRepository().addPatient({
+      name: 'Late Patient', age: 30, condition: 'Unknown', status: 'Stable', lastUpdate: 'Just now', img: ''
+    });
+    const expired = await issueEnrolmentCode(other.id, 'late@example.com', new Date(Date.now() - 15 * 24 * 60 * 60 * 1000));
+    await expect(registerPatient({ name: 'Late Patient', patientId: other.id, enrolmentCode: expired.code })).rejects.toThrow(/do not match/);
+  });
+});
+
+describe('clinician invites', () => {
+  const inviter: User = { id: 'doc-1', email: 'miller@dermolink.ai', name: 'Dr. S. Miller', role: UserRole.DOCTOR, createdAt: '2025-01-01T00:00:00Z' };
+  const details = (inviteCode: string, email = 'new.doctor@example.com') =>
+    ({ name: 'Dr. New', email, password: 'long enough password', inviteCode });
+
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('registers a clinician with the invite issued to their email', async () => {
+    const { code } = await issueClinicianInvite(inviter, ' New.Doctor@Example.com ');
+    const user = await registerDoctor(details(code.replace('-', '').toLowerCase()));
+    expect(user).toMatchObject({ email: 'new.doctor@example.com', role: UserRole.DOCTOR });
+  });
+
+  it('refuses registration without an invite, or with one for another email', async () => {
+    await expect(registerDoctor(details('AAAA-AAAA'))).rejects.toThrow(/do not match/);
+    const { code } = await issueClinicianInvite(inviter, 'new.doctor@example.com');
+    await expect(registerDoctor(details(code, 'someone.else@example.com'))).rejects.toThrow(/do not match/);
+  });
+
+  it('accepts each invite once, and only until it expires', async () => {
+    const { code } = await issueClinicianInvite(inviter, 'new.doctor@example.com');
+    await registerDoctor(details(code));
+    await expect(registerDoctor(details(code))).rejects.toThrow(/do not match/);
+
+    const expired = await issueClinicianInvite(inviter, 'late@example.com', new Date(Date.now() - 15 * 24 * 60 * 60 * 1000));
+    await expect(registerDoctor(details(expired.code, 'late@example.com'))).rejects.toThrow(/do not match/);
+  });
+
+  it('only lets clinicians invite, and not to an existing account', async () => {
+    await expect(issueClinicianInvite({ ...inviter, role: UserRole.PATIENT }, 'new.doctor@example.com')).rejects.toThrow(/Only clinicians/);
+    await expect(issueClinicianInvite(inviter, 'miller@dermolink.ai')).rejects.toThrow(/already exists/);
+  });
+});
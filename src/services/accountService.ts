@@ -0,0 +1,186 @@
+import { User, UserRole } from '../types';
+import { hashPassword, verifyPassword } from './auth/passwords';
+import { randomBytes, sha256, timingSafeEqual } from './auth/encoding';
+import { getPatientRepository } from './storageService';
+
+const USERS_KEY = 'DERMOLINK_USERS';
+const ENROLMENTS_KEY = 'DERMOLINK_ENROLMENTS';
+const CLINICIAN_INVITES_KEY = 'DERMOLINK_CLINICIAN_INVITES';
+const MIN_PASSWORD_LENGTH = 8;
+const ENROLMENT_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const ENROLMENT_CODE_LENGTH = 8;
+const ENROLMENT_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // 32 symbols, none easily misread
+
+// Enrolment codes and clinician invites are checked in this browser against hashes in
+// localStorage, like every account here. They stop people signing up without being
+// asked, not anyone with access to the device or its storage; a real deployment has
+// to issue and check them on a server.
+
+// Demo accounts created on first run. Passwords are hashed before they are stored.
+const SEED_ACCOUNTS: { user: Omit<User, 'password' | 'createdAt'>, password?: string }[] = [
+  { user: { id: 'doc-1', email: 'miller@dermolink.ai', name: 'Dr. S. Miller', role: UserRole.DOCTOR }, password: 'dermolink-demo' },
+  { user: { id: 'pat-1', email: 'alice.johnson@example.com', name: 'Alice Johnson', role: UserRole.PATIENT, patientId: '1' } },
+  { user: { id: 'pat-2', email: 'robert.smith@example.com', name: 'Robert Smith', role: UserRole.PATIENT, patientId: '2' } },
+  { user: { id: 'pat-3', email: 'maria.garcia@example.com', name: 'Maria Garcia', role: UserRole.PATIENT, patientId: '3' } },
+];
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const writeUsers = (users: User[]) => {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+};
+
+const readUsers = async (): Promise<User[]> => {
+  const stored = localStorage.getItem(USERS_KEY);
+  if (stored) return JSON.parse(stored);
+
+  const createdAt = new Date().toISOString();
+  const users = await Promise.all(SEED_ACCOUNTS.map(async ({ user, password }) => ({
+    ...user,
+    createdAt,
+    password: password ? await hashPassword(password) : undefined
+  })));
+  writeUsers(users);
+  return users;
+};
+
+const addUser = async (user: User): Promise<User> => {
+  const users = await readUsers();
+  if (users.some(u => u.email === user.email)) {
+    throw new Error('An account with this email already exists');
+  }
+  if (user.patientId && users.some(u => u.patientId === user.patientId)) {
+    throw new Error('This Patient ID is already registered');
+  }
+  writeUsers([...users, user]);
+  return user;
+};
+
+// 256 is a multiple of the alphabet size, so every symbol is equally likely
+const newCode = () => Array.from(randomBytes(ENROLMENT_CODE_LENGTH), b => ENROLMENT_ALPHABET[b % ENROLMENT_ALPHABET.length]).join('');
+
+const normalizeCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+const formatCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+// Issued by a doctor to a colleague's email. Only a hash is kept, and the code works once.
+interface ClinicianInvite {
+  email: string;
+  codeHash: string;
+  invitedBy: string; // User.id of the doctor
+  expiresAt: number;
+}
+
+const readInvites = (): ClinicianInvite[] => JSON.parse(localStorage.getItem(CLINICIAN_INVITES_KEY) || '[]');
+
+const writeInvites = (invites: ClinicianInvite[]) => {
+  localStorage.setItem(CLINICIAN_INVITES_KEY, JSON.stringify(invites));
+};
+
+const inviteHash = (email: string, code: string) => sha256(`clinician:${email}:${normalizeCode(code)}`);
+
+// Replaces any earlier invite for the email. Returns the code for the doctor to pass on.
+export const issueClinicianInvite = async (invitedBy: User, email: string, now: Date = new Date()): Promise<{ code: string, expiresAt: Date }> => {
+  if (invitedBy.role !== UserRole.DOCTOR) throw new Error('Only clinicians can invite clinicians');
+  const normalized = normalizeEmail(email);
+  if ((await readUsers()).some(u => u.email === normalized)) throw new Error('An account with this email already exists');
+  const code = newCode();
+  const expiresAt = new Date(now.getTime() + ENROLMENT_TTL_MS);
+  const invite: ClinicianInvite = { email: normalized, codeHash: await inviteHash(normalized, code), invitedBy: invitedBy.id, expiresAt: expiresAt.getTime() };
+  writeInvites([...readInvites().filter(i => i.email !== normalized), invite]);
+  return { code: formatCode(code), expiresAt };
+};
+
+// Clinicians can only join with an invite from an existing doctor, issued to the same email
+export const registerDoctor = async (details: { name: string, email: string, password: string, inviteCode: string }): Promise<User> => {
+  if (details.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const email = normalizeEmail(details.email);
+  const invite = readInvites().find(i => i.email === email);
+  const codeHash = await inviteHash(email, details.inviteCode);
+  if (!invite || !timingSafeEqual(codeHash, invite.codeHash) || Date.now() > invite.expiresAt) {
+    throw new Error('This email and invite code do not match. Please ask the clinician who invited you.');
+  }
+  const user = await addUser({
+    id: crypto.randomUUID(),
+    email,
+    name: details.name.trim(),
+    role: UserRole.DOCTOR,
+    createdAt: new Date().toISOString(),
+    password: await hashPassword(details.password)
+  });
+  writeInvites(readInvites().filter(i => i.email !== email));
+  return user;
+};
+
+// Handed to the patient by the clinic along with their Patient ID. Only a hash is kept;
+// the code works once, and the contact it was issued for receives the sign-in codes.
+interface Enrolment {
+  patientId: string;
+  codeHash: string;
+  contact: string;
+  expiresAt: number;
+}
+
+const readEnrolments = (): Enrolment[] => JSON.parse(localStorage.getItem(ENROLMENTS_KEY) || '[]');
+
+const writeEnrolments = (enrolments: Enrolment[]) => {
+  localStorage.setItem(ENROLMENTS_KEY, JSON.stringify(enrolments));
+};
+
+const enrolmentHash = (patientId: string, code: string) =>
+  sha256(`${patientId}:${normalizeCode(code)}`);
+
+// Replaces any earlier code for the patient. Returns the code for the clinic to hand over.
+export const issueEnrolmentCode = async (patientId: string, contact: string, now: Date = new Date()): Promise<{ code: string, expiresAt: Date }> => {
+  const code = newCode();
+  const expiresAt = new Date(now.getTime() + ENROLMENT_TTL_MS);
+  const enrolment: Enrolment = { patientId, codeHash: await enrolmentHash(patientId, code), contact: normalizeEmail(contact), expiresAt: expiresAt.getTime() };
+  writeEnrolments([...readEnrolments().filter(e => e.patientId !== patientId), enrolment]);
+  return { code: formatCode(code), expiresAt };
+};
+
+// Patients claim the record their clinic created for them with its enrolment code, then sign in by OTP
+export const registerPatient = async (details: { name: string, patientId: string, enrolmentCode: string }): Promise<User> => {
+  const patientId = details.patientId.trim();
+  const enrolment = readEnrolments().find(e => e.patientId === patientId);
+  // Hash even without an enrolment so response time does not reveal which IDs exist
+  const codeHash = await enrolmentHash(patientId, details.enrolmentCode);
+  if (!enrolment || !timingSafeEqual(codeHash, enrolment.codeHash) || Date.now() > enrolment.expiresAt ||
+    !(await getPatientRepository().getPatient(patientId))) {
+    throw new Error('This Patient ID and enrolment code do not match. Please check with your clinic.');
+  }
+  const user = await addUser({
+    id: crypto.randomUUID(),
+    email: enrolment.contact,
+    name: details.name.trim(),
+    role: UserRole.PATIENT,
+    createdAt: new Date().toISOString(),
+    patientId
+  });
+  writeEnrolments(readEnrolments().filter(e => e.patientId !== patientId));
+  return user;
+};
+
+export const authenticateDoctor = async (email: string, password: string): Promise<User | null> => {
+  const user = (await readUsers()).find(u => u.role === UserRole.DOCTOR && u.email === normalizeEmail(email));
+  if (!user?.password) {
+    // Hash anyway so response time does not reveal which emails exist
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, user.password)) ? user : null;
+};
+
+export const findPatientAccount = async (patientId: string): Promise<User | undefined> =>
+  (await readUsers()).find(u => u.role === UserRole.PATIENT && u.patientId === patientId.trim());
+
+export const getUser = async (id: string): Promise<User | undefined> =>
+  (await readUsers()).find(u => u.id === id);
+
+// Strip credentials before a user object leaves this module for the session
+export const toPublicUser = ({ password, ...user }: User): User => user;
+
+export const listDoctors = async (): Promise<User[]> =>
+  (await readUsers()).filter(u => u.role === UserRole.DOCTOR).map(toPublicUser);
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { computeAdherence, formatRate, isLowAdherence, lowAdherenceAlerts } from './adherence';
+import { Occurrence, doseEvent, occurrencesBetween } from './scheduling';
+import { CarePlan, DoseEvent, PatientRecord } from '../types';
+
+const plan = (overrides: Partial<CarePlan> = {}): CarePlan => ({
+  timezone: 'Europe/Berlin',
+  items: [{ id: 'cream', kind: 'medication', name: 'Cream', times: ['08:00'], days: [0, 1, 2, 3, 4, 5, 6], requiresPhoto: false }],
+  snoozeMinutes: 10,
+  maxSnoozes: 3,
+  graceMinutes: 60,
+  updatedAt: '2025-03-20T00:00:00Z',
+  updatedBy: 'doc-1',
+  ...overrides
+});
+
+const at = (iso: string) => new Date(iso);
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+// Every dose in [from, now) recorded ten minutes late, except the ones skipped
+const takeDoses = (p: CarePlan, now: Date, skip: (o: Occurrence) => boolean = () => false): DoseEvent[] =>
+  occurrencesBetween(p, new Date(p.updatedAt), now)
+    .filter(o => !skip(o) && minutesAfter(o.scheduledAt, 10) < now)
+    .map(o => doseEvent(o, 'taken', minutesAfter(o.scheduledAt, 10)));
+
+describe('computeAdherence', () => {
+  it('counts each day once across a clock change and keeps the dose in one slot', () => {
+    const p = plan();
+    const now = at('2025-04-02T12:00:00Z');
+    // Missed on the day the clocks go forward (a Sunday) and the Monday after
+    const skipped = ['2025-03-30T06:00:00.000Z', '2025-03-31T06:00:00.000Z'];
+    const summary = computeAdherence(p, takeDoses(p, now, o => skipped.includes(o.scheduledAt.toISOString())), now);
+
+    expect(summary.days).toHaveLength(14);
+    expect(summary.days.every(d => d.scheduled === 1)).toBe(true);
+    expect(summary.days.find(d => d.date === '2025-03-30')).toMatchObject({ taken: 0, missed: 1 });
+    expect(summary).toMatchObject({ settled: 14, taken: 12, missed: 2, pending: 0, currentStreak: 2, longestStreak: 10 });
+    expect(summary.rate).toBeCloseTo(12 / 14);
+    expect(summary.averageResponseMinutes).toBe(10);
+    expect(summary.missedByWeekday).toEqual([1, 1, 0, 0, 0, 0, 0]);
+    expect(summary.missedSlots).toEqual([{ itemId: 'cream', name: 'Cream', time: '08:00', scheduled: 14, missed: 2 }]);
+  });
+
+  it('groups doses by calendar day in the plan timezone', () => {
+    // 07:00 in Auckland is 19:00 UTC the day before
+    const p = plan({ timezone: 'Pacific/Auckland', updatedAt: '2025-06-01T00:00:00Z', items: [{ ...plan().items[0], times: ['07:00'] }] });
+    const now = at('2025-06-03T12:00:00Z');
+    const summary = computeAdherence(p, takeDoses(p, now), now);
+    expect(summary.days.map(d => [d.date, d.taken])).toEqual([['2025-06-01', 0], ['2025-06-02', 1], ['2025-06-03', 1], ['2025-06-04', 0]]);
+    expect(summary.days[0].scheduled).toBe(0); // 07:00 on June 1 was before the plan changed
+  });
+
+  it('leaves due and snoozed doses out of the rate', () => {
+    const p = plan({ timezone: 'UTC', updatedAt: '2025-05-01T00:00:00Z' });
+    const now = at('2025-05-02T08:30:00Z');
+    const [first, second] = occurrencesBetween(p, new Date(p.updatedAt), now);
+    const events = [doseEvent(first, 'taken', minutesAfter(first.scheduledAt, 5)), doseEvent(second, 'snoozed', minutesAfter(second.scheduledAt, 25))];
+    const summary = computeAdherence(p, events, now);
+
+    expect(summary).toMatchObject({ settled: 1, taken: 1, missed: 0, pending: 1, rate: 1, averageResponseMinutes: 5 });
+    // Today is still in progress, so it neither extends nor breaks the streak
+    expect(summary.currentStreak).toBe(1);
+  });
+
+  it('measures the response from when the alarm rang', () => {
+    const p = plan({ timezone: 'UTC', updatedAt: '2025-05-01T00:00:00Z' });
+    const now = at('2025-05-01T12:00:00Z');
+    const [dose] = occurrencesBetween(p, new Date(p.updatedAt), now);
+    const events = [doseEvent(dose, 'taken', minutesAfter(dose.scheduledAt, 30), { alarmAt: minutesAfter(dose.scheduledAt, 20).toISOString() })];
+    expect(computeAdherence(p, events, now).averageResponseMinutes).toBe(10);
+  });
+
+  it('starts counting when the plan last changed', () => {
+    const p = plan({ timezone: 'UTC', updatedAt: '2025-05-09T09:00:00Z' });
+    const summary = computeAdherence(p, [], at('2025-05-10T12:00:00Z'));
+    expect(summary).toMatchObject({ settled: 1, missed: 1, rate: 0 });
+    expect(formatRate(summary.rate)).toBe('0%');
+    expect(formatRate(computeAdherence(p, [], at('2025-05-09T12:00:00Z')).rate)).toBe('—');
+  });
+});
+
+describe('low adherence alerts', () => {
+  const p = plan({ timezone: 'UTC', updatedAt: '2025-05-01T00:00:00Z' });
+  const now = at('2025-05-10T12:00:00Z'); // Ten settled doses
+  const missingFirst = (count: number) =>
+    takeDoses(p, now, o => o.scheduledAt < at(`2025-05-${String(count + 1).padStart(2, '0')}T00:00:00Z`));
+
+  it('alerts below the threshold, not at it', () => {
+    expect(isLowAdherence(computeAdherence(p, missingFirst(3), now))).toBe(false); // 70%
+    expect(isLowAdherence(computeAdherence(p, missingFirst(4), now))).toBe(true); // 60%
+  });
+
+  it('waits for enough settled doses before alerting', () => {
+    const early = at('2025-05-04T12:00:00Z');
+    const summary = computeAdherence(p, [], early);
+    expect(summary).toMatchObject({ settled: 4, rate: 0 });
+    expect(isLowAdherence(summary)).toBe(false);
+  });
+
+  it('keys each alert by patient and day in the plan timezone', () => {
+    const patient = (id: string, carePlan: CarePlan | undefined, doseLog: DoseEvent[] = []) =>
+      ({ id, carePlan, doseLog } as PatientRecord);
+    const auckland = { ...p, timezone: 'Pacific/Auckland' };
+    const alerts = lowAdherenceAlerts([
+      patient('low', auckland),
+      patient('fine', p, takeDoses(p, now)),
+      patient('no-plan', undefined)
+    ], now);
+    // 12:00 UTC on May 10 is already May 11 in Auckland
+    expect(alerts.map(a => a.key)).toEqual(['low:2025-05-11']);
+  });
+});
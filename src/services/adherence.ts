@@ -0,0 +1,146 @@
+import { CarePlan, DoseEvent, PatientRecord } from '../types';
+import { Occurrence, formatInZone, occurrenceStatus, occurrencesBetween, zonedParts } from './scheduling';
+
+// Adherence is computed from the care plan and the dose log, never from history
+// notes. Like missed-dose detection, it only looks at occurrences scheduled
+// since the plan last changed, because earlier ones cannot be reconstructed.
+
+export const ADHERENCE_WINDOW_DAYS = 14;
+export const LOW_ADHERENCE_THRESHOLD = 0.7;
+const MIN_SETTLED_FOR_ALERT = 5; // One missed dose on a new plan is not a pattern
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AdherenceDay {
+  date: string; // YYYY-MM-DD in the plan's timezone
+  scheduled: number;
+  taken: number;
+  missed: number;
+  pending: number; // Upcoming, due or snoozed
+}
+
+// One recurring time of one item, e.g. the 20:00 dose of a cream
+export interface MissedSlot {
+  itemId: string;
+  name: string;
+  time: string;
+  scheduled: number;
+  missed: number;
+}
+
+export interface AdherenceSummary {
+  settled: number; // Occurrences that are taken or missed
+  taken: number;
+  missed: number;
+  pending: number;
+  rate: number | null; // Taken / settled, null until something has settled
+  averageResponseMinutes: number | null; // From the alarm (or scheduled time) to the dose being recorded
+  currentStreak: number; // Days in a row with every dose taken
+  longestStreak: number;
+  days: AdherenceDay[]; // Oldest first, one per calendar day of the window
+  missedByWeekday: number[]; // Index 0 = Sunday
+  missedSlots: MissedSlot[]; // Worst first; only slots missed at least once
+}
+
+const dayKey = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+const windowDays = (from: Date, now: Date, timeZone: string) => {
+  const keys = new Set<string>();
+  for (let t = from.getTime(); t < now.getTime(); t += DAY_MS / 2) keys.add(dayKey(new Date(t), timeZone));
+  keys.add(dayKey(now, timeZone));
+  return [...keys];
+};
+
+const streaks = (days: AdherenceDay[]) => {
+  let longest = 0;
+  let run = 0;
+  for (const day of days) {
+    if (day.missed > 0) run = 0;
+    else if (day.taken > 0 && day.pending === 0) longest = Math.max(longest, ++run);
+  }
+
+  // Count back from today; a day still in progress neither extends nor breaks the streak
+  let current = 0;
+  for (const day of [...days].reverse()) {
+    if (day.missed > 0) break;
+    if (day.pending > 0 || day.taken === 0) continue;
+    current++;
+  }
+  return { current, longest };
+};
+
+const responseMinutes = (event: DoseEvent) => {
+  const from = new Date(event.alarmAt ?? event.scheduledAt).getTime();
+  return Math.max(0, (new Date(event.at).getTime() - from) / 60000);
+};
+
+export const computeAdherence = (plan: CarePlan, events: DoseEvent[], now: Date, windowDaysCount = ADHERENCE_WINDOW_DAYS): AdherenceSummary => {
+  const from = new Date(Math.max(now.getTime() - windowDaysCount * DAY_MS, new Date(plan.updatedAt).getTime()));
+  const occurrences = occurrencesBetween(plan, from, now);
+  const days = new Map(windowDays(from, now, plan.timezone).map(date => [date, { date, scheduled: 0, taken: 0, missed: 0, pending: 0 }]));
+  const slots = new Map<string, MissedSlot>();
+  const missedByWeekday = [0, 0, 0, 0, 0, 0, 0];
+  const takenOccurrences: Occurrence[] = [];
+
+  for (const occurrence of occurrences) {
+    const status = occurrenceStatus(occurrence, events, plan, now);
+    const day = days.get(dayKey(occurrence.scheduledAt, plan.timezone));
+    const time = formatInZone(occurrence.scheduledAt, plan.timezone);
+    const slotKey = `${occurrence.item.id}@${time}`;
+    const slot = slots.get(slotKey) ?? { itemId: occurrence.item.id, name: occurrence.item.name, time, scheduled: 0, missed: 0 };
+    slots.set(slotKey, slot);
+    if (day) day.scheduled++;
+
+    if (status === 'taken') {
+      slot.scheduled++;
+      if (day) day.taken++;
+      takenOccurrences.push(occurrence);
+    } else if (status === 'missed') {
+      slot.scheduled++;
+      slot.missed++;
+      if (day) day.missed++;
+      missedByWeekday[zonedParts(occurrence.scheduledAt, plan.timezone).weekday]++;
+    } else if (day) {
+      day.pending++;
+    }
+  }
+
+  const dayList = [...days.values()];
+  const taken = dayList.reduce((sum, d) => sum + d.taken, 0);
+  const missed = dayList.reduce((sum, d) => sum + d.missed, 0);
+  const takenIds = new Set(takenOccurrences.map(o => o.id));
+  const responses = events.filter(e => e.action === 'taken' && takenIds.has(e.occurrenceId)).map(responseMinutes);
+  const { current, longest } = streaks(dayList);
+
+  return {
+    settled: taken + missed,
+    taken,
+    missed,
+    pending: dayList.reduce((sum, d) => sum + d.pending, 0),
+    rate: taken + missed > 0 ? taken / (taken + missed) : null,
+    averageResponseMinutes: responses.length > 0 ? responses.reduce((a, b) => a + b, 0) / responses.length : null,
+    currentStreak: current,
+    longestStreak: longest,
+    days: dayList,
+    missedByWeekday,
+    missedSlots: [...slots.values()]
+      .filter(s => s.missed > 0)
+      .sort((a, b) => b.missed / b.scheduled - a.missed / a.scheduled || b.missed - a.missed)
+  };
+};
+
+export const isLowAdherence = (summary: AdherenceSummary) =>
+  summary.rate !== null && summary.settled >= MIN_SETTLED_FOR_ALERT && summary.rate < LOW_ADHERENCE_THRESHOLD;
+
+// Patients below the threshold, keyed per patient per day so each one alerts a doctor at most daily
+export const lowAdherenceAlerts = (patients: PatientRecord[], now: Date) =>
+  patients.flatMap(patient => {
+    if (!patient.carePlan || patient.carePlan.items.length === 0) return [];
+    const summary = computeAdherence(patient.carePlan, patient.doseLog ?? [], now);
+    if (!isLowAdherence(summary)) return [];
+    return [{ key: `${patient.id}:${dayKey(now, patient.carePlan.timezone)}`, patient, summary }];
+  });
+
+export const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
@@ -0,0 +1,81 @@
+import { AnalysisResult } from '../../types';
+import { AnalysisProvider, LESION_CLASSES, StreamOptions, StreamedReply, severityFor } from './provider';
+
+// Deterministic stand-in for tests and demos without an API key: the same input
+// always gives the same output, and nothing leaves the page. Any method can be
+// overridden, e.g. to make classify return a fixed result or simulate failures.
+
+// FNV-1a, so results depend on the image content rather than on call order
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+export const fakeClassification = (imageBase64: string): AnalysisResult => {
+  const seed = hash(imageBase64);
+  const weights = LESION_CLASSES.map((_, i) => ((seed >>> (i * 4)) & 0xf) + 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  const probabilities: Record<string, number> = {};
+  LESION_CLASSES.forEach((label, i) => { probabilities[label] = Math.round(weights[i] / total * 1000) / 1000; });
+  const [diagnosis, confidence] = Object.entries(probabilities).sort(([, a], [, b]) => b - a)[0];
+  return {
+    diagnosis,
+    confidence,
+    probabilities,
+    severity: severityFor(probabilities),
+    recommendations: ['Fake provider result; not a diagnosis'],
+    features: [`Fingerprint ${seed.toString(16)}`]
+  };
+};
+
+export const fakeReply = (message: string) => `(fake) You said: ${message}`;
+
+export const createFakeProvider = (overrides: Partial<AnalysisProvider> = {}): AnalysisProvider => ({
+  id: 'fake',
+  name: 'Fake provider',
+  offline: true,
+
+  async checkAvailable() {},
+
+  async classify(imageBase64: string) {
+    return fakeClassification(imageBase64);
+  },
+
+  async clean(imageBase64: string) {
+    return imageBase64; // Unchanged, so tests can assert what was saved
+  },
+
+  async verifySkinPhoto() {
+    return true;
+  },
+
+  async chat(_history, message: string) {
+    return fakeReply(message);
+  },
+
+  // Emits the reply word by word, so streaming and abort handling can be exercised
+  async streamChat(_history, message: string, _context, options: StreamOptions = {}): Promise<StreamedReply> {
+    let text = '';
+    for (const word of fakeReply(message).split(' ')) {
+      if (options.signal?.aborted) return { text, status: 'aborted' };
+      text += text ? ` ${word}` : word;
+      options.onText?.(text);
+      await Promise.resolve();
+    }
+    return { text, status: 'complete' };
+  },
+
+  async summarizeConversation(messages, previousSummary) {
+    return [previousSummary, `${messages.length} earlier message(s)`].filter(Boolean).join(' ');
+  },
+
+  async assessUrgency() {
+    return { urgent: false, reason: '' };
+  },
+
+  ...overrides
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { AnalyzedView, fuseAnalyses } from './fusion';
+import { validateAnalysis } from './validation';
+import { ImageView } from '../../types';
+
+const analyzed = (view: ImageView, probabilities: Record<string, number>, severity: string, imageId?: string): AnalyzedView => {
+  const diagnosis = Object.entries(probabilities).sort(([, a], [, b]) => b - a)[0][0];
+  return {
+    ...(imageId && { imageId }),
+    view,
+    result: validateAnalysis({ diagnosis, probabilities, severity, recommendations: [`Check ${view}`, 'Monitor'], features: [`${view} feature`] })
+  };
+};
+
+describe('fuseAnalyses', () => {
+  it('returns a single view unchanged', () => {
+    const only = analyzed('macro', { Melanoma: 0.2, 'Melanocytic Nevus': 0.8 }, 'Low');
+    expect(fuseAnalyses([only])).toBe(only.result);
+  });
+
+  it('weights the probabilities towards the more detailed views', () => {
+    // Dermoscopy (weight 1) says melanoma; the overview (weight 0.3) says nevus
+    const fused = fuseAnalyses([
+      analyzed('overview', { Melanoma: 0.1, 'Melanocytic Nevus': 0.9 }, 'Low'),
+      analyzed('dermoscopy', { Melanoma: 0.7, 'Melanocytic Nevus': 0.3 }, 'High')
+    ]);
+    expect(fused.diagnosis).toBe('Melanoma');
+    expect(fused.probabilities['Melanoma']).toBe(0.5615); // (0.7 + 0.3 × 0.1) / 1.3
+    expect(fused.confidence).toBe(fused.probabilities['Melanoma']);
+    expect(Object.values(fused.probabilities).reduce((a, b) => a + b, 0)).toBeCloseTo(1, 3);
+  });
+
+  it('keeps the highest severity any view reported', () => {
+    const fused = fuseAnalyses([
+      analyzed('dermoscopy', { 'Melanocytic Nevus': 0.9, Melanoma: 0.1 }, 'Low'),
+      analyzed('macro', { 'Melanocytic Nevus': 0.8, Melanoma: 0.2 }, 'Low'),
+      analyzed('overview', { 'Melanocytic Nevus': 0.6, Melanoma: 0.4 }, 'High')
+    ]);
+    expect(fused.diagnosis).toBe('Melanocytic Nevus');
+    expect(fused.severity).toBe('High');
+  });
+
+  it('lists each view, most detailed first, with its own result', () => {
+    const fused = fuseAnalyses([
+      analyzed('overview', { 'Benign Keratosis': 1 }, 'Low', 'img-1'),
+      analyzed('dermoscopy', { Melanoma: 1 }, 'Critical', 'img-2'),
+      analyzed('other', { Dermatofibroma: 1 }, 'Low')
+    ]);
+    expect(fused.views).toEqual([
+      { imageId: 'img-2', view: 'dermoscopy', diagnosis: 'Melanoma', confidence: 1, severity: 'Critical' },
+      { view: 'other', diagnosis: 'Dermatofibroma', confidence: 1, severity: 'Low' },
+      { imageId: 'img-1', view: 'overview', diagnosis: 'Benign Keratosis', confidence: 1, severity: 'Low' }
+    ]);
+    expect(fused.recommendations).toEqual(['Check dermoscopy', 'Monitor', 'Check other', 'Check overview']);
+    expect(fused.features).toEqual(['Dermoscopy: dermoscopy feature', 'Other: other feature', 'Overview: overview feature']);
+  });
+
+  it('refuses to fuse nothing', () => {
+    expect(() => fuseAnalyses([])).toThrow('No views to fuse');
+  });
+});
@@ -0,0 +1,63 @@
+import { AnalysisResult, ImageView } from '../../types';
+import { VIEW_LABELS } from '../imageViews';
+import { LESION_CLASSES } from './provider';
+import { SEVERITIES } from './validation';
+
+// Combines the validated results of several views of one lesion into one result.
+// Class probabilities are a weighted mean, so views showing more detail count for
+// more; severity is the highest any view reported, so a finding seen in only one
+// view is not averaged away.
+
+export interface AnalysisView {
+  imageId?: string;
+  view: ImageView;
+  imageBase64: string;
+}
+
+export interface AnalyzedView {
+  imageId?: string;
+  view: ImageView;
+  result: AnalysisResult;
+}
+
+export const VIEW_WEIGHTS: Record<ImageView, number> = {
+  dermoscopy: 1,
+  macro: 0.7,
+  other: 0.5,
+  overview: 0.3
+};
+
+const unique = (items: string[]) => [...new Set(items)];
+
+export const fuseAnalyses = (analyzed: AnalyzedView[]): AnalysisResult => {
+  if (analyzed.length === 0) throw new Error('No views to fuse');
+  if (analyzed.length === 1) return analyzed[0].result;
+
+  // Most informative view first, so its recommendations and features lead
+  const ordered = [...analyzed].sort((a, b) => VIEW_WEIGHTS[b.view] - VIEW_WEIGHTS[a.view]);
+  const totalWeight = ordered.reduce((sum, a) => sum + VIEW_WEIGHTS[a.view], 0);
+
+  const probabilities: Record<string, number> = {};
+  LESION_CLASSES.forEach(c => {
+    const weighted = ordered.reduce((sum, a) => sum + VIEW_WEIGHTS[a.view] * (a.result.probabilities[c] ?? 0), 0);
+    probabilities[c] = Math.round(weighted / totalWeight * 10000) / 10000;
+  });
+  const [diagnosis, confidence] = Object.entries(probabilities).sort(([, x], [, y]) => y - x)[0];
+  const severity = SEVERITIES[Math.max(...ordered.map(a => SEVERITIES.indexOf(a.result.severity as typeof SEVERITIES[number])))];
+
+  return {
+    diagnosis,
+    confidence,
+    probabilities,
+    severity,
+    recommendations: unique(ordered.flatMap(a => a.result.recommendations)),
+    features: unique(ordered.flatMap(a => a.result.features.map(f => `${VIEW_LABELS[a.view]}: ${f}`))),
+    views: ordered.map(a => ({
+      ...(a.imageId && { imageId: a.imageId }),
+      view: a.view,
+      diagnosis: a.result.diagnosis,
+      confidence: a.result.confidence,
+      severity: a.result.severity
+    }))
+  };
+};
@@ -0,0 +1,253 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import {
+  AnalysisProvider, ChatContext, ChatHistory, StreamOptions, StreamedReply, UrgencyAssessment,
+  CHAT_UNAVAILABLE_REPLY
+} from './provider';
+import { AnalysisError } from './validation';
+
+// The hosted Gemini models. Needs network access and an API key.
+
+const DERMOBOT_INSTRUCTION = "You are DermoBot, a helpful and empathetic medical assistant for a dermatology patient. Your goal is to track daily skin improvements, remind them of medication, and provide general skincare advice. Do not provide definitive medical diagnoses; always refer to their doctor for critical issues. Keep responses concise and supportive.";
+
+const buildSystemInstruction = (context: ChatContext) => {
+  const parts = [DERMOBOT_INSTRUCTION];
+  if (context.patientContext) {
+    parts.push(`What the care team has shared about this patient:\n${context.patientContext}\nUse it to personalise your answers, but do not repeat it back unprompted.`);
+  }
+  if (context.conversationSummary) {
+    parts.push(`Summary of the earlier part of this conversation:\n${context.conversationSummary}`);
+  }
+  return parts.join('\n\n');
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): AnalysisProvider => {
+  // Initialize strictly according to guidelines
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    name: 'Gemini (hosted)',
+    offline: false,
+
+    async checkAvailable() {
+      if (!apiKey) throw new AnalysisError('unavailable', 'No Gemini API key is configured', false);
+    },
+
+    // Patient Bot: Tracks improvements
+    async chat(history: ChatHistory, newMessage: string, context: ChatContext = {}) {
+      try {
+        const chat = ai.chats.create({
+          model: 'gemini-3-flash-preview',
+          config: {
+            systemInstruction: buildSystemInstruction(context),
+          },
+          history: history.map(h => ({ role: h.role, parts: h.parts })),
+        });
+
+        const result = await chat.sendMessage({ message: newMessage });
+        return result.text ?? CHAT_UNAVAILABLE_REPLY;
+      } catch (error) {
+        console.error("Chat Error:", error);
+        return CHAT_UNAVAILABLE_REPLY;
+      }
+    },
+
+    // Patient Bot: Same as chat, but streams tokens as they arrive
+    async streamChat(history: ChatHistory, newMessage: string, context: ChatContext = {}, options: StreamOptions = {}): Promise<StreamedReply> {
+      let text = '';
+      try {
+        const chat = ai.chats.create({
+          model: 'gemini-3-flash-preview',
+          config: {
+            systemInstruction: buildSystemInstruction(context),
+            abortSignal: options.signal,
+          },
+          history: history.map(h => ({ role: h.role, parts: h.parts })),
+        });
+
+        const stream = await chat.sendMessageStream({ message: newMessage });
+        for await (const chunk of stream) {
+          if (options.signal?.aborted) return { text, status: 'aborted' };
+          text += chunk.text ?? '';
+          options.onText?.(text);
+        }
+        return { text, status: 'complete' };
+      } catch (error) {
+        if (options.signal?.aborted) return { text, status: 'aborted' };
+        console.error("Chat Stream Error:", error);
+        return { text, status: 'failed' };
+      }
+    },
+
+    // Patient Bot: Condense older turns so long threads fit the context window
+    async summarizeConversation(messages: { role: string, text: string }[], previousSummary?: string) {
+      try {
+        const transcript = messages.map(m => `${m.role === 'user' ? 'Patient' : 'DermoBot'}: ${m.text}`).join('\n');
+        const response = await ai.models.generateContent({
+          model: 'gemini-3-flash-preview',
+          contents: `Summarize this conversation between a dermatology patient and DermoBot in a few sentences. Keep symptoms, dates, medications and anything the patient was advised to do. ${previousSummary ? `Fold it into the existing summary:\n${previousSummary}\n\n` : ''}Conversation:\n${transcript}`
+        });
+        return response.text?.trim() || null;
+      } catch (error) {
+        console.error("Summary Error:", error);
+        return null;
+      }
+    },
+
+    // Patient Bot: Second opinion for chat triage
+    async assessUrgency(message: string): Promise<UrgencyAssessment | null> {
+      try {
+        const response = await ai.models.generateContent({
+          model: 'gemini-3-flash-preview',
+          contents: `A dermatology patient sent this message to a chat assistant. Decide whether it describes a red flag that their doctor should review urgently, such as a bleeding lesion, rapid growth, a colour change, a sore that will not heal, or signs of infection. Routine questions and mild, stable symptoms are not urgent.\n\nMessage: ${message}`,
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                urgent: { type: Type.BOOLEAN },
+                reason: { type: Type.STRING, description: "Short clinical reason, empty when not urgent" }
+              },
+              required: ["urgent", "reason"]
+            }
+          }
+        });
+        return response.text ? JSON.parse(response.text) : null;
+      } catch (error) {
+        console.error("Triage Error:", error);
+        return null;
+      }
+    },
+
+    // Doctor AI: Analyze Image (Simulated CNN Backend)
+    async classify(imageBase64: string): Promise<unknown> {
+      let text: string | undefined;
+      try {
+        const response = await ai.models.generateContent({
+          model: 'gemini-3-flash-preview',
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: 'image/jpeg',
+                  data: imageBase64
+                }
+              },
+              {
+                text: `Act as a specialized medical CNN (Convolutional Neural Network) trained on the ISIC dataset.
+                Analyze this skin lesion image.
+
+                1. Provide a probability distribution (0.0 to 1.0) for the following classes:
+                   - Melanoma
+                   - Melanocytic Nevus
+                   - Basal Cell Carcinoma
+                   - Squamous Cell Carcinoma
+                   - Benign Keratosis
+                   - Dermatofibroma
+                   - Vascular Lesion
+
+                2. Determine the most likely diagnosis.
+                3. Estimate severity (Low, Moderate, High, Critical).
+                4. Identify key visual features.
+                5. Provide recommendations.
+
+                Output strictly in JSON.`
+              }
+            ]
+          },
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                diagnosis: { type: Type.STRING },
+                confidence: { type: Type.NUMBER, description: "Confidence score of the top diagnosis (0-1)" },
+                probabilities: {
+                  type: Type.OBJECT,
+                  properties: {
+                    "Melanoma": { type: Type.NUMBER },
+                    "Melanocytic Nevus": { type: Type.NUMBER },
+                    "Basal Cell Carcinoma": { type: Type.NUMBER },
+                    "Squamous Cell Carcinoma": { type: Type.NUMBER },
+                    "Benign Keratosis": { type: Type.NUMBER },
+                    "Dermatofibroma": { type: Type.NUMBER },
+                    "Vascular Lesion": { type: Type.NUMBER }
+                  }
+                },
+                severity: { type: Type.STRING, enum: ["Low", "Moderate", "High", "Critical"] },
+                recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+                features: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["diagnosis", "confidence", "probabilities", "severity", "recommendations", "features"]
+            }
+          }
+        });
+
+        text = response.text;
+      } catch (error) {
+        console.error("Analysis Error:", error);
+        throw new AnalysisError('unavailable', `Gemini request failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      if (!text) throw new AnalysisError('invalid-response', "Gemini returned no analysis");
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new AnalysisError('invalid-response', "Gemini returned malformed JSON");
+      }
+    },
+
+    // Doctor AI: Hair Removal / Grab Cut Simulation (Image Editing)
+    async clean(imageBase64: string) {
+      try {
+        const response = await ai.models.generateContent({
+          model: 'gemini-2.5-flash-image',
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: 'image/jpeg',
+                  data: imageBase64
+                }
+              },
+              {
+                text: "Remove hair and skin reflections from this lesion to clearly show the skin texture and boundaries for medical diagnosis. Keep the lesion shape and color authentic."
+              }
+            ]
+          }
+        });
+
+        // Extract image from response
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+          if (part.inlineData) {
+            return part.inlineData.data ?? null;
+          }
+        }
+        return null;
+      } catch (error) {
+        console.error("Image Cleaning Error:", error);
+        return null;
+      }
+    },
+
+    // Patient Alarm: Verify if uploaded photo is actually a skin photo
+    async verifySkinPhoto(imageBase64: string) {
+      try {
+        const response = await ai.models.generateContent({
+          model: 'gemini-3-flash-preview',
+          contents: {
+            parts: [
+              { inlineData: { mimeType: 'image/jpeg', data: imageBase64 } },
+              { text: "Is this image likely a photo of human skin or a body part? Answer with strictly 'YES' or 'NO'." }
+            ]
+          }
+        });
+        const text = response.text?.trim().toUpperCase();
+        return text?.includes("YES") ?? false;
+      } catch (e) {
+        console.error("Verification failed", e);
+        return true; // Fallback to allow alarm dismissal if AI fails
+      }
+    }
+  };
+};
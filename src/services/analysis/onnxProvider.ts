@@ -0,0 +1,214 @@
+import type { InferenceSession } from 'onnxruntime-web';
+import { AnalysisResult, LesionMetrics } from '../../types';
+import { loadRaster, loadRasterResized, RasterImage } from '../raster';
+import { IRREGULAR_BORDER, LARGE_DIAMETER_MM, MANY_COLORS, MEASURE_MAX_SIDE, computeLesionMetrics } from '../lesionMetrics';
+import { removeHairLocally } from '../hairRemovalService';
+import {
+  AnalysisProvider, ChatHistory, ChatContext, StreamOptions, StreamedReply, LesionClass,
+  severityFor
+} from './provider';
+import { AnalysisError } from './validation';
+
+// An ISIC classifier run on the CPU with onnxruntime-web (WebAssembly), so a
+// clinic can analyze photos with no network access. No model ships with the
+// app; the deployment supplies one at modelUrl, checked by checkAvailable.
+// Cleaning uses the local hair-removal pipeline and skin checks a colour
+// heuristic; there is no offline language model, so DermoBot says it is unavailable.
+
+export interface OnnxProviderOptions {
+  modelUrl: string; // Served with the app, e.g. from public/models
+  labels?: LesionClass[]; // Class of each model output, in order
+  inputSize?: number; // Square input the model was trained on
+  mean?: [number, number, number]; // Per-channel normalisation, on 0-1 pixel values
+  std?: [number, number, number];
+  layout?: 'nchw' | 'nhwc';
+}
+
+// HAM10000 / ISIC 2018 class order (akiec, bcc, bkl, df, mel, nv, vasc). Actinic keratoses and
+// intraepithelial carcinoma (akiec) are reported as squamous cell carcinoma, their malignant end.
+export const ISIC_2018_LABELS: LesionClass[] = [
+  'Squamous Cell Carcinoma',
+  'Basal Cell Carcinoma',
+  'Benign Keratosis',
+  'Dermatofibroma',
+  'Melanoma',
+  'Melanocytic Nevus',
+  'Vascular Lesion'
+];
+
+const DEFAULT_INPUT_SIZE = 224;
+const IMAGENET_MEAN: [number, number, number] = [0.485, 0.456, 0.406];
+const IMAGENET_STD: [number, number, number] = [0.229, 0.224, 0.225];
+const MIN_SKIN_SHARE = 0.15; // Share of skin-toned pixels for a photo to count as skin
+const SKIN_CHECK_SIDE = 64;
+
+export const OFFLINE_CHAT_REPLY = "DermoBot is not available in offline mode. Please contact your care team directly, and seek urgent care if a lesion is bleeding or changing quickly.";
+
+const RECOMMENDATIONS: Record<string, string[]> = {
+  Critical: ['Urgent dermatology review', 'Excisional biopsy recommended'],
+  High: ['Dermatology review within two weeks', 'Consider biopsy'],
+  Moderate: ['Dermoscopic follow-up in three months', 'Compare against the previous photo'],
+  Low: ['Routine self-monitoring', 'Re-photograph in six months or sooner if it changes']
+};
+
+// Logits become probabilities; outputs that already form a distribution are kept as they are
+export const toProbabilities = (outputs: ArrayLike<number>) => {
+  const values = Array.from(outputs);
+  const sum = values.reduce((a, b) => a + b, 0);
+  if (values.every(v => v >= 0 && v <= 1) && Math.abs(sum - 1) < 1e-3) return values;
+  const max = Math.max(...values);
+  const exps = values.map(v => Math.exp(v - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / total);
+};
+
+// The classifier only outputs classes, so the visible features come from the local measurements
+export const featuresFromMetrics = (metrics: LesionMetrics | null) => {
+  if (!metrics) return [];
+  const features: string[] = [];
+  if (metrics.asymmetricAxes > 0) features.push(`Asymmetric along ${metrics.asymmetricAxes} axis${metrics.asymmetricAxes > 1 ? 'es' : ''}`);
+  features.push(metrics.borderIrregularity > IRREGULAR_BORDER ? 'Irregular border' : 'Regular border');
+  if (metrics.colors.length > 0) {
+    features.push(`${metrics.colors.length >= MANY_COLORS ? 'Multiple colours' : 'Colours'}: ${metrics.colors.join(', ').replace(/-/g, ' ')}`);
+  }
+  if (metrics.diameterMm !== null) features.push(`Diameter ${metrics.diameterMm} mm${metrics.diameterMm > LARGE_DIAMETER_MM ? ` (over ${LARGE_DIAMETER_MM} mm)` : ''}`);
+  return features;
+};
+
+export const resultFromProbabilities = (probabilities: Record<string, number>, metrics: LesionMetrics | null): AnalysisResult => {
+  const [diagnosis, confidence] = Object.entries(probabilities).sort(([, a], [, b]) => b - a)[0];
+  const severity = severityFor(probabilities);
+  return {
+    diagnosis,
+    confidence,
+    probabilities,
+    severity,
+    recommendations: [...RECOMMENDATIONS[severity], 'Offline classifier result; confirm clinically'],
+    features: featuresFromMetrics(metrics)
+  };
+};
+
+const toInput = (image: RasterImage, mean: number[], std: number[], layout: 'nchw' | 'nhwc') => {
+  const pixels = image.width * image.height;
+  const input = new Float32Array(pixels * 3);
+  for (let i = 0; i < pixels; i++) {
+    for (let c = 0; c < 3; c++) {
+      const value = (image.data[i * 4 + c] / 255 - mean[c]) / std[c];
+      input[layout === 'nchw' ? c * pixels + i : i * 3 + c] = value;
+    }
+  }
+  return input;
+};
+
+// YCbCr skin-tone rule (Chai & Ngan), which holds across skin types under normal light
+const isSkinTone = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+export const skinShare = (image: RasterImage) => {
+  let skin = 0;
+  const pixels = image.width * image.height;
+  for (let i = 0; i < pixels; i++) {
+    if (isSkinTone(image.data[i * 4], image.data[i * 4 + 1], image.data[i * 4 + 2])) skin++;
+  }
+  return skin / pixels;
+};
+
+const toDataUrl = (imageBase64: string) => `data:image/jpeg;base64,${imageBase64}`;
+
+export const createOnnxProvider = (options: OnnxProviderOptions): AnalysisProvider => {
+  const labels = options.labels ?? ISIC_2018_LABELS;
+  const size = options.inputSize ?? DEFAULT_INPUT_SIZE;
+  const layout = options.layout ?? 'nchw';
+  let session: Promise<{ ort: typeof import('onnxruntime-web'), session: InferenceSession }> | null = null;
+
+  // The runtime and model are only fetched on first use, then kept for the session
+  const getSession = () => {
+    session ??= (async () => {
+      const ort = await import('onnxruntime-web/wasm');
+      return { ort, session: await ort.InferenceSession.create(options.modelUrl, { executionProviders: ['wasm'] }) };
+    })();
+    session.catch(() => { session = null; }); // Retry on the next call, e.g. once the model is deployed
+    return session.catch(error => {
+      console.error("Offline Model Error:", error);
+      throw new AnalysisError('unavailable', `Offline model could not be loaded from ${options.modelUrl}`, false);
+    });
+  };
+
+  return {
+    id: 'onnx',
+    name: 'On-device ISIC classifier',
+    offline: true,
+
+    async checkAvailable() {
+      await getSession();
+    },
+
+    async classify(imageBase64: string) {
+      // Inference on the same input and model fails the same way every time, so nothing here is retried
+      const loaded = await getSession();
+      try {
+        const { ort, session } = loaded;
+        const [resized, measured] = await Promise.all([
+          loadRasterResized(toDataUrl(imageBase64), size, size),
+          loadRaster(toDataUrl(imageBase64), MEASURE_MAX_SIDE)
+        ]);
+        const dims = layout === 'nchw' ? [1, 3, size, size] : [1, size, size, 3];
+        const input = new ort.Tensor('float32', toInput(resized, options.mean ?? IMAGENET_MEAN, options.std ?? IMAGENET_STD, layout), dims);
+        const outputs = await session.run({ [session.inputNames[0]]: input });
+        const scores = toProbabilities(outputs[session.outputNames[0]].data as Float32Array);
+        if (scores.length !== labels.length) {
+          throw new AnalysisError('invalid-response', `Model has ${scores.length} outputs but ${labels.length} labels are configured`, false);
+        }
+
+        const probabilities: Record<string, number> = {};
+        labels.forEach((label, i) => { probabilities[label] = scores[i]; });
+        const metrics = computeLesionMetrics(measured.image, { sourcePixelsPerPixel: measured.sourcePixelsPerPixel });
+        return resultFromProbabilities(probabilities, metrics);
+      } catch (error) {
+        console.error("Offline Analysis Error:", error);
+        if (error instanceof AnalysisError) throw error;
+        throw new AnalysisError('unavailable', `Offline analysis failed: ${error instanceof Error ? error.message : error}`, false);
+      }
+    },
+
+    async clean(imageBase64: string) {
+      try {
+        const { cleanedUrl } = await removeHairLocally(toDataUrl(imageBase64));
+        return cleanedUrl.split(',')[1];
+      } catch (error) {
+        console.error("Offline Cleaning Error:", error);
+        return null;
+      }
+    },
+
+    async verifySkinPhoto(imageBase64: string) {
+      try {
+        const { image } = await loadRaster(toDataUrl(imageBase64), SKIN_CHECK_SIDE);
+        return skinShare(image) >= MIN_SKIN_SHARE;
+      } catch (error) {
+        console.error("Offline verification failed", error);
+        return true; // Same fallback as the hosted check: never lock a patient out of an alarm
+      }
+    },
+
+    async chat(_history: ChatHistory, _message: string, _context?: ChatContext) {
+      return OFFLINE_CHAT_REPLY;
+    },
+
+    async streamChat(_history: ChatHistory, _message: string, _context?: ChatContext, streamOptions: StreamOptions = {}): Promise<StreamedReply> {
+      streamOptions.onText?.(OFFLINE_CHAT_REPLY);
+      return { text: OFFLINE_CHAT_REPLY, status: 'complete' };
+    },
+
+    async summarizeConversation() {
+      return null;
+    },
+
+    async assessUrgency() {
+      return null; // Triage falls back to its keyword rules
+    }
+  };
+};
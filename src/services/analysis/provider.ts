@@ -0,0 +1,81 @@
+// Contract every AI backend implements, so a deployment can swap the hosted
+// model for one that runs in the browser, and tests can inject a fake.
+// Images are base64 JPEG without the data URL prefix. Only classify throws for
+// an unavailable model; the other methods document the fallback they return instead.
+
+export type AnalysisProviderId = 'gemini' | 'onnx' | 'fake';
+
+export type ChatHistory = { role: string, parts: { text: string }[] }[];
+
+// Extra grounding for a chat session, appended to the system instruction
+export interface ChatContext {
+  conversationSummary?: string; // Summary of earlier turns no longer sent as history
+  patientContext?: string; // From buildPatientContext; already minimised and filtered
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal; // Aborting stops the reply; text received so far is kept
+  onText?: (textSoFar: string) => void;
+}
+
+export interface StreamedReply {
+  text: string;
+  status: 'complete' | 'aborted' | 'failed';
+}
+
+export interface UrgencyAssessment {
+  urgent: boolean;
+  reason: string;
+}
+
+// The classes every classifier reports probabilities for
+export const LESION_CLASSES = [
+  'Melanoma',
+  'Melanocytic Nevus',
+  'Basal Cell Carcinoma',
+  'Squamous Cell Carcinoma',
+  'Benign Keratosis',
+  'Dermatofibroma',
+  'Vascular Lesion'
+] as const;
+
+export type LesionClass = typeof LESION_CLASSES[number];
+
+const MALIGNANT_CLASSES: LesionClass[] = ['Melanoma', 'Basal Cell Carcinoma', 'Squamous Cell Carcinoma'];
+
+// Severity for classifiers that only output class probabilities
+export const severityFor = (probabilities: Record<string, number>) => {
+  const malignant = MALIGNANT_CLASSES.reduce((sum, c) => sum + (probabilities[c] ?? 0), 0);
+  if ((probabilities['Melanoma'] ?? 0) >= 0.5) return 'Critical';
+  if (malignant >= 0.5) return 'High';
+  if (malignant >= 0.2) return 'Moderate';
+  return 'Low';
+};
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  name: string; // Shown to clinicians next to results
+  offline: boolean; // Runs without network access
+
+  // Rejects with an AnalysisError when classify cannot work at all, e.g. the model is
+  // missing, so the app can say so when it starts rather than at the first analysis
+  checkAvailable(): Promise<void>;
+
+  // Lesion classification, unvalidated (see validateAnalysis); rejects with an
+  // AnalysisError when the model is unavailable or its output cannot be read
+  classify(imageBase64: string): Promise<unknown>;
+  // Hair and glare removal; null when it could not be done
+  clean(imageBase64: string): Promise<string | null>;
+  // Whether a photo shows skin at all; true when unsure, so patients are never locked out of an alarm
+  verifySkinPhoto(imageBase64: string): Promise<boolean>;
+
+  // DermoBot: a reply, or an apology when the model is unavailable
+  chat(history: ChatHistory, message: string, context?: ChatContext): Promise<string>;
+  streamChat(history: ChatHistory, message: string, context?: ChatContext, options?: StreamOptions): Promise<StreamedReply>;
+  // Condensed older turns; null when unavailable
+  summarizeConversation(messages: { role: string, text: string }[], previousSummary?: string): Promise<string | null>;
+  // Second opinion for chat triage; null when unavailable
+  assessUrgency(message: string): Promise<UrgencyAssessment | null>;
+}
+
+export const CHAT_UNAVAILABLE_REPLY = "I'm having trouble connecting to the server. Please try again later.";
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisError, validateAnalysis, withRetry } from './validation';
+import { LESION_CLASSES } from './provider';
+
+const response = (overrides: Record<string, unknown> = {}) => ({
+  diagnosis: 'Melanocytic Nevus',
+  confidence: 0.9,
+  probabilities: { 'Melanocytic Nevus': 0.6, Melanoma: 0.3, 'Benign Keratosis': 0.1 },
+  severity: 'Low',
+  recommendations: ['Monitor monthly'],
+  features: ['Symmetric', 'Even colour'],
+  ...overrides
+});
+
+const invalidReason = (raw: unknown) => {
+  try {
+    validateAnalysis(raw);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect((error as AnalysisError).reason).toBe('invalid-response');
+    return (error as AnalysisError).message;
+  }
+  throw new Error('Expected the response to be rejected');
+};
+
+describe('validateAnalysis', () => {
+  it('fills in every class and takes confidence from the distribution', () => {
+    const result = validateAnalysis(response());
+    expect(Object.keys(result.probabilities)).toEqual([...LESION_CLASSES]);
+    expect(result.probabilities['Dermatofibroma']).toBe(0);
+    expect(result.confidence).toBe(0.6);
+    expect(result).toMatchObject({ diagnosis: 'Melanocytic Nevus', severity: 'Low', recommendations: ['Monitor monthly'] });
+  });
+
+  it('normalises percentages, casing and spacing, and drops unknown classes', () => {
+    const result = validateAnalysis(response({
+      diagnosis: ' melanocytic  nevus ',
+      probabilities: { 'MELANOCYTIC NEVUS': 50, melanoma: 25, 'Seborrheic Wart': 25 },
+      severity: ' moderate ',
+      recommendations: ['  Monitor  ', '', 42],
+      features: 'not a list'
+    }));
+    expect(result.probabilities['Melanocytic Nevus']).toBe(0.6667);
+    expect(result.probabilities['Melanoma']).toBe(0.3333);
+    expect(result.severity).toBe('Moderate');
+    expect(result.recommendations).toEqual(['Monitor']);
+    expect(result.features).toEqual([]);
+  });
+
+  it('accepts a diagnosis within the tolerance of the top class', () => {
+    const nearTie = response({ diagnosis: 'Melanoma', probabilities: { 'Melanocytic Nevus': 0.48, Melanoma: 0.46, Dermatofibroma: 0.06 } });
+    expect(validateAnalysis(nearTie).confidence).toBe(0.46);
+  });
+
+  it('rejects responses that are not a consistent result', () => {
+    expect(invalidReason('Melanoma')).toMatch(/not an object/);
+    expect(invalidReason(response({ probabilities: undefined }))).toMatch(/no probability distribution/);
+    expect(invalidReason(response({ probabilities: { Unknown: 1 } }))).toMatch(/no probability on any known class/);
+    expect(invalidReason(response({ probabilities: { Melanoma: -0.1, 'Melanocytic Nevus': 1 } }))).toMatch(/not a non-negative number/);
+    expect(invalidReason(response({ probabilities: { Melanoma: 'high' } }))).toMatch(/not a non-negative number/);
+    expect(invalidReason(response({ diagnosis: 'Analysis Failed' }))).toMatch(/not a known class/);
+    expect(invalidReason(response({ diagnosis: 'Melanoma' }))).toMatch(/disagrees with the most likely class/);
+    expect(invalidReason(response({ severity: 'Severe' }))).toMatch(/unknown severity/);
+  });
+});
+
+describe('withRetry', () => {
+  it('backs off exponentially up to the attempt limit', async () => {
+    const wait = vi.fn(async (_ms: number) => {});
+    const run = vi.fn(async () => { throw new Error('Network down'); });
+    const failure = await withRetry(run, { attempts: 5, baseDelayMs: 1000, wait }).catch(e => e);
+
+    expect(run).toHaveBeenCalledTimes(5);
+    expect(wait.mock.calls.map(([ms]) => ms)).toEqual([1000, 2000, 4000, 4000]);
+    expect(failure).toBeInstanceOf(AnalysisError);
+    expect(failure).toMatchObject({ reason: 'unavailable', message: 'Network down', attempts: 5 });
+  });
+
+  it('returns the first successful attempt', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new AnalysisError('invalid-response', 'Invalid analysis'))
+      .mockResolvedValueOnce('result');
+    expect(await withRetry(run, { wait: async () => {} })).toBe('result');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at errors that cannot be retried', async () => {
+    const run = vi.fn(async () => { throw new AnalysisError('unavailable', 'Model missing', false); });
+    await expect(withRetry(run, { wait: async () => {} })).rejects.toMatchObject({ attempts: 1 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops once aborted', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(async () => {
+      controller.abort();
+      throw new Error('Timed out');
+    });
+    await expect(withRetry(run, { signal: controller.signal, wait: async () => {} })).rejects.toBeInstanceOf(AnalysisError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,120 @@
+import { AnalysisResult } from '../../types';
+import { LESION_CLASSES, LesionClass } from './provider';
+
+// Classifier output is untrusted until it passes validateAnalysis. A response
+// that cannot be turned into a consistent result is an AnalysisError, which
+// callers report and never save, so a failure cannot pass for a diagnosis.
+
+export type AnalysisFailureReason = 'unavailable' | 'invalid-response';
+
+export class AnalysisError extends Error {
+  constructor(
+    public reason: AnalysisFailureReason,
+    message: string,
+    public retryable = true, // False when trying again cannot help, e.g. a missing model
+    public attempts = 1
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+export const SEVERITIES = ['Low', 'Moderate', 'High', 'Critical'] as const;
+
+// How far the stated diagnosis may trail the most likely class, for near-ties
+export const DIAGNOSIS_TOLERANCE = 0.05;
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 4000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Models vary the casing and spacing of class names
+const canonicalClass = (label: string): LesionClass | null =>
+  LESION_CLASSES.find(c => c.toLowerCase() === label.trim().replace(/\s+/g, ' ').toLowerCase()) ?? null;
+
+const strings = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : [];
+
+// Checks a raw classifier response and returns it normalized: every class present,
+// probabilities summing to 1, and confidence taken from the distribution rather
+// than from whatever the model reported. Throws an 'invalid-response' AnalysisError.
+export const validateAnalysis = (raw: unknown): AnalysisResult => {
+  const invalid = (why: string) => new AnalysisError('invalid-response', `Invalid analysis: ${why}`);
+  if (!isRecord(raw)) throw invalid('not an object');
+  if (!isRecord(raw.probabilities)) throw invalid('no probability distribution');
+
+  const probabilities: Record<string, number> = {};
+  LESION_CLASSES.forEach(c => { probabilities[c] = 0; });
+  let total = 0;
+  for (const [label, value] of Object.entries(raw.probabilities)) {
+    const lesionClass = canonicalClass(label);
+    if (!lesionClass) continue; // Unknown labels are dropped and the rest renormalized
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw invalid(`probability for ${label} is not a non-negative number`);
+    }
+    probabilities[lesionClass] += value;
+    total += value;
+  }
+  if (total <= 0) throw invalid('no probability on any known class');
+  // Also rescales percentages (0-100) onto 0-1
+  LESION_CLASSES.forEach(c => { probabilities[c] = Math.round(probabilities[c] / total * 10000) / 10000; });
+
+  const diagnosis = typeof raw.diagnosis === 'string' ? canonicalClass(raw.diagnosis) : null;
+  if (!diagnosis) throw invalid(`diagnosis ${JSON.stringify(raw.diagnosis)} is not a known class`);
+  const top = Math.max(...Object.values(probabilities));
+  if (top - probabilities[diagnosis] > DIAGNOSIS_TOLERANCE) {
+    throw invalid(`diagnosis ${diagnosis} (${probabilities[diagnosis]}) disagrees with the most likely class (${top})`);
+  }
+
+  const severity = SEVERITIES.find(s => typeof raw.severity === 'string' && s.toLowerCase() === raw.severity.trim().toLowerCase());
+  if (!severity) throw invalid(`unknown severity ${JSON.stringify(raw.severity)}`);
+
+  return {
+    diagnosis,
+    confidence: probabilities[diagnosis],
+    probabilities,
+    severity,
+    recommendations: strings(raw.recommendations),
+    features: strings(raw.features)
+  };
+};
+
+const toAnalysisError = (error: unknown) =>
+  error instanceof AnalysisError
+    ? error
+    : new AnalysisError('unavailable', error instanceof Error ? error.message : String(error));
+
+export interface RetryOptions {
+  attempts?: number; // Including the first
+  baseDelayMs?: number; // Doubled after each failed attempt
+  signal?: AbortSignal; // Aborting stops further attempts
+  onRetry?: (error: AnalysisError, attempt: number) => void;
+  wait?: (ms: number) => Promise<void>; // Replaced in tests to skip the delays
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Runs an analysis with exponential backoff. Rejects with the last AnalysisError,
+// its attempts set to how many were made.
+export const withRetry = async <T>(run: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const attempts = Math.max(1, options.attempts ?? DEFAULT_ATTEMPTS);
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const wait = options.wait ?? sleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const failure = toAnalysisError(error);
+      failure.attempts = attempt;
+      if (!failure.retryable || attempt >= attempts || options.signal?.aborted) throw failure;
+      options.onRetry?.(failure, attempt);
+      await wait(Math.min(baseDelay * 2 ** (attempt - 1), MAX_DELAY_MS));
+    }
+  }
+};
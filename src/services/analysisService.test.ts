@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AnalysisError, analyzeLesion, chatWithMedicalBot, createFakeProvider, getAnalysisProvider, setAnalysisProvider
+} from './analysisService';
+import { fakeClassification } from './analysis/fakeProvider';
+
+const noWait = { wait: async () => {} };
+
+const melanoma = {
+  diagnosis: 'Melanoma',
+  confidence: 0.99, // Ignored: confidence comes from the distribution
+  probabilities: { Melanoma: 70, 'Melanocytic Nevus': 30 },
+  severity: 'critical',
+  recommendations: ['Refer urgently'],
+  features: ['Irregular border']
+};
+
+describe('analysis provider', () => {
+  afterEach(() => {
+    setAnalysisProvider(createFakeProvider());
+  });
+
+  it('routes every call through the injected provider', async () => {
+    const chat = vi.fn(async () => 'injected reply');
+    setAnalysisProvider(createFakeProvider({ chat }));
+    expect(getAnalysisProvider().id).toBe('fake');
+    expect(await chatWithMedicalBot([], 'Hello')).toBe('injected reply');
+    expect(chat).toHaveBeenCalledWith([], 'Hello', {});
+  });
+
+  it('gives the same fake result for the same image', async () => {
+    setAnalysisProvider(createFakeProvider());
+    const first = await analyzeLesion([{ view: 'macro', imageBase64: 'abc' }], noWait);
+    expect(first).toEqual(fakeClassification('abc'));
+    expect(await analyzeLesion([{ view: 'macro', imageBase64: 'abc' }], noWait)).toEqual(first);
+    expect((await analyzeLesion([{ view: 'macro', imageBase64: 'xyz' }], noWait)).features).not.toEqual(first.features);
+  });
+
+  it('returns the validated result rather than the raw response', async () => {
+    setAnalysisProvider(createFakeProvider({ classify: async () => melanoma }));
+    const result = await analyzeLesion([{ view: 'dermoscopy', imageBase64: 'abc' }], noWait);
+    expect(result).toMatchObject({ diagnosis: 'Melanoma', confidence: 0.7, severity: 'Critical' });
+    expect(result.probabilities['Melanocytic Nevus']).toBe(0.3);
+  });
+
+  it('retries failed and inconsistent responses', async () => {
+    const responses = [
+      () => { throw new Error('Network down'); },
+      () => ({ ...melanoma, diagnosis: 'Melanocytic Nevus' }),
+      () => melanoma
+    ];
+    const classify = vi.fn(async () => responses.shift()!());
+    const onRetry = vi.fn();
+    setAnalysisProvider(createFakeProvider({ classify }));
+
+    expect((await analyzeLesion([{ view: 'macro', imageBase64: 'abc' }], { ...noWait, onRetry })).diagnosis).toBe('Melanoma');
+    expect(classify).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.reason, attempt])).toEqual([['unavailable', 1], ['invalid-response', 2]]);
+  });
+
+  it('leaves out a view that keeps failing', async () => {
+    setAnalysisProvider(createFakeProvider({
+      classify: async image => image === 'bad' ? { diagnosis: 'Analysis Failed', probabilities: {} } : melanoma
+    }));
+    const result = await analyzeLesion([
+      { view: 'dermoscopy', imageBase64: 'bad' },
+      { view: 'overview', imageBase64: 'good' }
+    ], noWait);
+    expect(result.diagnosis).toBe('Melanoma');
+  });
+
+  it('rejects with an AnalysisError when no view can be analyzed', async () => {
+    const classify = vi.fn(async () => { throw new AnalysisError('unavailable', 'Model missing', false); });
+    setAnalysisProvider(createFakeProvider({ classify }));
+    const failure = await analyzeLesion([{ view: 'macro', imageBase64: 'abc' }], noWait).catch(e => e);
+    expect(failure).toBeInstanceOf(AnalysisError);
+    expect(failure).toMatchObject({ reason: 'unavailable', attempts: 1 });
+    expect(classify).toHaveBeenCalledTimes(1);
+  });
+});
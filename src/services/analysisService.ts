@@ -0,0 +1,88 @@
+import { AnalysisResult } from '../types';
+import { AnalysisProvider, AnalysisProviderId, ChatContext, ChatHistory, StreamOptions, StreamedReply } from './analysis/provider';
+import { createGeminiProvider } from './analysis/geminiProvider';
+import { createOnnxProvider } from './analysis/onnxProvider';
+import { createFakeProvider } from './analysis/fakeProvider';
+import { AnalysisError, RetryOptions, validateAnalysis, withRetry } from './analysis/validation';
+import { AnalysisView, AnalyzedView, fuseAnalyses } from './analysis/fusion';
+
+export type { AnalysisProvider, AnalysisProviderId, ChatContext, ChatHistory, StreamOptions, StreamedReply } from './analysis/provider';
+export type { AnalysisFailureReason, RetryOptions } from './analysis/validation';
+export { createGeminiProvider, createOnnxProvider, createFakeProvider };
+export type { AnalysisView } from './analysis/fusion';
+export { AnalysisError };
+
+const DEFAULT_ONNX_MODEL_URL = '/models/isic-classifier.onnx';
+
+// Chosen per deployment with ANALYSIS_PROVIDER (gemini, onnx or fake) at build time
+const createDefaultProvider = (): AnalysisProvider => {
+  const id = (process.env.ANALYSIS_PROVIDER || 'gemini') as AnalysisProviderId;
+  if (id === 'onnx') return createOnnxProvider({ modelUrl: process.env.ONNX_MODEL_URL || DEFAULT_ONNX_MODEL_URL });
+  if (id === 'fake') return createFakeProvider();
+  return createGeminiProvider(process.env.API_KEY);
+};
+
+let activeProvider: AnalysisProvider | null = null;
+
+export const getAnalysisProvider = (): AnalysisProvider => {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+};
+
+// Swap the backend (e.g. a fake in tests)
+export const setAnalysisProvider = (provider: AnalysisProvider) => {
+  activeProvider = provider;
+};
+
+// Whether lesion analysis can run at all; rejects with an AnalysisError saying why not
+export const checkAnalysisProvider = () => getAnalysisProvider().checkAvailable();
+
+// Helper to convert file/blob to base64
+export const fileToGenerativePart = async (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Call sites use these rather than holding a provider, so a swapped provider takes effect everywhere
+
+export const chatWithMedicalBot = (history: ChatHistory, newMessage: string, context: ChatContext = {}) =>
+  getAnalysisProvider().chat(history, newMessage, context);
+
+export const streamChatWithMedicalBot = (history: ChatHistory, newMessage: string, context: ChatContext = {}, options: StreamOptions = {}): Promise<StreamedReply> =>
+  getAnalysisProvider().streamChat(history, newMessage, context, options);
+
+export const summarizeConversation = (messages: { role: string, text: string }[], previousSummary?: string) =>
+  getAnalysisProvider().summarizeConversation(messages, previousSummary);
+
+export const assessMessageUrgency = (message: string) => getAnalysisProvider().assessUrgency(message);
+
+// One fused result for every view of a lesion, from validated per-view results.
+// Views are classified one at a time, each with its own retries; a view that still
+// fails is left out of the fusion. Rejects with an AnalysisError only when none succeed.
+export const analyzeLesion = async (views: AnalysisView[], options: RetryOptions = {}): Promise<AnalysisResult> => {
+  const provider = getAnalysisProvider();
+  const analyzed: AnalyzedView[] = [];
+  let lastError: AnalysisError | null = null;
+  for (const { imageBase64, ...view } of views) {
+    try {
+      analyzed.push({ ...view, result: await withRetry(async () => validateAnalysis(await provider.classify(imageBase64)), options) });
+    } catch (error) {
+      lastError = error as AnalysisError;
+    }
+  }
+  if (analyzed.length === 0) throw lastError ?? new AnalysisError('invalid-response', 'No views to analyze', false);
+  return fuseAnalyses(analyzed);
+};
+
+export const cleanLesionImage = (imageBase64: string) => getAnalysisProvider().clean(imageBase64);
+
+export const verifySkinPhoto = (imageBase64: string) => getAnalysisProvider().verifySkinPhoto(imageBase64);
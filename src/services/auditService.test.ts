@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { UserRole } from '../types';
+
+const actor = { id: 'doc-1', name: 'Dr. S. Miller', role: UserRole.DOCTOR };
+
+// Fresh module state and an empty database for every test
+const loadAuditService = () => import('./auditService');
+
+describe('audit log', () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    vi.resetModules();
+    store = new Map();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('chains appended entries', async () => {
+    const { getAuditLog, recordAudit, verifyAuditChain } = await loadAuditService();
+    await recordAudit(actor, 'login', { summary: 'session-1' });
+    await recordAudit(actor, 'record-view', { patientId: '1', payload: { secret: 'not logged' } });
+
+    const log = await getAuditLog();
+    expect(log.map(e => [e.seq, e.action])).toEqual([[0, 'login'], [1, 'record-view']]);
+    expect(log[1].prevHash).toBe(log[0].hash);
+    expect(JSON.stringify(log)).not.toContain('not logged');
+    expect(await verifyAuditChain(log)).toEqual({ valid: true });
+  });
+
+  it('detects a tampered entry', async () => {
+    const { getAuditLog, recordAudit, verifyAuditChain } = await loadAuditService();
+    await recordAudit(actor, 'login');
+    await recordAudit(actor, 'logout');
+    const log = await getAuditLog();
+    log[0] = { ...log[0], actor: { ...log[0].actor, name: 'Someone else' } };
+    expect(await verifyAuditChain(log)).toEqual({ valid: false, brokenAt: 0 });
+  });
+
+  it('moves a localStorage log over and keeps its chain', async () => {
+    const first = await loadAuditService();
+    await first.recordAudit(actor, 'login');
+    await first.recordAudit(actor, 'logout');
+    const legacy = await first.getAuditLog();
+
+    vi.resetModules();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    store.set('DERMOLINK_AUDIT_LOG', JSON.stringify(legacy));
+    const { getAuditLog, recordAudit, verifyAuditChain } = await loadAuditService();
+    await recordAudit(actor, 'audit-export');
+
+    const log = await getAuditLog();
+    expect(log.map(e => e.action)).toEqual(['login', 'logout', 'audit-export']);
+    expect(await verifyAuditChain(log)).toEqual({ valid: true });
+    expect(store.has('DERMOLINK_AUDIT_LOG')).toBe(false);
+  });
+
+  it('reports failed appends and keeps going', async () => {
+    const { getAuditLog, onAuditFailure, recordAudit } = await loadAuditService();
+    const failures: string[] = [];
+    onAuditFailure((_, action) => failures.push(action));
+
+    const open = indexedDB.open.bind(indexedDB);
+    vi.spyOn(indexedDB, 'open').mockImplementationOnce(() => {
+      throw new DOMException('Storage is unavailable', 'UnknownError');
+    });
+    await recordAudit(actor, 'login');
+    expect(failures).toEqual(['login']);
+
+    vi.mocked(indexedDB.open).mockImplementation(open);
+    await recordAudit(actor, 'logout');
+    expect((await getAuditLog()).map(e => e.action)).toEqual(['logout']);
+    expect(failures).toEqual(['login']);
+  });
+});
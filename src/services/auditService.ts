@@ -0,0 +1,183 @@
+import { User, UserRole } from '../types';
+import { sha256 } from './auth/encoding';
+import { request, transactionDone } from './storage/idb';
+
+// One IndexedDB record per entry, so an append never rewrites the log
+const AUDIT_DB = 'dermolink-audit';
+const AUDIT_STORE = 'entries';
+const LEGACY_AUDIT_KEY = 'DERMOLINK_AUDIT_LOG'; // The whole log as one localStorage value
+const GENESIS_HASH = 'GENESIS';
+
+export type AuditAction =
+  | 'login'
+  | 'login-failed'
+  | 'logout'
+  | 'session-expired'
+  | 'record-view'
+  | 'patient-create'
+  | 'history-add'
+  | 'history-update'
+  | 'lesion-save'
+  | 'review-sign'
+  | 'review-addendum'
+  | 'image-upload'
+  | 'analysis-run'
+  | 'message-add'
+  | 'direct-message-send'
+  | 'care-team-update'
+  | 'chat-context-update'
+  | 'escalation-raised'
+  | 'escalation-acknowledged'
+  | 'care-plan-update'
+  | 'dose-event'
+  | 'access-denied'
+  | 'audit-export'
+  | 'clinician-invite';
+
+export interface AuditActor {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  actor: AuditActor;
+  action: AuditAction;
+  patientId?: string;
+  summary?: string;
+  payloadDigest: string; // SHA-256 of the payload; the payload itself is not logged
+  prevHash: string;
+  hash: string; // SHA-256 over this entry's fields and prevHash
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  brokenAt?: number; // seq of the first entry that does not match
+}
+
+export const toAuditActor = (user: Pick<User, 'id' | 'name' | 'role'>): AuditActor =>
+  ({ id: user.id, name: user.name, role: user.role });
+
+// Fixed field order so the same entry always hashes the same way
+const canonical = (entry: Omit<AuditEntry, 'hash'>) => JSON.stringify([
+  entry.seq, entry.timestamp, entry.actor.id, entry.actor.name, entry.actor.role,
+  entry.action, entry.patientId ?? null, entry.summary ?? null, entry.payloadDigest, entry.prevHash
+]);
+
+export const hashEntry = (entry: Omit<AuditEntry, 'hash'>) => sha256(canonical(entry));
+
+export const verifyAuditChain = async (entries: AuditEntry[]): Promise<ChainVerification> => {
+  let prevHash = GENESIS_HASH;
+  for (const [index, entry] of entries.entries()) {
+    const { hash, ...rest } = entry;
+    if (entry.seq !== index || entry.prevHash !== prevHash || (await hashEntry(rest)) !== hash) {
+      return { valid: false, brokenAt: entry.seq ?? index };
+    }
+    prevHash = hash;
+  }
+  return { valid: true };
+};
+
+const openAuditDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(AUDIT_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(AUDIT_STORE, { keyPath: 'seq' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// A log kept in localStorage is moved over as it is, so its chain still verifies
+const importLegacyLog = async (db: IDBDatabase) => {
+  const stored = localStorage.getItem(LEGACY_AUDIT_KEY);
+  if (!stored) return;
+  let legacy: unknown;
+  try {
+    legacy = JSON.parse(stored);
+  } catch {
+    legacy = null;
+  }
+  if (!Array.isArray(legacy) || !legacy.every(e => Number.isInteger(e?.seq))) {
+    console.error('Legacy audit log could not be imported; it is left in localStorage');
+    return;
+  }
+  const tx = db.transaction(AUDIT_STORE, 'readwrite');
+  legacy.forEach(entry => tx.objectStore(AUDIT_STORE).put(entry));
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_AUDIT_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openAuditDb()
+      .then(async db => {
+        await importLegacyLog(db);
+        return db;
+      })
+      .catch(error => {
+        dbPromise = null; // Try again on the next append
+        throw error;
+      });
+  }
+  return dbPromise;
+};
+
+export const getAuditLog = async (): Promise<AuditEntry[]> => {
+  const db = await getDb();
+  return request<AuditEntry[]>(db.transaction(AUDIT_STORE).objectStore(AUDIT_STORE).getAll());
+};
+
+const append = async (actor: AuditActor, action: AuditAction, options: { patientId?: string, summary?: string, payload?: unknown }) => {
+  const db = await getDb();
+  const cursor = await request(db.transaction(AUDIT_STORE).objectStore(AUDIT_STORE).openCursor(null, 'prev'));
+  const last: AuditEntry | undefined = cursor?.value;
+  const entry: Omit<AuditEntry, 'hash'> = {
+    seq: last ? last.seq + 1 : 0,
+    timestamp: new Date().toISOString(),
+    actor,
+    action,
+    patientId: options.patientId,
+    summary: options.summary,
+    payloadDigest: await sha256(JSON.stringify(options.payload ?? null)),
+    prevHash: last?.hash ?? GENESIS_HASH
+  };
+  const hash = await hashEntry(entry);
+  // add, not put: if another writer took this seq, the append fails instead of forking the chain
+  const tx = db.transaction(AUDIT_STORE, 'readwrite');
+  tx.objectStore(AUDIT_STORE).add({ ...entry, hash });
+  await transactionDone(tx);
+};
+
+const failureListeners = new Set<(error: unknown, action: AuditAction) => void>();
+
+// Told about every entry that could not be written, so the UI can say auditing has stopped
+export const onAuditFailure = (listener: (error: unknown, action: AuditAction) => void) => {
+  failureListeners.add(listener);
+  return () => {
+    failureListeners.delete(listener);
+  };
+};
+
+// Appends are serialised, across tabs too where Web Locks exist, so the chain never forks
+let queue: Promise<void> = Promise.resolve();
+
+export const recordAudit = (
+  actor: AuditActor,
+  action: AuditAction,
+  options: { patientId?: string, summary?: string, payload?: unknown } = {}
+): Promise<void> => {
+  const run = () => append(actor, action, options);
+  const next = queue.then(() => typeof navigator !== 'undefined' && navigator.locks ? navigator.locks.request('dermolink-audit', run) : run());
+  // A failure is reported, and later appends still run
+  queue = next.catch(error => {
+    console.error('Audit append failed', error);
+    failureListeners.forEach(listener => listener(error, action));
+  });
+  return queue;
+};
+
+export const exportAuditLog = (entries: AuditEntry[], verification: ChainVerification): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), chain: verification, entries }, null, 2);
@@ -0,0 +1,33 @@
+// Byte helpers shared by the password, OTP and session code
+
+export const bytesToBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+// Compare without short-circuiting so timing does not leak how much matched
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const sha256 = async (text: string): Promise<string> =>
+  bytesToBase64(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+// URL-safe variants used for token segments
+export const bytesToBase64Url = (bytes: ArrayBuffer | Uint8Array): string =>
+  bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const base64UrlToBytes = (value: string): Uint8Array =>
+  base64ToBytes(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
@@ -0,0 +1,70 @@
+import { sha256, timingSafeEqual } from './encoding';
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+// Delivers a one-time code to the account's registered contact, never to whoever asked for it
+export interface OtpProvider {
+  deliver(destination: string, code: string, expiresAt: Date): Promise<void>;
+}
+
+// Hands the code to an SMS/email gateway, which sends it to the destination
+export const createGatewayOtpProvider = (url: string): OtpProvider => ({
+  async deliver(destination, code, expiresAt) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ destination, code, expiresAt: expiresAt.toISOString() })
+    });
+    if (!response.ok) throw new Error(`Code could not be sent (gateway returned ${response.status})`);
+  }
+});
+
+// Development builds only: shows the code on this device, so anyone who knows a
+// Patient ID could sign in with it. Never use where real patient data is stored.
+export const createLocalOtpProvider = (display: (message: string) => void): OtpProvider => ({
+  async deliver(destination, code, expiresAt) {
+    display(`Code for ${destination}: ${code} (valid until ${expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`);
+  }
+});
+
+export type OtpVerification = 'valid' | 'invalid' | 'expired' | 'locked';
+
+interface PendingCode {
+  codeHash: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+// Only hashes are kept, in memory; a reload simply requires a new code
+const pending = new Map<string, PendingCode>();
+
+const generateCode = () =>
+  Array.from(crypto.getRandomValues(new Uint32Array(CODE_LENGTH)), n => (n % 10).toString()).join('');
+
+export const issueOtp = async (userId: string, destination: string, provider: OtpProvider, now: Date = new Date()): Promise<Date> => {
+  const code = generateCode();
+  const expiresAt = new Date(now.getTime() + CODE_TTL_MS);
+  pending.set(userId, { codeHash: await sha256(`${userId}:${code}`), expiresAt: expiresAt.getTime(), attempts: 0 });
+  await provider.deliver(destination, code, expiresAt);
+  return expiresAt;
+};
+
+export const verifyOtp = async (userId: string, code: string, now: Date = new Date()): Promise<OtpVerification> => {
+  const entry = pending.get(userId);
+  if (!entry) return 'invalid';
+  if (now.getTime() > entry.expiresAt) {
+    pending.delete(userId);
+    return 'expired';
+  }
+  if (entry.attempts >= MAX_ATTEMPTS) {
+    pending.delete(userId);
+    return 'locked';
+  }
+
+  entry.attempts++;
+  const matches = timingSafeEqual(await sha256(`${userId}:${code.trim()}`), entry.codeHash);
+  if (matches) pending.delete(userId);
+  return matches ? 'valid' : 'invalid';
+};
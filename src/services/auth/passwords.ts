@@ -0,0 +1,32 @@
+import { PasswordHash } from '../../types';
+import { bytesToBase64, base64ToBytes, randomBytes, timingSafeEqual } from './encoding';
+
+const ITERATIONS = 210_000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_BITS
+  );
+  return bytesToBase64(bits);
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = randomBytes(SALT_BYTES);
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: ITERATIONS,
+    salt: bytesToBase64(salt),
+    hash: await derive(password, salt, ITERATIONS)
+  };
+};
+
+// Uses the stored iteration count so older hashes keep verifying after ITERATIONS changes
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await derive(password, base64ToBytes(stored.salt), stored.iterations);
+  return timingSafeEqual(hash, stored.hash);
+};
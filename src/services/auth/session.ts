@@ -0,0 +1,141 @@
+import { User } from '../../types';
+import { bytesToBase64Url, base64UrlToBytes } from './encoding';
+
+export const SESSION_STORAGE_KEY = 'dermolink_session';
+
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // Absolute lifetime: one clinic shift
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+export const REAUTH_WINDOW_MS = 5 * 60 * 1000; // Sensitive actions need credentials this recent
+
+export interface SessionClaims {
+  sid: string;
+  user: User; // Public user, never includes the password hash
+  issuedAt: number;
+  expiresAt: number;
+  lastActiveAt: number;
+  reauthenticatedAt: number;
+}
+
+export type SessionStatus = 'active' | 'expired' | 'idle';
+
+// --- Pure checks (take the clock as an argument) ---
+
+export const sessionStatus = (claims: SessionClaims, now: number): SessionStatus => {
+  if (now >= claims.expiresAt) return 'expired';
+  if (now - claims.lastActiveAt >= IDLE_TIMEOUT_MS) return 'idle';
+  return 'active';
+};
+
+export const needsReauth = (claims: SessionClaims, now: number): boolean =>
+  now - claims.reauthenticatedAt >= REAUTH_WINDOW_MS;
+
+// --- Signing key ---
+
+// The HMAC key is generated on this device and kept non-extractable in
+// IndexedDB, so page scripts can sign and verify but never read the key.
+const KEY_DB = 'dermolink-keys';
+const KEY_ID = 'session-hmac';
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']) as Promise<CryptoKey>;
+
+const loadOrCreateKey = (): Promise<CryptoKey> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      // Sessions then only last as long as this page
+      generateKey().then(resolve, reject);
+      return;
+    }
+    const req = indexedDB.open(KEY_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore('keys');
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const db = req.result;
+      const get = db.transaction('keys').objectStore('keys').get(KEY_ID);
+      get.onerror = () => reject(get.error);
+      get.onsuccess = async () => {
+        if (get.result) {
+          resolve(get.result);
+          return;
+        }
+        const key = await generateKey();
+        const tx = db.transaction('keys', 'readwrite');
+        // add() fails if another tab won the race; use whichever key was stored first
+        tx.objectStore('keys').add(key, KEY_ID);
+        tx.oncomplete = () => resolve(key);
+        tx.onabort = () => {
+          const retry = db.transaction('keys').objectStore('keys').get(KEY_ID);
+          retry.onsuccess = () => resolve(retry.result);
+          retry.onerror = () => reject(retry.error);
+        };
+      };
+    };
+  });
+
+const getKey = () => {
+  if (!keyPromise) keyPromise = loadOrCreateKey();
+  return keyPromise;
+};
+
+// --- Tokens: base64url(claims).base64url(HMAC-SHA256(claims)) ---
+
+const encoder = new TextEncoder();
+
+export const signClaims = async (claims: SessionClaims): Promise<string> => {
+  const payload = bytesToBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(payload));
+  return `${payload}.${bytesToBase64Url(signature)}`;
+};
+
+export const verifyToken = async (token: string): Promise<SessionClaims | null> => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getKey(), base64UrlToBytes(signature), encoder.encode(payload));
+    if (!valid) return null;
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload)));
+  } catch {
+    return null;
+  }
+};
+
+// --- Persistence ---
+
+const store = async (claims: SessionClaims): Promise<SessionClaims> => {
+  localStorage.setItem(SESSION_STORAGE_KEY, await signClaims(claims));
+  return claims;
+};
+
+export const createSession = (user: User, now: number = Date.now()): Promise<SessionClaims> =>
+  store({
+    sid: crypto.randomUUID(),
+    user,
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+    lastActiveAt: now,
+    reauthenticatedAt: now
+  });
+
+// Returns the stored session only if its signature checks out and it is still active
+export const readSession = async (now: number = Date.now()): Promise<SessionClaims | null> => {
+  const token = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!token) return null;
+  const claims = await verifyToken(token);
+  if (!claims || sessionStatus(claims, now) !== 'active') {
+    clearSession();
+    return null;
+  }
+  return claims;
+};
+
+export const touchSession = (claims: SessionClaims, now: number = Date.now()) =>
+  store({ ...claims, lastActiveAt: now });
+
+export const markReauthenticated = (claims: SessionClaims, now: number = Date.now()) =>
+  store({ ...claims, lastActiveAt: now, reauthenticatedAt: now });
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
@@ -0,0 +1,77 @@
+import { BodyLocation, BodySide } from '../types';
+
+// Geometry of the body map: one figure drawn in a MAP_WIDTH × MAP_HEIGHT box,
+// shown from the front and from the back. Regions are simple shapes so a point
+// can be hit-tested without the DOM. Limbs are named from the patient's side,
+// which is the viewer's left on the back view and the viewer's right on the front.
+
+export const MAP_WIDTH = 200;
+export const MAP_HEIGHT = 440;
+
+export type RegionShape =
+  | { kind: 'ellipse', cx: number, cy: number, rx: number, ry: number }
+  | { kind: 'rect', x: number, y: number, width: number, height: number };
+
+export interface BodyRegion {
+  id: string;
+  label: string;
+  shape: RegionShape;
+}
+
+// Midline regions: id and label on the front, then on the back
+const TRUNK: { front: [string, string], back: [string, string], shape: RegionShape }[] = [
+  { front: ['face', 'Face'], back: ['scalp', 'Back of head'], shape: { kind: 'ellipse', cx: 100, cy: 40, rx: 26, ry: 32 } },
+  { front: ['neck', 'Neck'], back: ['nape', 'Back of neck'], shape: { kind: 'rect', x: 88, y: 70, width: 24, height: 18 } },
+  { front: ['chest', 'Chest'], back: ['upper-back', 'Upper back'], shape: { kind: 'rect', x: 62, y: 88, width: 76, height: 72 } },
+  { front: ['abdomen', 'Abdomen'], back: ['lower-back', 'Lower back'], shape: { kind: 'rect', x: 66, y: 160, width: 68, height: 56 } },
+  { front: ['pelvis', 'Pelvis'], back: ['buttocks', 'Buttocks'], shape: { kind: 'rect', x: 64, y: 216, width: 72, height: 38 } }
+];
+
+// Limbs as drawn on the viewer's left; the other side is mirrored
+const LIMBS: { id: string, label: string, shape: RegionShape }[] = [
+  { id: 'upper-arm', label: 'upper arm', shape: { kind: 'rect', x: 36, y: 90, width: 24, height: 82 } },
+  { id: 'forearm', label: 'forearm', shape: { kind: 'rect', x: 30, y: 172, width: 22, height: 72 } },
+  { id: 'hand', label: 'hand', shape: { kind: 'ellipse', cx: 40, cy: 260, rx: 12, ry: 16 } },
+  { id: 'thigh', label: 'thigh', shape: { kind: 'rect', x: 66, y: 254, width: 32, height: 90 } },
+  { id: 'lower-leg', label: 'lower leg', shape: { kind: 'rect', x: 70, y: 344, width: 26, height: 74 } },
+  { id: 'foot', label: 'foot', shape: { kind: 'ellipse', cx: 83, cy: 424, rx: 14, ry: 9 } }
+];
+
+const mirror = (shape: RegionShape): RegionShape =>
+  shape.kind === 'ellipse'
+    ? { ...shape, cx: MAP_WIDTH - shape.cx }
+    : { ...shape, x: MAP_WIDTH - shape.x - shape.width };
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const regionsFor = (side: BodySide): BodyRegion[] => {
+  const viewerLeft = side === 'front' ? 'right' : 'left';
+  const viewerRight = side === 'front' ? 'left' : 'right';
+  return [
+    ...TRUNK.map(({ shape, ...names }) => ({ id: names[side][0], label: names[side][1], shape })),
+    ...LIMBS.flatMap(limb => [
+      { id: `${viewerLeft}-${limb.id}`, label: capitalize(`${viewerLeft} ${limb.label}`), shape: limb.shape },
+      { id: `${viewerRight}-${limb.id}`, label: capitalize(`${viewerRight} ${limb.label}`), shape: mirror(limb.shape) }
+    ])
+  ];
+};
+
+const contains = (shape: RegionShape, x: number, y: number) =>
+  shape.kind === 'ellipse'
+    ? ((x - shape.cx) / shape.rx) ** 2 + ((y - shape.cy) / shape.ry) ** 2 <= 1
+    : x >= shape.x && x <= shape.x + shape.width && y >= shape.y && y <= shape.y + shape.height;
+
+// The region under a point given as fractions of the map; null off the figure
+export const regionAt = (side: BodySide, x: number, y: number): BodyRegion | null =>
+  regionsFor(side).find(region => contains(region.shape, x * MAP_WIDTH, y * MAP_HEIGHT)) ?? null;
+
+export const locationAt = (side: BodySide, x: number, y: number): BodyLocation | null => {
+  const region = regionAt(side, x, y);
+  return region ? { side, region: region.id, x: Math.round(x * 1000) / 1000, y: Math.round(y * 1000) / 1000 } : null;
+};
+
+export const describeLocation = (location: BodyLocation | undefined) => {
+  if (!location) return 'Not on the body map';
+  const region = regionsFor(location.side).find(r => r.id === location.region);
+  return `${region?.label ?? location.region} (${location.side})`;
+};
@@ -0,0 +1,95 @@
+import { ChatThread, Message } from '../types';
+import { PatientRepository } from './storage/repository';
+import { ChatContext, ChatHistory, summarizeConversation } from './analysisService';
+
+export const DERMOBOT_GREETING = "Hello! I'm DermoBot. How is your skin feeling today? Any new symptoms?";
+const DEFAULT_THREAD_TITLE = 'New conversation';
+const TITLE_LENGTH = 40;
+
+// Limits on what is sent to the model verbatim as `history`
+export const CONTEXT_MESSAGE_LIMIT = 20;
+export const CONTEXT_CHAR_LIMIT = 8000;
+
+export type { ChatHistory };
+
+export const threadMessages = (messages: Message[], threadId: string) =>
+  messages
+    .filter(m => m.threadId === threadId)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+// Most recently active first
+export const sortThreads = (threads: ChatThread[]) =>
+  [...threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+// Index of the first message that still fits in the verbatim window
+export const contextWindowStart = (messages: Message[], maxMessages = CONTEXT_MESSAGE_LIMIT, maxChars = CONTEXT_CHAR_LIMIT) => {
+  let start = messages.length;
+  let chars = 0;
+  while (start > 0 && messages.length - start < maxMessages) {
+    chars += messages[start - 1].text.length;
+    if (chars > maxChars && start < messages.length) break;
+    start--;
+  }
+  return start;
+};
+
+const toChatHistory = (messages: Message[]): ChatHistory =>
+  messages.map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
+
+export const startThread = async (repository: PatientRepository, patientId: string) => {
+  const now = new Date();
+  const thread: ChatThread = {
+    id: crypto.randomUUID(),
+    title: DEFAULT_THREAD_TITLE,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  };
+  const greeting: Message = { id: crypto.randomUUID(), threadId: thread.id, role: 'model', text: DERMOBOT_GREETING, timestamp: now };
+  await repository.saveThread(patientId, thread);
+  await repository.addMessage(patientId, greeting);
+  return { thread, messages: [greeting] };
+};
+
+// Stores the message and bumps the thread; the first patient message names the thread
+export const appendMessage = async (repository: PatientRepository, patientId: string, thread: ChatThread, message: Message) => {
+  await repository.addMessage(patientId, message);
+  const updated: ChatThread = {
+    ...thread,
+    updatedAt: new Date(message.timestamp).toISOString(),
+    title: thread.title === DEFAULT_THREAD_TITLE && message.role === 'user'
+      ? message.text.length > TITLE_LENGTH ? `${message.text.slice(0, TITLE_LENGTH).trim()}…` : message.text
+      : thread.title
+  };
+  await repository.saveThread(patientId, updated);
+  return updated;
+};
+
+// Builds the `history` and context for the next model call. Turns that no
+// longer fit the window are folded into the thread's running summary; if
+// summarising fails they are simply left out.
+export const prepareChatRequest = async (
+  repository: PatientRepository,
+  patientId: string,
+  thread: ChatThread,
+  messages: Message[]
+): Promise<{ history: ChatHistory, context: ChatContext, thread: ChatThread }> => {
+  const windowStart = contextWindowStart(messages);
+  const summarizedCount = thread.summarizedCount ?? 0;
+
+  if (windowStart > summarizedCount) {
+    // Summarise past the window start too, so the next few turns need no new summary
+    const upTo = Math.max(windowStart, messages.length - Math.floor(CONTEXT_MESSAGE_LIMIT / 2));
+    const summary = await summarizeConversation(messages.slice(summarizedCount, upTo), thread.summary);
+    if (summary) {
+      thread = { ...thread, summary, summarizedCount: upTo };
+      await repository.saveThread(patientId, thread);
+    }
+  }
+
+  const start = Math.max(windowStart, thread.summarizedCount ?? 0);
+  return {
+    history: toChatHistory(messages.slice(start)),
+    context: { conversationSummary: thread.summary },
+    thread
+  };
+};
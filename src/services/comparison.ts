@@ -0,0 +1,120 @@
+import { HistoryEntry } from '../types';
+
+// Change between two photos of the same patient. Deltas are always later minus
+// earlier, whichever order the entries were picked in, so a positive
+// probability or severity delta means the lesion looks worse.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOTABLE_PROBABILITY_CHANGE = 0.1; // Smaller shifts are within the model's run-to-run noise
+const SEVERITY_RANKS: Record<string, number> = { Low: 0, Moderate: 1, High: 2, Critical: 3 };
+
+export interface ProbabilityDelta {
+  label: string;
+  before: number; // 0-1; a class missing from one analysis counts as 0
+  after: number;
+  delta: number;
+}
+
+export interface EntryComparison {
+  before: HistoryEntry; // The earlier entry
+  after: HistoryEntry;
+  daysApart: number;
+  analyzed: boolean; // Both entries have an AI analysis, so the deltas below are meaningful
+  probabilities: ProbabilityDelta[]; // Largest change first
+  severity: { before: string | null, after: string | null, rankChange: number | null, scoreChange: number | null };
+  diagnosisChanged: boolean;
+  features: { added: string[], removed: string[], unchanged: string[] };
+  summary: string[];
+}
+
+const normalizeFeature = (feature: string) => feature.trim().toLowerCase();
+
+const entryTime = (entry: HistoryEntry) => {
+  const t = Date.parse(`${entry.date}T00:00:00Z`);
+  return Number.isNaN(t) ? 0 : t;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const signedPoints = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100)} points`;
+
+const compareFeatures = (before: string[], after: string[]) => {
+  const beforeKeys = new Set(before.map(normalizeFeature));
+  const afterKeys = new Set(after.map(normalizeFeature));
+  return {
+    added: after.filter(f => !beforeKeys.has(normalizeFeature(f))),
+    removed: before.filter(f => !afterKeys.has(normalizeFeature(f))),
+    unchanged: after.filter(f => beforeKeys.has(normalizeFeature(f)))
+  };
+};
+
+const summarize = (c: Omit<EntryComparison, 'summary'>) => {
+  const lines: string[] = [];
+  const span = c.daysApart === 0 ? 'on the same day' : `${c.daysApart} day(s) apart`;
+  if (!c.analyzed) {
+    const missing = [c.before, c.after].filter(e => !e.analysisResult).map(e => e.date);
+    lines.push(`Photos taken ${span}. Run a CNN Diagnosis on ${missing.join(' and ')} to compute changes.`);
+    return lines;
+  }
+
+  const beforeResult = c.before.analysisResult!;
+  const afterResult = c.after.analysisResult!;
+  lines.push(c.diagnosisChanged
+    ? `Top diagnosis changed from ${beforeResult.diagnosis} to ${afterResult.diagnosis} over ${c.daysApart} day(s).`
+    : `Top diagnosis unchanged (${afterResult.diagnosis}) over ${c.daysApart} day(s).`);
+
+  if (c.severity.rankChange !== null && c.severity.rankChange !== 0) {
+    lines.push(`Severity ${c.severity.rankChange > 0 ? 'increased' : 'decreased'} from ${c.severity.before} to ${c.severity.after}.`);
+  } else if (c.severity.scoreChange !== null && c.severity.scoreChange !== 0) {
+    lines.push(`Severity score ${c.severity.scoreChange > 0 ? 'rose' : 'fell'} by ${Math.abs(c.severity.scoreChange)} point(s).`);
+  } else {
+    lines.push('Severity is unchanged.');
+  }
+
+  const notable = c.probabilities.filter(p => Math.abs(p.delta) >= NOTABLE_PROBABILITY_CHANGE);
+  for (const p of notable.slice(0, 3)) {
+    lines.push(`${p.label} probability ${p.delta > 0 ? 'rose' : 'fell'} from ${percent(p.before)} to ${percent(p.after)} (${signedPoints(p.delta)}).`);
+  }
+  if (notable.length === 0) lines.push('No class probability moved by more than 10 points.');
+
+  if (c.features.added.length > 0) lines.push(`New features: ${c.features.added.join(', ')}.`);
+  if (c.features.removed.length > 0) lines.push(`No longer reported: ${c.features.removed.join(', ')}.`);
+  return lines;
+};
+
+export const compareEntries = (first: HistoryEntry, second: HistoryEntry): EntryComparison => {
+  const [before, after] = entryTime(first) <= entryTime(second) ? [first, second] : [second, first];
+  const beforeResult = before.analysisResult;
+  const afterResult = after.analysisResult;
+  const analyzed = !!beforeResult && !!afterResult;
+
+  const labels = new Set([...Object.keys(beforeResult?.probabilities ?? {}), ...Object.keys(afterResult?.probabilities ?? {})]);
+  const probabilities = analyzed
+    ? [...labels]
+      .map(label => {
+        const b = beforeResult.probabilities[label] ?? 0;
+        const a = afterResult.probabilities[label] ?? 0;
+        return { label, before: b, after: a, delta: a - b };
+      })
+      .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta))
+    : [];
+
+  const beforeRank = beforeResult ? SEVERITY_RANKS[beforeResult.severity] : undefined;
+  const afterRank = afterResult ? SEVERITY_RANKS[afterResult.severity] : undefined;
+  const comparison = {
+    before,
+    after,
+    daysApart: Math.round(Math.abs(entryTime(after) - entryTime(before)) / DAY_MS),
+    analyzed,
+    probabilities,
+    severity: {
+      before: beforeResult?.severity ?? null,
+      after: afterResult?.severity ?? null,
+      rankChange: beforeRank !== undefined && afterRank !== undefined ? afterRank - beforeRank : null,
+      scoreChange: analyzed ? after.severityScore - before.severityScore : null
+    },
+    diagnosisChanged: analyzed && beforeResult.diagnosis !== afterResult.diagnosis,
+    features: analyzed ? compareFeatures(beforeResult.features, afterResult.features) : { added: [], removed: [], unchanged: [] }
+  };
+  return { ...comparison, summary: summarize(comparison) };
+};
@@ -0,0 +1,142 @@
+import { RasterImage } from './raster';
+import { connectedComponents, dilate } from './lesionMetrics';
+
+// DullRazor-style hair removal: hairs are thin dark lines, so a greyscale closing
+// with line-shaped elements fills them in, and the difference from the original
+// (the black-hat) marks them. Masked pixels are then rebuilt from the skin around
+// them. Unlike the generative model this never invents detail: every pixel outside
+// the mask is returned untouched, and the same photo always gives the same result.
+
+export const HAIR_MAX_SIDE = 1024; // Photos are downscaled to this before processing
+const HAIR_CONTRAST = 20; // Black-hat response, in grey levels, that counts as hair
+const MIN_HAIR_LENGTH_RATIO = 2; // A hair spans at least this many structuring-element lengths
+const MASK_MARGIN = 1; // Dilation so the inpainting also covers the hair's soft edges
+
+// Horizontal, vertical and both diagonals, as unit steps
+const DIRECTIONS: [number, number][] = [[1, 0], [0, 1], [1, 1], [1, -1]];
+
+export interface HairRemovalResult {
+  cleaned: RasterImage;
+  mask: Uint8Array; // 1 for pixels detected as hair
+  hairFraction: number; // Share of the photo that was inpainted
+}
+
+// Longer than a hair is wide but shorter than lesion structures, scaled with the photo
+export const elementLength = (width: number, height: number) => {
+  const length = Math.max(5, Math.round(Math.min(width, height) / 60));
+  return length % 2 === 0 ? length + 1 : length;
+};
+
+export const luminance = (image: RasterImage) => {
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    const o = i * 4;
+    gray[i] = Math.round(0.299 * image.data[o] + 0.587 * image.data[o + 1] + 0.114 * image.data[o + 2]);
+  }
+  return gray;
+};
+
+// Greyscale dilation (max) or erosion (min) along one line direction; the line is clipped at the edges
+const lineMorph = (gray: Uint8Array, width: number, height: number, [dx, dy]: [number, number], half: number, max: boolean) => {
+  const out = new Uint8Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = gray[y * width + x];
+      for (let k = -half; k <= half; k++) {
+        const nx = x + k * dx;
+        const ny = y + k * dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const v = gray[ny * width + nx];
+        value = max ? Math.max(value, v) : Math.min(value, v);
+      }
+      out[y * width + x] = value;
+    }
+  }
+  return out;
+};
+
+// Maximum over directions of the closing minus the original. A hair is filled by the
+// element lying across it, so at least one direction always responds.
+export const blackHat = (gray: Uint8Array, width: number, height: number, length: number) => {
+  const half = Math.floor(length / 2);
+  const response = new Uint8Array(gray.length);
+  for (const direction of DIRECTIONS) {
+    const closed = lineMorph(lineMorph(gray, width, height, direction, half, true), width, height, direction, half, false);
+    for (let i = 0; i < gray.length; i++) response[i] = Math.max(response[i], closed[i] - gray[i]);
+  }
+  return response;
+};
+
+// Thresholded black-hat, keeping only components long enough to be hairs rather than pores or dots
+export const detectHair = (image: RasterImage) => {
+  const { width, height } = image;
+  const length = elementLength(width, height);
+  const response = blackHat(luminance(image), width, height, length);
+  const candidates = new Uint8Array(response.length);
+  for (let i = 0; i < response.length; i++) candidates[i] = response[i] >= HAIR_CONTRAST ? 1 : 0;
+
+  const mask = new Uint8Array(response.length);
+  for (const component of connectedComponents(candidates, width, height)) {
+    const span = Math.max(component.maxX - component.minX, component.maxY - component.minY) + 1;
+    if (span < length * MIN_HAIR_LENGTH_RATIO) continue;
+    for (const i of component.pixels) mask[i] = 1;
+  }
+  return dilate(mask, width, height, MASK_MARGIN);
+};
+
+// Onion-peel inpainting: each pass fills the masked pixels that touch known ones with the
+// average of those neighbours, working inwards until the mask is gone
+export const inpaint = (image: RasterImage, mask: Uint8Array): RasterImage => {
+  const { width, height } = image;
+  const data = new Uint8ClampedArray(image.data);
+  const unknown = new Uint8Array(mask);
+  let remaining = unknown.reduce((sum, v) => sum + v, 0);
+
+  while (remaining > 0) {
+    const filled: { i: number, rgb: [number, number, number] }[] = [];
+    for (let i = 0; i < unknown.length; i++) {
+      if (!unknown[i]) continue;
+      const x = i % width;
+      const y = (i - x) / width;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (unknown[n]) continue;
+          r += data[n * 4];
+          g += data[n * 4 + 1];
+          b += data[n * 4 + 2];
+          count++;
+        }
+      }
+      if (count > 0) filled.push({ i, rgb: [r / count, g / count, b / count] });
+    }
+    if (filled.length === 0) break; // The whole photo is masked; nothing to fill from
+
+    // Apply after the pass so the result does not depend on scan order
+    for (const { i, rgb } of filled) {
+      data[i * 4] = rgb[0];
+      data[i * 4 + 1] = rgb[1];
+      data[i * 4 + 2] = rgb[2];
+      unknown[i] = 0;
+    }
+    remaining -= filled.length;
+  }
+  return { width, height, data };
+};
+
+export const removeHair = (image: RasterImage): HairRemovalResult => {
+  const mask = detectHair(image);
+  const hairPixels = mask.reduce((sum, v) => sum + v, 0);
+  return {
+    cleaned: hairPixels > 0 ? inpaint(image, mask) : image,
+    mask,
+    hairFraction: hairPixels / mask.length
+  };
+};
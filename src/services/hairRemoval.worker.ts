@@ -0,0 +1,18 @@
+import { removeHair } from './hairRemoval';
+import { HairWorkerRequest, HairWorkerResponse } from './hairRemovalService';
+
+// Runs the hair-removal pipeline off the main thread; pixel buffers are transferred, not copied
+self.onmessage = (event: MessageEvent<HairWorkerRequest>) => {
+  const { id, width, height, pixels } = event.data;
+  let response: HairWorkerResponse;
+  try {
+    const result = removeHair({ width, height, data: new Uint8ClampedArray(pixels) });
+    const cleaned = new Uint8ClampedArray(result.cleaned.data).buffer;
+    const mask = result.mask.buffer as ArrayBuffer;
+    response = { id, status: 'done', width, height, cleaned, mask, hairFraction: result.hairFraction };
+    self.postMessage(response, { transfer: [cleaned, mask] });
+  } catch (error) {
+    response = { id, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
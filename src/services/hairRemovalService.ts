@@ -0,0 +1,80 @@
+import { HAIR_MAX_SIDE } from './hairRemoval';
+import { RasterImage, loadRaster, rasterToDataUrl } from './raster';
+
+// Local hair removal, run in a Web Worker so a large photo does not freeze the
+// viewer. The result is the cleaned photo plus the hair mask as a transparent
+// overlay, so clinicians can see exactly which pixels were rebuilt.
+
+export type HairRemovalMode = 'local' | 'ai';
+
+export interface HairWorkerRequest {
+  id: number;
+  width: number;
+  height: number;
+  pixels: ArrayBuffer; // RGBA
+}
+
+export type HairWorkerResponse =
+  | { id: number, status: 'done', width: number, height: number, cleaned: ArrayBuffer, mask: ArrayBuffer, hairFraction: number }
+  | { id: number, status: 'failed', error: string };
+
+export interface LocalHairRemoval {
+  cleanedUrl: string; // JPEG data URL
+  maskUrl: string; // PNG data URL, hair opaque and everything else transparent
+  hairFraction: number;
+}
+
+const MASK_RGBA = [239, 68, 68, 200]; // Semi-opaque red, visible on skin and on pigment
+
+let worker: Worker | null = null;
+let nextId = 0;
+
+const getWorker = () => {
+  worker ??= new Worker(new URL('./hairRemoval.worker.ts', import.meta.url), { type: 'module' });
+  return worker;
+};
+
+const runInWorker = (image: RasterImage) =>
+  new Promise<Extract<HairWorkerResponse, { status: 'done' }>>((resolve, reject) => {
+    const id = ++nextId;
+    const target = getWorker();
+    const onMessage = (event: MessageEvent<HairWorkerResponse>) => {
+      const response = event.data;
+      if (response.id !== id) return;
+      target.removeEventListener('message', onMessage);
+      target.removeEventListener('error', onError);
+      if (response.status === 'done') resolve(response);
+      else reject(new Error(response.error));
+    };
+    const onError = (event: ErrorEvent) => {
+      target.removeEventListener('message', onMessage);
+      target.removeEventListener('error', onError);
+      worker = null; // A crashed worker is replaced on the next call
+      reject(new Error(event.message || 'Hair removal worker failed'));
+    };
+    target.addEventListener('message', onMessage);
+    target.addEventListener('error', onError);
+    const pixels = image.data.slice().buffer;
+    const request: HairWorkerRequest = { id, width: image.width, height: image.height, pixels };
+    target.postMessage(request, [pixels]);
+  });
+
+const maskToRaster = (mask: Uint8Array, width: number, height: number): RasterImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    data.set(MASK_RGBA, i * 4);
+  }
+  return { width, height, data };
+};
+
+// The URL must be same-origin or a data URL so the canvas can be read
+export const removeHairLocally = async (url: string): Promise<LocalHairRemoval> => {
+  const { image } = await loadRaster(url, HAIR_MAX_SIDE);
+  const result = await runInWorker(image);
+  return {
+    cleanedUrl: rasterToDataUrl({ width: result.width, height: result.height, data: new Uint8ClampedArray(result.cleaned) }),
+    maskUrl: rasterToDataUrl(maskToRaster(new Uint8Array(result.mask), result.width, result.height), 'image/png'),
+    hairFraction: result.hairFraction
+  };
+};
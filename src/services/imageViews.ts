@@ -0,0 +1,24 @@
+import { EntryImage, HistoryEntry, ImageView } from '../types';
+
+// Views in the order a skin check captures them
+export const IMAGE_VIEWS: ImageView[] = ['overview', 'macro', 'dermoscopy', 'other'];
+
+export const VIEW_LABELS: Record<ImageView, string> = {
+  overview: 'Overview',
+  macro: 'Close-up',
+  dermoscopy: 'Dermoscopy',
+  other: 'Other'
+};
+
+// Which view becomes the primary one, most lesion detail first
+const PRIMARY_PREFERENCE: ImageView[] = ['dermoscopy', 'macro', 'other', 'overview'];
+
+// Orders views so the primary comes first; ties keep the order they were taken in
+export const orderViews = <T extends { view: ImageView }>(images: T[]): T[] =>
+  [...images].sort((a, b) => PRIMARY_PREFERENCE.indexOf(a.view) - PRIMARY_PREFERENCE.indexOf(b.view));
+
+// Every view of an entry; single-photo entries predate tagging, so their photo is 'other'
+export const entryImages = (entry: HistoryEntry): EntryImage[] =>
+  entry.images && entry.images.length > 0 ? entry.images : [{ id: `${entry.id}-primary`, view: 'other', url: entry.imageUrl }];
+
+export const isPrimaryImage = (entry: HistoryEntry, image: EntryImage) => image.url === entry.imageUrl;
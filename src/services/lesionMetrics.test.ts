@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { computeLesionMetrics, detectCalibrationSticker, segmentLesion } from './lesionMetrics';
+import { RasterImage } from './raster';
+
+type Rgb = [number, number, number];
+
+const SKIN: Rgb = [225, 180, 160];
+const DARK_BROWN: Rgb = [100, 60, 40];
+const LIGHT_BROWN: Rgb = [175, 115, 75];
+const STICKER_BLUE: Rgb = [40, 90, 200];
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+// A synthetic photo: skin everywhere, with each shape painted in order on top
+const paint = (size: number, shapes: { color: Rgb, inside: (x: number, y: number) => boolean }[]): RasterImage => {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = [...shapes].reverse().find(s => s.inside(x, y))?.color ?? SKIN;
+      data.set([...color, 255], (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+};
+
+const disc = (cx: number, cy: number, r: number) => (x: number, y: number) => (x - cx) ** 2 + (y - cy) ** 2 <= r * r;
+
+describe('computeLesionMetrics', () => {
+  it('measures a round, single-coloured lesion as symmetric and regular', () => {
+    const metrics = computeLesionMetrics(paint(128, [{ color: DARK_BROWN, inside: disc(64, 64, 20) }]), { now: NOW })!;
+    expect(metrics.asymmetricAxes).toBe(0);
+    expect(metrics.asymmetry).toBeLessThan(0.05);
+    expect(metrics.borderIrregularity).toBeGreaterThan(0.9);
+    expect(metrics.borderIrregularity).toBeLessThan(1.2);
+    expect(metrics.colors).toEqual(['dark-brown']);
+    expect(metrics.diameterPx).toBeGreaterThanOrEqual(40);
+    expect(metrics.diameterPx).toBeLessThanOrEqual(42);
+    expect(metrics.diameterMm).toBeNull();
+    expect(metrics.measuredAt).toBe(NOW.toISOString());
+  });
+
+  it('scores a lobed, two-coloured lesion as asymmetric with more colours', () => {
+    const image = paint(128, [
+      { color: LIGHT_BROWN, inside: (x, y) => disc(56, 64, 20)(x, y) || disc(82, 50, 12)(x, y) },
+      { color: DARK_BROWN, inside: disc(50, 70, 10) }
+    ]);
+    const metrics = computeLesionMetrics(image, { now: NOW })!;
+    expect(metrics.asymmetricAxes).toBeGreaterThan(0);
+    expect(metrics.borderIrregularity).toBeGreaterThan(1.1);
+    expect(metrics.colors).toEqual(['light-brown', 'dark-brown']);
+  });
+
+  it('gives the diameter in millimetres when a calibration sticker is visible', () => {
+    const image = paint(128, [
+      { color: DARK_BROWN, inside: disc(50, 64, 20) },
+      { color: STICKER_BLUE, inside: disc(104, 24, 10) }
+    ]);
+    expect(detectCalibrationSticker(image)?.diameterPx).toBeCloseTo(20, 0);
+    const metrics = computeLesionMetrics(image, { now: NOW })!;
+    // 41 px across, with 10 mm spanning about 20 px
+    expect(metrics.diameterMm).toBeGreaterThan(19);
+    expect(metrics.diameterMm).toBeLessThan(21);
+    expect(metrics.colors).toEqual(['dark-brown']);
+  });
+
+  it('scales the pixel diameter back to the original photo', () => {
+    const image = paint(128, [{ color: DARK_BROWN, inside: disc(64, 64, 20) }]);
+    const full = computeLesionMetrics(image, { now: NOW })!;
+    const scaled = computeLesionMetrics(image, { now: NOW, sourcePixelsPerPixel: 4 })!;
+    expect(Math.abs(scaled.diameterPx - full.diameterPx * 4)).toBeLessThanOrEqual(2);
+    expect(scaled.asymmetry).toBe(full.asymmetry);
+  });
+
+  it('reports the change since the previous measurement', () => {
+    const previous = computeLesionMetrics(paint(128, [{ color: DARK_BROWN, inside: disc(50, 64, 15) }, { color: STICKER_BLUE, inside: disc(104, 24, 10) }]), { now: NOW })!;
+    const current = computeLesionMetrics(
+      paint(128, [{ color: DARK_BROWN, inside: disc(50, 64, 20) }, { color: STICKER_BLUE, inside: disc(104, 24, 10) }]),
+      { now: NOW, previous: { entryId: 'e1', date: '2025-01-30', metrics: previous }, date: '2025-03-01' }
+    )!;
+    expect(current.evolution).toMatchObject({ previousEntryId: 'e1', previousDate: '2025-01-30', daysApart: 30, colorCountChange: 0 });
+    expect(current.evolution!.diameterChangeMm).toBeGreaterThan(4);
+    expect(current.evolution!.diameterChangeMm).toBeLessThan(6);
+  });
+
+  it('finds nothing on plain skin', () => {
+    expect(segmentLesion(paint(64, []))).toBeNull();
+    expect(computeLesionMetrics(paint(64, []), { now: NOW })).toBeNull();
+  });
+});
@@ -0,0 +1,382 @@
+import { DermoscopicColor, LesionEvolution, LesionMetrics } from '../types';
+import { RasterImage, loadRaster } from './raster';
+
+// ABCDE measurements computed on the device, so the same photo always gives
+// the same numbers. Everything except measureLesion works on plain RGBA
+// arrays, so it runs without a DOM on synthetic images.
+
+export interface Segmentation {
+  width: number;
+  height: number;
+  mask: Uint8Array; // 1 for lesion pixels
+  area: number;
+  threshold: number;
+}
+
+export const MEASURE_MAX_SIDE = 256; // Photos are downscaled to this before measuring
+export const CALIBRATION_STICKER_MM = 10; // Diameter of the round blue or green sticker placed beside the lesion
+
+// Where the ABCD rule starts counting a measurement against the lesion
+export const IRREGULAR_BORDER = 1.5;
+export const MANY_COLORS = 3;
+export const LARGE_DIAMETER_MM = 6;
+
+const MORPHOLOGY_RADIUS = 1;
+const BORDER_TOUCH_PENALTY = 0.25; // Dark blobs touching the edge are usually vignetting or shadow
+const MAX_AREA_FRACTION = 0.9; // A "lesion" covering the whole photo means segmentation failed
+const MIN_AREA_PIXELS = 30;
+const ASYMMETRIC_AXIS_THRESHOLD = 0.1;
+const MIN_COLOR_SHARE = 0.05; // A colour counts once it covers this share of the lesion
+const MIN_STICKER_PIXELS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approximate sRGB of each dermoscopic colour; pixels are assigned to the nearest one
+const COLOR_REFERENCES: { color: DermoscopicColor, rgb: [number, number, number] }[] = [
+  { color: 'white', rgb: [225, 220, 215] },
+  { color: 'red', rgb: [200, 60, 60] },
+  { color: 'light-brown', rgb: [175, 115, 75] },
+  { color: 'dark-brown', rgb: [100, 60, 40] },
+  { color: 'blue-gray', rgb: [100, 115, 135] },
+  { color: 'black', rgb: [30, 25, 25] }
+];
+
+// Segmentation runs on the blue channel: skin reflects blue strongly while every shade of
+// pigment absorbs it, so light-brown areas do not split off from dark ones as in luminance
+export const blueChannel = (image: RasterImage) => {
+  const blue = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < blue.length; i++) blue[i] = image.data[i * 4 + 2];
+  return blue;
+};
+
+// Level that best separates the histogram into two classes (maximum between-class variance).
+// Pixels flagged in `ignore` (e.g. a calibration sticker) are left out of the histogram.
+export const otsuThreshold = (levels: Uint8Array, ignore?: Uint8Array) => {
+  const histogram = new Array<number>(256).fill(0);
+  let total = 0;
+  for (let i = 0; i < levels.length; i++) {
+    if (ignore?.[i]) continue;
+    histogram[levels[i]]++;
+    total++;
+  }
+  let sum = 0;
+  for (let level = 0; level < 256; level++) sum += level * histogram[level];
+
+  let best = 0;
+  let bestVariance = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+};
+
+// Square structuring element; erosion keeps a pixel only if its whole neighbourhood is set
+const morph = (mask: Uint8Array, width: number, height: number, radius: number, erode: boolean) => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = erode ? 1 : 0;
+      for (let dy = -radius; dy <= radius && value === (erode ? 1 : 0); dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          const set = nx >= 0 && ny >= 0 && nx < width && ny < height && mask[ny * width + nx] === 1;
+          if (erode && !set) { value = 0; break; }
+          if (!erode && set) { value = 1; break; }
+        }
+      }
+      out[y * width + x] = value;
+    }
+  }
+  return out;
+};
+
+export const erode = (mask: Uint8Array, width: number, height: number, radius = MORPHOLOGY_RADIUS) => morph(mask, width, height, radius, true);
+export const dilate = (mask: Uint8Array, width: number, height: number, radius = MORPHOLOGY_RADIUS) => morph(mask, width, height, radius, false);
+
+// Opening removes specks and hairs thinner than the element; closing fills pinholes and nicks
+export const openMask = (mask: Uint8Array, width: number, height: number, radius = MORPHOLOGY_RADIUS) =>
+  dilate(erode(mask, width, height, radius), width, height, radius);
+export const closeMask = (mask: Uint8Array, width: number, height: number, radius = MORPHOLOGY_RADIUS) =>
+  erode(dilate(mask, width, height, radius), width, height, radius);
+
+interface Component {
+  pixels: number[];
+  touchesBorder: boolean;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// 4-connected components of a mask
+export const connectedComponents = (mask: Uint8Array, width: number, height: number) => {
+  const seen = new Uint8Array(mask.length);
+  const components: Component[] = [];
+  const queue = new Int32Array(mask.length);
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const component: Component = { pixels: [], touchesBorder: false, minX: width, maxX: 0, minY: height, maxY: 0 };
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    seen[start] = 1;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      const y = (i - x) / width;
+      component.pixels.push(i);
+      component.minX = Math.min(component.minX, x);
+      component.maxX = Math.max(component.maxX, x);
+      component.minY = Math.min(component.minY, y);
+      component.maxY = Math.max(component.maxY, y);
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) component.touchesBorder = true;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          queue[tail++] = n;
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+};
+
+// Background reachable from the image edge stays background; everything else is a hole and is filled
+const fillHoles = (mask: Uint8Array, width: number, height: number) => {
+  const background = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) background[i] = mask[i] ? 0 : 1;
+  const filled = new Uint8Array(mask.length).fill(1);
+  for (const component of connectedComponents(background, width, height)) {
+    if (!component.touchesBorder) continue;
+    for (const i of component.pixels) filled[i] = 0;
+  }
+  return filled;
+};
+
+// Calibration stickers are saturated blue or green, a hue skin and pigment never reach
+const isStickerColor = (r: number, g: number, b: number) => (g > r + 40 && g > b) || (b > r + 40 && b > g);
+
+export const detectCalibrationSticker = (image: RasterImage): { mask: Uint8Array, diameterPx: number } | null => {
+  const { width, height, data } = image;
+  const candidates = new Uint8Array(width * height);
+  for (let i = 0; i < candidates.length; i++) {
+    candidates[i] = isStickerColor(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) ? 1 : 0;
+  }
+  const sticker = connectedComponents(candidates, width, height).sort((a, b) => b.pixels.length - a.pixels.length)[0];
+  if (!sticker || sticker.pixels.length < MIN_STICKER_PIXELS) return null;
+
+  // Round: the bounding box is square-ish and the disc fills about π/4 of it
+  const boxWidth = sticker.maxX - sticker.minX + 1;
+  const boxHeight = sticker.maxY - sticker.minY + 1;
+  const aspect = boxWidth / boxHeight;
+  const fill = sticker.pixels.length / (boxWidth * boxHeight);
+  if (aspect < 0.75 || aspect > 1.33 || fill < 0.6 || fill > 0.95) return null;
+
+  const mask = new Uint8Array(width * height);
+  for (const i of sticker.pixels) mask[i] = 1;
+  return { mask: dilate(mask, width, height, 2), diameterPx: 2 * Math.sqrt(sticker.pixels.length / Math.PI) };
+};
+
+// Lesions are darker than the surrounding skin: threshold, clean up, then keep the most
+// plausible blob. Returns null when nothing lesion-like is found.
+export const segmentLesion = (image: RasterImage, exclude?: Uint8Array): Segmentation | null => {
+  const { width, height } = image;
+  const blue = blueChannel(image);
+  const threshold = otsuThreshold(blue, exclude);
+  let mask = new Uint8Array(blue.length);
+  for (let i = 0; i < blue.length; i++) mask[i] = blue[i] <= threshold && !exclude?.[i] ? 1 : 0;
+  mask = closeMask(openMask(mask, width, height), width, height);
+
+  const score = (c: Component) => c.pixels.length * (c.touchesBorder ? BORDER_TOUCH_PENALTY : 1);
+  const lesion = connectedComponents(mask, width, height).sort((a, b) => score(b) - score(a))[0];
+  if (!lesion || lesion.pixels.length < MIN_AREA_PIXELS) return null;
+
+  const only = new Uint8Array(blue.length);
+  for (const i of lesion.pixels) only[i] = 1;
+  const filled = fillHoles(only, width, height);
+  let area = 0;
+  for (let i = 0; i < filled.length; i++) area += filled[i];
+  if (area / filled.length > MAX_AREA_FRACTION) return null;
+  return { width, height, mask: filled, area, threshold };
+};
+
+// Overlap lost when the lesion is mirrored across each principal axis through its centroid
+export const asymmetryOf = (seg: Segmentation) => {
+  const { width, height, mask, area } = seg;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    cx += i % width;
+    cy += Math.floor(i / width);
+  }
+  cx /= area;
+  cy /= area;
+
+  let mu20 = 0;
+  let mu02 = 0;
+  let mu11 = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const dx = i % width - cx;
+    const dy = Math.floor(i / width) - cy;
+    mu20 += dx * dx;
+    mu02 += dy * dy;
+    mu11 += dx * dy;
+  }
+  const theta = 0.5 * Math.atan2(2 * mu11, mu20 - mu02);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  const mismatch = [0, 0]; // Across the major axis, then the minor axis
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const dx = i % width - cx;
+    const dy = Math.floor(i / width) - cy;
+    const u = dx * cos + dy * sin;
+    const v = -dx * sin + dy * cos;
+    [[u, -v], [-u, v]].forEach(([mu, mv], axis) => {
+      const x = Math.round(cx + mu * cos - mv * sin);
+      const y = Math.round(cy + mu * sin + mv * cos);
+      if (x < 0 || y < 0 || x >= width || y >= height || !mask[y * width + x]) mismatch[axis]++;
+    });
+  }
+  const scores = mismatch.map(m => m / area);
+  return {
+    asymmetry: (scores[0] + scores[1]) / 2,
+    asymmetricAxes: scores.filter(s => s > ASYMMETRIC_AXIS_THRESHOLD).length
+  };
+};
+
+const isBoundary = (mask: Uint8Array, width: number, height: number, i: number) => {
+  const x = i % width;
+  const y = (i - x) / width;
+  return x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+    !mask[i - 1] || !mask[i + 1] || !mask[i - width] || !mask[i + width];
+};
+
+// Compactness from the crack-edge perimeter. Pixel edges overcount slanted borders by 4/π on
+// average, so the count is scaled back to keep a digital disc near 1.
+export const borderIrregularityOf = (seg: Segmentation) => {
+  const { width, height, mask, area } = seg;
+  let edges = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x === 0 || !mask[i - 1]) edges++;
+    if (x === width - 1 || !mask[i + 1]) edges++;
+    if (y === 0 || !mask[i - width]) edges++;
+    if (y === height - 1 || !mask[i + width]) edges++;
+  }
+  const perimeter = edges * Math.PI / 4;
+  return perimeter * perimeter / (4 * Math.PI * area);
+};
+
+export const colorsOf = (image: RasterImage, seg: Segmentation): DermoscopicColor[] => {
+  const counts = new Array<number>(COLOR_REFERENCES.length).fill(0);
+  for (let i = 0; i < seg.mask.length; i++) {
+    if (!seg.mask[i]) continue;
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    COLOR_REFERENCES.forEach(({ rgb }, index) => {
+      const distance = (r - rgb[0]) ** 2 + (g - rgb[1]) ** 2 + (b - rgb[2]) ** 2;
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = index;
+      }
+    });
+    counts[nearest]++;
+  }
+  return COLOR_REFERENCES.filter((_, index) => counts[index] / seg.area >= MIN_COLOR_SHARE).map(c => c.color);
+};
+
+// Longest distance between two boundary pixels (maximum Feret diameter)
+export const diameterOf = (seg: Segmentation) => {
+  const { width, height, mask } = seg;
+  const boundary: [number, number][] = [];
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] && isBoundary(mask, width, height, i)) boundary.push([i % width, Math.floor(i / width)]);
+  }
+  let longest = 0;
+  for (let a = 0; a < boundary.length; a++) {
+    for (let b = a + 1; b < boundary.length; b++) {
+      longest = Math.max(longest, (boundary[a][0] - boundary[b][0]) ** 2 + (boundary[a][1] - boundary[b][1]) ** 2);
+    }
+  }
+  return Math.sqrt(longest) + 1; // Pixel centres, so add one pixel for the outer edges
+};
+
+export const evolutionOf = (
+  current: Omit<LesionMetrics, 'evolution'>,
+  previous: { entryId: string, date: string, metrics: LesionMetrics },
+  currentDate: string
+): LesionEvolution => {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const days = (Date.parse(`${currentDate}T00:00:00Z`) - Date.parse(`${previous.date}T00:00:00Z`)) / DAY_MS;
+  return {
+    previousEntryId: previous.entryId,
+    previousDate: previous.date,
+    daysApart: Number.isNaN(days) ? 0 : Math.round(days),
+    asymmetryChange: round(current.asymmetry - previous.metrics.asymmetry),
+    borderChange: round(current.borderIrregularity - previous.metrics.borderIrregularity),
+    colorCountChange: current.colors.length - previous.metrics.colors.length,
+    diameterChangeMm: current.diameterMm !== null && previous.metrics.diameterMm !== null
+      ? round(current.diameterMm - previous.metrics.diameterMm)
+      : null
+  };
+};
+
+export interface MeasureOptions {
+  sourcePixelsPerPixel?: number; // How much the photo was downscaled before measuring
+  previous?: { entryId: string, date: string, metrics: LesionMetrics };
+  date?: string; // Date of the entry being measured, for evolution
+  now?: Date;
+}
+
+export const computeLesionMetrics = (image: RasterImage, options: MeasureOptions = {}): LesionMetrics | null => {
+  const scale = options.sourcePixelsPerPixel ?? 1;
+  const sticker = detectCalibrationSticker(image);
+  const seg = segmentLesion(image, sticker?.mask);
+  if (!seg) return null;
+
+  const { asymmetry, asymmetricAxes } = asymmetryOf(seg);
+  const diameter = diameterOf(seg);
+  const metrics: Omit<LesionMetrics, 'evolution'> = {
+    asymmetry: Math.round(asymmetry * 1000) / 1000,
+    asymmetricAxes,
+    borderIrregularity: Math.round(borderIrregularityOf(seg) * 1000) / 1000,
+    colors: colorsOf(image, seg),
+    diameterPx: Math.round(diameter * scale),
+    diameterMm: sticker ? Math.round(diameter / sticker.diameterPx * CALIBRATION_STICKER_MM * 10) / 10 : null,
+    areaFraction: Math.round(seg.area / seg.mask.length * 1000) / 1000,
+    threshold: seg.threshold,
+    measuredAt: (options.now ?? new Date()).toISOString()
+  };
+  return options.previous && options.date
+    ? { ...metrics, evolution: evolutionOf(metrics, options.previous, options.date) }
+    : metrics;
+};
+
+export const measureLesion = async (url: string, options: Omit<MeasureOptions, 'sourcePixelsPerPixel'> = {}) => {
+  const { image, sourcePixelsPerPixel } = await loadRaster(url, MEASURE_MAX_SIDE);
+  return computeLesionMetrics(image, { ...options, sourcePixelsPerPixel });
+};
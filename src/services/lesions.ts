@@ -0,0 +1,38 @@
+import { BodyLocation, HistoryEntry, Lesion, PatientRecord } from '../types';
+import { isScored } from './trends';
+
+// Per-lesion views of a patient's record. A lesion's status is derived from
+// its own latest scored entry rather than stored, so it can never disagree
+// with the timeline it summarises.
+
+export type LesionStatus = PatientRecord['status'];
+
+export const LESION_STATUS_COLORS: Record<LesionStatus, string> = {
+  Critical: '#dc2626',
+  Stable: '#d97706',
+  Improving: '#16a34a',
+  New: '#64748b'
+};
+
+export const newLesion = (label: string, location?: BodyLocation, id: string = crypto.randomUUID()): Lesion => ({
+  id,
+  label: label.trim(),
+  ...(location && { location })
+});
+
+// Newest first, like the patient's history
+export const lesionHistory = (history: HistoryEntry[], lesionId: string) =>
+  history.filter(entry => entry.lesionId === lesionId);
+
+// Same thresholds as the patient status; 'New' until a doctor or analysis has scored it
+export const lesionStatus = (history: HistoryEntry[], lesionId: string): LesionStatus => {
+  const latest = lesionHistory(history, lesionId).find(isScored);
+  if (!latest) return 'New';
+  return latest.severityScore > 7 ? 'Critical' : latest.severityScore > 4 ? 'Stable' : 'Improving';
+};
+
+// The lesion a new photo most likely shows: the one photographed last, or the only one
+export const likelyLesionId = (patient: Pick<PatientRecord, 'lesions' | 'history'>) =>
+  patient.history[0]?.lesionId ?? (patient.lesions.length === 1 ? patient.lesions[0].id : null);
+
+export const nextLesionLabel = (lesions: Lesion[]) => `Lesion ${lesions.length + 1}`;
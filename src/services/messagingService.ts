@@ -0,0 +1,29 @@
+import { AppNotification, DirectMessage, User, UserRole } from '../types';
+
+export const MESSAGE_POLL_MS = 30 * 1000; // No push channel, so both dashboards poll
+const PREVIEW_LENGTH = 80;
+
+export const composeDirectMessage = (sender: User, text: string, attachmentIds: string[] = []): DirectMessage => ({
+  id: crypto.randomUUID(),
+  senderId: sender.id,
+  senderRole: sender.role,
+  senderName: sender.name,
+  text: text.trim(),
+  sentAt: new Date().toISOString(),
+  ...(attachmentIds.length > 0 && { attachmentIds })
+});
+
+// Messages from the other side that the viewer has not read yet
+export const unreadMessages = (messages: DirectMessage[], viewerRole: UserRole) =>
+  messages.filter(m => m.senderRole !== viewerRole && !m.readAt);
+
+export const messageNotification = (message: DirectMessage, context?: string): AppNotification => ({
+  id: `dm-${message.id}`,
+  type: 'message',
+  title: context ? `${message.senderName} · ${context}` : message.senderName,
+  message: message.text.length > PREVIEW_LENGTH
+    ? `${message.text.slice(0, PREVIEW_LENGTH)}…`
+    : message.text || `Sent ${message.attachmentIds?.length ?? 0} photo(s)`,
+  timestamp: new Date(message.sentAt),
+  read: false
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildPatientContext, formatPatientContext } from './patientContext';
+import { SEED_DATA } from './storage/seedData';
+import { applyHistoryEntry } from './storage/repository';
+import { HistoryEntry, PatientRecord } from '../types';
+
+const reviewedPatient = (): PatientRecord => {
+  const patient = structuredClone(SEED_DATA[0]);
+  patient.history[0] = {
+    ...patient.history[0],
+    notes: 'Itchy after gardening at 12 Elm Street',
+    review: {
+      decision: 'amended',
+      diagnosis: 'Atypical Nevus',
+      severity: 'Moderate',
+      findings: 'Discussed with Dr. Jones; mother had melanoma',
+      signedById: 'doc-1',
+      signedByName: 'Dr. S. Miller',
+      signedAt: '2025-01-01T10:00:00Z',
+      addenda: [{ id: 'a1', text: 'Biopsy booked', severity: 'High', authorId: 'doc-1', authorName: 'Dr. S. Miller', createdAt: '2025-01-02T10:00:00Z' }]
+    }
+  };
+  return patient;
+};
+
+describe('buildPatientContext', () => {
+  it('shares the reviewed diagnosis without names or free text', () => {
+    const patient = reviewedPatient();
+    const text = formatPatientContext(buildPatientContext(patient));
+
+    expect(text).toContain('Latest reviewed result: Atypical Nevus (High severity, clinician reviewed)');
+    [patient.name, 'Miller', 'Jones', 'melanoma', 'Biopsy', 'Elm Street'].forEach(secret => expect(text).not.toContain(secret));
+  });
+
+  it('leaves out fields the care team withheld', () => {
+    const patient = { ...reviewedPatient(), chatContextExclusions: ['latestAnalysis', 'age'] as PatientRecord['chatContextExclusions'] };
+    const fields = buildPatientContext(patient).map(item => item.field);
+    expect(fields).not.toContain('latestAnalysis');
+    expect(fields).not.toContain('age');
+    expect(fields).toContain('condition');
+  });
+
+  it('is not changed by an analysis no clinician has reviewed', () => {
+    const patient = reviewedPatient();
+    const before = buildPatientContext(patient);
+    const analysis: HistoryEntry = {
+      id: '1-2',
+      lesionId: '1-lesion-1',
+      source: 'analysis',
+      date: '2025-01-03',
+      imageUrl: 'c.png',
+      notes: '',
+      severityScore: 9,
+      analysisResult: {
+        diagnosis: 'Melanoma', confidence: 0.9, probabilities: { Melanoma: 0.9 }, severity: 'Critical', recommendations: [], features: []
+      }
+    };
+    // As the repository saves it: newest first, with the status following the raw score
+    const analyzed = { ...applyHistoryEntry(patient, analysis), history: [analysis, ...patient.history] };
+
+    expect(analyzed.status).toBe('Critical');
+    expect(buildPatientContext(analyzed)).toEqual(before);
+    expect(before.find(item => item.field === 'status')?.value).toBe('Improving');
+  });
+});
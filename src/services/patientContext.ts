@@ -0,0 +1,69 @@
+import { ChatContextField, HistoryEntry, PatientRecord } from '../types';
+import { scoreSource } from './trends';
+import { currentFindings } from './review';
+import { applyHistoryEntry, isEscalationOpen } from './storage/repository';
+
+export const CHAT_CONTEXT_FIELDS: Record<ChatContextField, string> = {
+  age: 'Age',
+  condition: 'Condition',
+  status: 'Current status',
+  severityTrend: 'Recent severity scores',
+  latestAnalysis: 'Latest reviewed result'
+};
+
+const TREND_ENTRIES = 5;
+
+// One line of context, exactly as it is sent to DermoBot
+export interface ContextItem {
+  field: ChatContextField;
+  label: string;
+  value: string;
+}
+
+// Builds the minimum DermoBot needs to know about the patient. Names,
+// identifiers, images and free-text notes are never included, and fields
+// the care team has withheld are left out entirely.
+export const buildPatientContext = (patient: PatientRecord): ContextItem[] => {
+  const excluded = new Set(patient.chatContextExclusions ?? []);
+  const values: Record<ChatContextField, string | null> = {
+    age: `${patient.age} years`,
+    condition: patient.condition,
+    status: reviewedStatus(patient),
+    severityTrend: severityTrend(patient),
+    latestAnalysis: latestAnalysis(patient)
+  };
+
+  return (Object.keys(CHAT_CONTEXT_FIELDS) as ChatContextField[])
+    .filter(field => !excluded.has(field) && values[field])
+    .map(field => ({ field, label: CHAT_CONTEXT_FIELDS[field], value: values[field]! }));
+};
+
+export const formatPatientContext = (items: ContextItem[]) =>
+  items.map(item => `- ${item.label}: ${item.value}`).join('\n');
+
+// Scores a clinician set or signed. The stored status and AI scores follow an analysis
+// as soon as it is saved, before anyone has reviewed it, so neither is shared as is.
+const isReviewedScore = (entry: HistoryEntry) => scoreSource(entry) === 'clinician';
+
+// The status the record would have if only reviewed scores had been applied
+const reviewedStatus = (patient: PatientRecord) => {
+  if (isEscalationOpen(patient)) return 'Critical';
+  const latest = patient.history.find(isReviewedScore);
+  return latest ? applyHistoryEntry(patient, latest).status : null;
+};
+
+// Oldest to newest, reviewed scores only (uploads and check-ins carry no score)
+const severityTrend = (patient: PatientRecord) => {
+  const scored = patient.history.filter(isReviewedScore).slice(0, TREND_ENTRIES).reverse();
+  if (scored.length === 0) return null;
+  return scored.map(e => `${e.date} ${e.severityScore}/10`).join(', ');
+};
+
+// Signed-off results only; unreviewed AI output is never shared with the assistant.
+// The reviewer's findings are free text and their name an identifier, so neither is sent.
+const latestAnalysis = (patient: PatientRecord) => {
+  const review = patient.history.find(e => e.review)?.review;
+  if (!review) return null;
+  const { diagnosis, severity } = currentFindings(review);
+  return `${diagnosis} (${severity} severity, clinician reviewed)`;
+};
@@ -0,0 +1,103 @@
+import { PhotoQuality, PhotoQualityIssue } from '../types';
+import { RasterImage, loadRaster } from './raster';
+import { luminance } from './hairRemoval';
+
+// Quality checks run on the device before a photo is submitted: sharpness as the
+// variance of the Laplacian, exposure as mean luminance, and glare as the share of
+// blown-out, colourless highlights. Only the square around the framing guide is
+// checked, so an out-of-focus background does not fail a sharp lesion. Everything
+// except checkPhotoFile works on plain RGBA arrays.
+
+export const QUALITY_MAX_SIDE = 480; // Photos are downscaled to this before checking, so thresholds do not depend on the camera
+export const GUIDE_FRACTION = 0.6; // Diameter of the framing guide, as a share of the photo's shorter side
+
+export const MIN_SHARPNESS = 15;
+const GOOD_SHARPNESS = 60; // Scores full marks for sharpness from here
+export const MIN_BRIGHTNESS = 55;
+export const MAX_BRIGHTNESS = 215;
+const IDEAL_BRIGHTNESS: [number, number] = [90, 170];
+export const MAX_GLARE = 0.02;
+const GLARE_LEVEL = 245;
+const GLARE_MAX_CHROMA = 30; // Highlights on skin are white; bright but coloured pixels are not glare
+
+export const QUALITY_ADVICE: Record<PhotoQualityIssue, string> = {
+  blurry: 'The photo is blurry. Hold still and let the camera focus.',
+  dark: 'The photo is too dark. Move somewhere brighter or turn on a light.',
+  overexposed: 'The photo is too bright. Move out of direct light.',
+  glare: 'There is glare on the skin. Tilt the camera slightly and avoid the flash.'
+};
+
+// Square around the framing guide, centred in the photo
+export const guideCrop = (width: number, height: number) => {
+  const size = Math.max(3, Math.round(Math.min(width, height) * GUIDE_FRACTION));
+  return { x: Math.floor((width - size) / 2), y: Math.floor((height - size) / 2), size };
+};
+
+// Variance of the 4-neighbour Laplacian over the crop; low when edges are smeared
+export const laplacianVariance = (gray: Uint8Array, width: number, height: number, crop = guideCrop(width, height)) => {
+  let count = 0, mean = 0, m2 = 0;
+  for (let y = Math.max(1, crop.y); y < Math.min(height - 1, crop.y + crop.size); y++) {
+    for (let x = Math.max(1, crop.x); x < Math.min(width - 1, crop.x + crop.size); x++) {
+      const i = y * width + x;
+      const value = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      count++;
+      const delta = value - mean;
+      mean += delta / count;
+      m2 += delta * (value - mean);
+    }
+  }
+  return count > 1 ? m2 / count : 0;
+};
+
+const exposureScore = (brightness: number) =>
+  brightness < IDEAL_BRIGHTNESS[0] ? brightness / IDEAL_BRIGHTNESS[0]
+    : brightness > IDEAL_BRIGHTNESS[1] ? (255 - brightness) / (255 - IDEAL_BRIGHTNESS[1])
+      : 1;
+
+export const assessPhotoQuality = (image: RasterImage, source: PhotoQuality['source']): PhotoQuality => {
+  const gray = luminance(image);
+  const crop = guideCrop(image.width, image.height);
+  let total = 0, glarePixels = 0, pixels = 0;
+  for (let y = crop.y; y < crop.y + crop.size; y++) {
+    for (let x = crop.x; x < crop.x + crop.size; x++) {
+      const i = y * image.width + x;
+      const o = i * 4;
+      const chroma = Math.max(image.data[o], image.data[o + 1], image.data[o + 2]) - Math.min(image.data[o], image.data[o + 1], image.data[o + 2]);
+      total += gray[i];
+      if (gray[i] >= GLARE_LEVEL && chroma <= GLARE_MAX_CHROMA) glarePixels++;
+      pixels++;
+    }
+  }
+  const sharpness = laplacianVariance(gray, image.width, image.height, crop);
+  const brightness = total / pixels;
+  const glare = glarePixels / pixels;
+
+  const issues: PhotoQualityIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) issues.push('blurry');
+  if (brightness < MIN_BRIGHTNESS) issues.push('dark');
+  if (brightness > MAX_BRIGHTNESS) issues.push('overexposed');
+  if (glare > MAX_GLARE) issues.push('glare');
+
+  const score = Math.min(1, sharpness / GOOD_SHARPNESS) * exposureScore(brightness) * Math.max(0, 1 - glare / (2 * MAX_GLARE));
+  return {
+    score: Math.round(score * 100),
+    sharpness: Math.round(sharpness * 10) / 10,
+    brightness: Math.round(brightness * 10) / 10,
+    glare: Math.round(glare * 10000) / 10000,
+    issues,
+    source
+  };
+};
+
+export const isAcceptable = (quality: PhotoQuality) => quality.issues.length === 0;
+
+// For photos chosen from the device rather than taken in the app
+export const checkPhotoFile = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const { image } = await loadRaster(url, QUALITY_MAX_SIDE);
+    return assessPhotoQuality(image, 'file');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
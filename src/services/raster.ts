@@ -0,0 +1,60 @@
+// Plain RGBA pixel buffers, so image processing runs the same on a canvas,
+// in a Web Worker or on synthetic images without a DOM.
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row-major, like ImageData.data
+}
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  return { canvas, context };
+};
+
+const decodeImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image'));
+    img.src = url;
+  });
+
+const drawRaster = (source: CanvasImageSource, width: number, height: number): RasterImage => {
+  const { context } = createContext(width, height);
+  context.drawImage(source, 0, 0, width, height);
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+};
+
+const fitWithin = (sourceWidth: number, sourceHeight: number, maxSide: number) => {
+  const ratio = Math.min(1, maxSide / Math.max(sourceWidth, sourceHeight));
+  return { width: Math.max(1, Math.round(sourceWidth * ratio)), height: Math.max(1, Math.round(sourceHeight * ratio)) };
+};
+
+// Decodes a photo onto a canvas, downscaled to at most maxSide. The URL must be
+// same-origin or a data URL, otherwise the canvas is tainted and cannot be read.
+export const loadRaster = async (url: string, maxSide: number) => {
+  const img = await decodeImage(url);
+  const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, maxSide);
+  return { image: drawRaster(img, width, height), sourcePixelsPerPixel: img.naturalWidth / width };
+};
+
+// Stretched to exactly width × height, as classifiers with a fixed input size expect
+export const loadRasterResized = async (url: string, width: number, height: number) =>
+  drawRaster(await decodeImage(url), width, height);
+
+// A live video frame or a canvas, downscaled to at most maxSide like loadRaster
+export const captureRaster = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, maxSide: number) => {
+  const { width, height } = fitWithin(sourceWidth, sourceHeight, maxSide);
+  return drawRaster(source, width, height);
+};
+
+export const rasterToDataUrl = (image: RasterImage, type: 'image/jpeg' | 'image/png' = 'image/jpeg') => {
+  const { canvas, context } = createContext(image.width, image.height);
+  context.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  return canvas.toDataURL(type, 0.92);
+};
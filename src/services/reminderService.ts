@@ -0,0 +1,123 @@
+import { CarePlan, DoseEvent } from '../types';
+import { Occurrence, deadlineOf, formatInZone, occurrenceStatus, occurrencesBetween, snoozedUntil } from './scheduling';
+
+// System notifications for due doses and check-ins, shown by the service worker
+// in public/sw.js. There is no push service: while the dashboard is open it
+// hands the worker the next day of reminders, and the worker shows them from
+// whichever local wake-up the browser offers (notification triggers, periodic
+// background sync, or simply still being alive when one falls due).
+
+export const REMINDER_WORKER_URL = '/sw.js';
+export const REMINDER_SYNC_TAG = 'dermolink-reminders';
+export const ALARM_LINK_PARAM = 'alarm';
+const REMINDER_HORIZON_MS = 24 * 60 * 60 * 1000;
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+// Must match the shape public/sw.js reads
+export interface ScheduledReminder {
+  id: string; // The occurrence id, also used as the notification tag
+  title: string;
+  body: string;
+  at: number; // Epoch ms the notification should appear
+  until: number; // Epoch ms after which it is stale and must not be shown
+  url: string; // Deep link opened when the notification is clicked
+}
+
+export type ReminderWorkerMessage =
+  | { type: 'schedule', reminders: ScheduledReminder[] }
+  | { type: 'test', reminder: ScheduledReminder };
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+// Deep link into the patient dashboard that opens the alarm upload for one occurrence
+export const alarmLink = (occurrenceId: string) =>
+  `/patient/dashboard?${ALARM_LINK_PARAM}=${encodeURIComponent(occurrenceId)}`;
+
+const toReminder = (occurrence: Occurrence, plan: CarePlan, at: Date): ScheduledReminder => ({
+  id: occurrence.id,
+  title: occurrence.item.kind === 'medication' ? `Time for ${occurrence.item.name}` : `${occurrence.item.name} due`,
+  body: occurrence.item.requiresPhoto
+    ? `Due at ${formatInZone(occurrence.scheduledAt, plan.timezone)}. Tap to take your check-in photo.`
+    : `Due at ${formatInZone(occurrence.scheduledAt, plan.timezone)}. Tap to record it.`,
+  at: at.getTime(),
+  until: deadlineOf(occurrence, plan).getTime(),
+  url: alarmLink(occurrence.id)
+});
+
+// Everything still outstanding over the next day; snoozed occurrences remind again when the snooze ends
+export const buildReminders = (plan: CarePlan, events: DoseEvent[], now: Date): ScheduledReminder[] =>
+  occurrencesBetween(plan, new Date(now.getTime() - plan.graceMinutes * 60 * 1000), new Date(now.getTime() + REMINDER_HORIZON_MS))
+    .flatMap(occurrence => {
+      const status = occurrenceStatus(occurrence, events, plan, now);
+      if (status === 'taken' || status === 'missed') return [];
+      const at = status === 'snoozed' ? snoozedUntil(occurrence, events, plan)! : occurrence.scheduledAt;
+      return [toReminder(occurrence, plan, at)];
+    });
+
+export const reminderPermission = (): ReminderPermission =>
+  'Notification' in window && 'serviceWorker' in navigator ? Notification.permission : 'unsupported';
+
+export const requestReminderPermission = async (): Promise<ReminderPermission> => {
+  if (reminderPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+};
+
+// Periodic background sync is only offered to installed apps in some browsers, hence the loose typing
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+export const registerReminderWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    const registration: PeriodicSyncRegistration = await navigator.serviceWorker.register(REMINDER_WORKER_URL);
+    await registration.periodicSync?.register(REMINDER_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS })
+      .catch(() => undefined); // Not installed, or the browser declined; the other wake-ups still apply
+    return registration;
+  } catch (error) {
+    console.error('Reminder worker registration failed', error);
+    return null;
+  }
+};
+
+const postToWorker = async (message: ReminderWorkerMessage) => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
+
+// Replaces the worker's schedule; reminders no longer in the list are cancelled
+export const syncReminders = (reminders: ScheduledReminder[]) => postToWorker({ type: 'schedule', reminders });
+
+// Reminders name medications, so they must not outlive the session on a shared device.
+// Called however a session ends: sign-out, idle or absolute expiry, or expiry while closed.
+export const clearReminders = () => {
+  syncReminders([]).catch(error => console.error('Could not clear reminders', error));
+};
+
+// Shows a notification after a short delay, so the whole path can be tried locally:
+// grant permission, close or background the tab, then click the notification.
+export const sendTestReminder = (occurrenceId: string | null, delayMs = 10 * 1000) => {
+  const at = Date.now() + delayMs;
+  return postToWorker({
+    type: 'test',
+    reminder: {
+      id: `test-${at}`,
+      title: 'Test reminder',
+      body: 'This is how DermoLink reminds you when a dose or check-in is due.',
+      at,
+      until: at + 60 * 60 * 1000,
+      url: occurrenceId ? alarmLink(occurrenceId) : '/patient/dashboard'
+    }
+  });
+};
+
+// Clicks on a notification while a dashboard tab is open arrive as a message rather than a navigation
+export const onReminderClick = (handler: (url: string) => void) => {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'open-reminder' && typeof event.data.url === 'string') handler(event.data.url);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
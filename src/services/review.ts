@@ -0,0 +1,82 @@
+import { AnalysisResult, ClinicalReview, HistoryEntry, ReviewAddendum, ReviewDecision, ReviewSeverity } from '../types';
+import { LESION_CLASSES } from './analysis/provider';
+
+// Clinician sign-off of AI analyses. An entry's analysisResult is machine opinion
+// for the care team; its review is the clinical judgement and the only result a
+// patient sees. A signed entry never changes again except by appended addenda.
+
+export const DIAGNOSIS_VOCABULARY: readonly string[] = [
+  ...LESION_CLASSES,
+  'Actinic Keratosis',
+  'Atypical Nevus',
+  'Eczema',
+  'Psoriasis',
+  'Other (see findings)',
+  'Indeterminate (biopsy advised)'
+];
+
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['Low', 'Moderate', 'High', 'Critical'];
+
+export const DECISION_LABELS: Record<ReviewDecision, string> = {
+  confirmed: 'Confirmed',
+  amended: 'Amended',
+  rejected: 'Rejected'
+};
+
+export class SignedEntryError extends Error {
+  constructor(public entryId: string) {
+    super(`History entry ${entryId} is signed off and can only be changed by an addendum`);
+    this.name = 'SignedEntryError';
+  }
+}
+
+export const severityScoreFor = (severity: string) =>
+  severity === 'Critical' ? 9 : severity === 'High' ? 7 : severity === 'Moderate' ? 5 : 2;
+
+// A confirmation keeps the AI's diagnosis and severity, an amendment changes at least one,
+// and a rejection replaces the AI result with the clinician's own and says why
+export const reviewProblem = (review: ClinicalReview, result: AnalysisResult | undefined): string | null => {
+  if (!DIAGNOSIS_VOCABULARY.includes(review.diagnosis)) return `"${review.diagnosis}" is not in the diagnosis vocabulary`;
+  if (!REVIEW_SEVERITIES.includes(review.severity)) return `Invalid severity "${review.severity}"`;
+  if (review.decision === 'confirmed' && (review.diagnosis !== result?.diagnosis || review.severity !== result?.severity)) {
+    return 'A confirmation must keep the AI diagnosis and severity';
+  }
+  if (review.decision === 'amended' && review.diagnosis === result?.diagnosis && review.severity === result?.severity) {
+    return 'An amendment must change the diagnosis or severity';
+  }
+  if (review.decision === 'rejected' && !review.findings.trim()) return 'A rejection needs findings explaining it';
+  if (review.addenda.length > 0) return 'A new review cannot already have addenda';
+  return null;
+};
+
+export const addendumProblem = (addendum: ReviewAddendum): string | null => {
+  if (!addendum.text.trim()) return 'An addendum needs text';
+  if (addendum.diagnosis !== undefined && !DIAGNOSIS_VOCABULARY.includes(addendum.diagnosis)) return `"${addendum.diagnosis}" is not in the diagnosis vocabulary`;
+  if (addendum.severity !== undefined && !REVIEW_SEVERITIES.includes(addendum.severity)) return `Invalid severity "${addendum.severity}"`;
+  return null;
+};
+
+// The diagnosis and severity as last revised by an addendum
+export const currentFindings = (review: ClinicalReview): { diagnosis: string, severity: ReviewSeverity } =>
+  review.addenda.reduce(
+    (current, addendum) => ({ diagnosis: addendum.diagnosis ?? current.diagnosis, severity: addendum.severity ?? current.severity }),
+    { diagnosis: review.diagnosis, severity: review.severity }
+  );
+
+// The entry's score follows the clinician from the moment of signing
+export const signedEntry = <T extends HistoryEntry>(entry: T, review: ClinicalReview): T => ({
+  ...entry,
+  review,
+  severityScore: severityScoreFor(review.severity)
+});
+
+export const withAddendum = <T extends HistoryEntry>(entry: T, addendum: ReviewAddendum): T => {
+  const review = { ...entry.review!, addenda: [...entry.review!.addenda, addendum] };
+  return { ...entry, review, severityScore: severityScoreFor(currentFindings(review).severity) };
+};
+
+// What a patient sees of an entry: never the raw AI output, and no score until a clinician has signed one
+export const patientView = (entry: HistoryEntry): HistoryEntry => {
+  const { analysisResult, lesionMetrics, ...rest } = entry;
+  return entry.review || entry.source === 'clinician' ? rest : { ...rest, severityScore: 0 };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  activeAlarm, canSnooze, doseEvent, findOccurrence, formatInZone, missedOccurrences,
+  nextOccurrence, occurrenceStatus, occurrencesBetween, zonedTimeToInstant
+} from './scheduling';
+import { CarePlan, CarePlanItem } from '../types';
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const item = (overrides: Partial<CarePlanItem> = {}): CarePlanItem => ({
+  id: 'cream', kind: 'medication', name: 'Cream', times: ['08:00'], days: EVERY_DAY, requiresPhoto: false, ...overrides
+});
+
+const plan = (overrides: Partial<CarePlan> = {}): CarePlan => ({
+  timezone: 'Europe/Berlin',
+  items: [item()],
+  snoozeMinutes: 10,
+  maxSnoozes: 2,
+  graceMinutes: 60,
+  updatedAt: '2025-01-01T00:00:00Z',
+  updatedBy: 'doc-1',
+  ...overrides
+});
+
+const at = (iso: string) => new Date(iso);
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+describe('zonedTimeToInstant', () => {
+  it('converts wall-clock time on either side of a clock change', () => {
+    expect(zonedTimeToInstant(2025, 3, 29, 8, 0, 'Europe/Berlin').toISOString()).toBe('2025-03-29T07:00:00.000Z');
+    expect(zonedTimeToInstant(2025, 3, 30, 8, 0, 'Europe/Berlin').toISOString()).toBe('2025-03-30T06:00:00.000Z');
+  });
+
+  it('moves a time skipped when the clocks go forward later by the jump', () => {
+    expect(zonedTimeToInstant(2025, 3, 30, 2, 30, 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+  });
+
+  it('resolves a time repeated when the clocks go back to its first occurrence', () => {
+    expect(zonedTimeToInstant(2025, 10, 26, 2, 30, 'Europe/Berlin').toISOString()).toBe('2025-10-26T00:30:00.000Z');
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('keeps doses at the same wall-clock time across a clock change', () => {
+    const occurrences = occurrencesBetween(plan(), at('2025-03-29T00:00:00Z'), at('2025-04-01T00:00:00Z'));
+    expect(occurrences.map(o => formatInZone(o.scheduledAt, 'Europe/Berlin'))).toEqual(['08:00', '08:00', '08:00']);
+    expect(occurrences[1].scheduledAt.getTime() - occurrences[0].scheduledAt.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+
+  it('rings a skipped time once and a repeated time once', () => {
+    const night = plan({ items: [item({ times: ['02:30'] })] });
+    expect(occurrencesBetween(night, at('2025-03-30T00:00:00Z'), at('2025-03-31T00:00:00Z'))).toHaveLength(1);
+    expect(occurrencesBetween(night, at('2025-10-26T00:00:00Z'), at('2025-10-27T00:00:00Z'))).toHaveLength(1);
+  });
+
+  it('follows the weekdays of the plan timezone rather than UTC', () => {
+    const sundays = plan({ timezone: 'Pacific/Auckland', items: [item({ days: [0], times: ['07:00'] })] });
+    // 07:00 on Sunday in Auckland is still Saturday in UTC
+    const [first] = occurrencesBetween(sundays, at('2025-06-01T00:00:00Z'), at('2025-06-08T00:00:00Z'));
+    expect(first.scheduledAt.toISOString()).toBe('2025-06-07T19:00:00.000Z');
+  });
+
+  it('skips malformed times and sorts the rest', () => {
+    const messy = plan({ items: [item({ id: 'a', times: ['20:00', '7:00', '09:30'] }), item({ id: 'b', times: ['08:15'] })] });
+    const occurrences = occurrencesBetween(messy, at('2025-02-03T00:00:00Z'), at('2025-02-04T00:00:00Z'));
+    expect(occurrences.map(o => `${o.item.id} ${formatInZone(o.scheduledAt, 'Europe/Berlin')}`)).toEqual(['b 08:15', 'a 09:30', 'a 20:00']);
+  });
+});
+
+describe('occurrence status', () => {
+  const p = plan();
+  const [dose] = occurrencesBetween(p, at('2025-02-03T00:00:00Z'), at('2025-02-04T00:00:00Z'));
+  const time = dose.scheduledAt;
+
+  it('moves from upcoming to due to missed', () => {
+    expect(occurrenceStatus(dose, [], p, minutesAfter(time, -1))).toBe('upcoming');
+    expect(occurrenceStatus(dose, [], p, time)).toBe('due');
+    expect(activeAlarm(p, [], minutesAfter(time, 30))?.id).toBe(dose.id);
+    expect(occurrenceStatus(dose, [], p, minutesAfter(time, 60))).toBe('missed');
+    expect(activeAlarm(p, [], minutesAfter(time, 60))).toBeNull();
+  });
+
+  it('stays taken once taken', () => {
+    const events = [doseEvent(dose, 'taken', minutesAfter(time, 5))];
+    expect(occurrenceStatus(dose, events, p, minutesAfter(time, 90))).toBe('taken');
+    expect(missedOccurrences(p, events, minutesAfter(time, -60), minutesAfter(time, 90))).toEqual([]);
+  });
+
+  it('limits snoozes in number and never past the deadline', () => {
+    const first = doseEvent(dose, 'snoozed', time);
+    expect(occurrenceStatus(dose, [first], p, minutesAfter(time, 5))).toBe('snoozed');
+    expect(occurrenceStatus(dose, [first], p, minutesAfter(time, 10))).toBe('due');
+
+    const second = doseEvent(dose, 'snoozed', minutesAfter(time, 10));
+    expect(canSnooze(dose, [first], p, minutesAfter(time, 10))).toBe(true);
+    expect(canSnooze(dose, [first, second], p, minutesAfter(time, 20))).toBe(false);
+    expect(canSnooze(dose, [], p, minutesAfter(time, 55))).toBe(false);
+  });
+
+  it('only counts missed doses since the plan last changed', () => {
+    const changed = plan({ updatedAt: '2025-02-04T12:00:00Z' });
+    const missed = missedOccurrences(changed, [], at('2025-02-01T00:00:00Z'), at('2025-02-06T12:00:00Z'));
+    expect(missed.map(o => o.scheduledAt.toISOString())).toEqual(['2025-02-05T07:00:00.000Z', '2025-02-06T07:00:00.000Z']);
+  });
+});
+
+describe('occurrence lookup', () => {
+  it('finds an occurrence by id while the plan still schedules it', () => {
+    const p = plan();
+    const next = nextOccurrence(p, at('2025-03-29T12:00:00Z'))!;
+    expect(next.scheduledAt.toISOString()).toBe('2025-03-30T06:00:00.000Z');
+    expect(findOccurrence(p, next.id)?.id).toBe(next.id);
+    expect(findOccurrence(plan({ items: [item({ times: ['09:00'] })] }), next.id)).toBeNull();
+    expect(findOccurrence(p, 'cream@not-a-date')).toBeNull();
+  });
+
+  it('looks up the next occurrence of one kind', () => {
+    const p = plan({ items: [item(), item({ id: 'photo', kind: 'check-in', days: [1], times: ['18:00'] })] });
+    expect(nextOccurrence(p, at('2025-02-01T12:00:00Z'), 'check-in')?.scheduledAt.toISOString()).toBe('2025-02-03T17:00:00.000Z');
+  });
+});
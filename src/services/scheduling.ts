@@ -0,0 +1,193 @@
+import { CarePlan, CarePlanItem, DoseEvent } from '../types';
+
+// Everything here is pure: "now" is always passed in, so tests can drive the
+// schedule with a fake clock instead of waiting for real time to pass.
+export type Clock = () => Date;
+export const systemClock: Clock = () => new Date();
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const ALARM_TICK_MS = 15 * 1000; // How often the dashboard re-evaluates the schedule
+export const MISSED_LOOKBACK_DAYS = 7;
+export const DEFAULT_CARE_PLAN_SETTINGS = { snoozeMinutes: 10, maxSnoozes: 3, graceMinutes: 120 };
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const parseTime = (value: string): { hour: number, minute: number } | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', weekday: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const zonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const offsetAt = (instant: number, timeZone: string) => {
+  const p = zonedParts(new Date(instant), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - (instant - instant % 1000);
+};
+
+// The instant a wall-clock time happens in a zone. A time repeated when the
+// clocks go back resolves to its first occurrence; a time skipped when they go
+// forward moves later by the size of the jump.
+export const zonedTimeToInstant = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsets = [...new Set([offsetAt(wall - DAY_MS, timeZone), offsetAt(wall + DAY_MS, timeZone)])];
+  const valid = offsets.map(o => wall - o).filter(candidate => offsetAt(candidate, timeZone) === wall - candidate);
+  return new Date(valid.length > 0 ? Math.min(...valid) : wall - Math.min(...offsets));
+};
+
+export interface Occurrence {
+  id: string;
+  item: CarePlanItem;
+  scheduledAt: Date;
+}
+
+export const occurrenceId = (itemId: string, scheduledAt: Date) => `${itemId}@${scheduledAt.toISOString()}`;
+
+// Every scheduled dose or check-in in [from, to), oldest first
+export const occurrencesBetween = (plan: CarePlan, from: Date, to: Date): Occurrence[] => {
+  const first = zonedParts(new Date(from.getTime() - DAY_MS), plan.timezone);
+  const last = zonedParts(new Date(to.getTime() + DAY_MS), plan.timezone);
+  const end = Date.UTC(last.year, last.month - 1, last.day);
+  const occurrences: Occurrence[] = [];
+
+  // Walk calendar days in the plan's zone, using UTC dates purely as day counters
+  for (let day = Date.UTC(first.year, first.month - 1, first.day); day <= end; day += DAY_MS) {
+    const date = new Date(day);
+    for (const item of plan.items) {
+      if (!item.days.includes(date.getUTCDay())) continue;
+      for (const time of item.times) {
+        const parsed = parseTime(time);
+        if (!parsed) continue;
+        const scheduledAt = zonedTimeToInstant(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), parsed.hour, parsed.minute, plan.timezone);
+        if (scheduledAt >= from && scheduledAt < to) {
+          occurrences.push({ id: occurrenceId(item.id, scheduledAt), item, scheduledAt });
+        }
+      }
+    }
+  }
+  return occurrences.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+};
+
+export type OccurrenceStatus = 'upcoming' | 'due' | 'snoozed' | 'taken' | 'missed';
+
+export const deadlineOf = (occurrence: Occurrence, plan: CarePlan) =>
+  new Date(occurrence.scheduledAt.getTime() + plan.graceMinutes * MINUTE_MS);
+
+const eventsFor = (occurrence: Occurrence, events: DoseEvent[]) =>
+  events.filter(e => e.occurrenceId === occurrence.id);
+
+const snoozesOf = (occurrence: Occurrence, events: DoseEvent[]) =>
+  eventsFor(occurrence, events).filter(e => e.action === 'snoozed');
+
+// When the latest snooze runs out, or null if the occurrence was never snoozed
+export const snoozedUntil = (occurrence: Occurrence, events: DoseEvent[], plan: CarePlan): Date | null => {
+  const lastSnooze = snoozesOf(occurrence, events).map(e => new Date(e.at).getTime()).sort((a, b) => b - a)[0];
+  return lastSnooze === undefined ? null : new Date(lastSnooze + plan.snoozeMinutes * MINUTE_MS);
+};
+
+export const occurrenceStatus = (occurrence: Occurrence, events: DoseEvent[], plan: CarePlan, now: Date): OccurrenceStatus => {
+  if (eventsFor(occurrence, events).some(e => e.action === 'taken')) return 'taken';
+  if (now < occurrence.scheduledAt) return 'upcoming';
+  if (now >= deadlineOf(occurrence, plan)) return 'missed';
+  const snoozeEnd = snoozedUntil(occurrence, events, plan);
+  if (snoozeEnd && now < snoozeEnd) return 'snoozed';
+  return 'due';
+};
+
+// Snoozing is limited in number, and never past the point the dose would be missed
+export const canSnooze = (occurrence: Occurrence, events: DoseEvent[], plan: CarePlan, now: Date) =>
+  occurrenceStatus(occurrence, events, plan, now) === 'due'
+  && snoozesOf(occurrence, events).length < plan.maxSnoozes
+  && now.getTime() + plan.snoozeMinutes * MINUTE_MS < deadlineOf(occurrence, plan).getTime();
+
+// The earliest occurrence that should be ringing right now, if any
+export const activeAlarm = (plan: CarePlan, events: DoseEvent[], now: Date): Occurrence | null =>
+  occurrencesBetween(plan, new Date(now.getTime() - plan.graceMinutes * MINUTE_MS), new Date(now.getTime() + 1))
+    .find(o => occurrenceStatus(o, events, plan, now) === 'due') ?? null;
+
+export const nextOccurrence = (plan: CarePlan, now: Date, kind?: CarePlanItem['kind']): Occurrence | null =>
+  occurrencesBetween(plan, new Date(now.getTime() + 1), new Date(now.getTime() + 8 * DAY_MS))
+    .find(o => !kind || o.item.kind === kind) ?? null;
+
+// Missed doses since `from`, never counting anything scheduled before the plan last changed
+export const missedOccurrences = (plan: CarePlan, events: DoseEvent[], from: Date, now: Date): Occurrence[] => {
+  const start = new Date(Math.max(from.getTime(), new Date(plan.updatedAt).getTime()));
+  return occurrencesBetween(plan, start, now).filter(o => occurrenceStatus(o, events, plan, now) === 'missed');
+};
+
+// Resolves an id from occurrenceId() back to its occurrence, if the plan still schedules it
+export const findOccurrence = (plan: CarePlan, id: string): Occurrence | null => {
+  const at = id.lastIndexOf('@');
+  const item = plan.items.find(i => i.id === id.slice(0, at));
+  const scheduledAt = new Date(id.slice(at + 1));
+  if (at < 0 || !item || isNaN(scheduledAt.getTime())) return null;
+  return occurrencesBetween(plan, scheduledAt, new Date(scheduledAt.getTime() + 1)).find(o => o.id === id) ?? null;
+};
+
+export const doseEvent = (
+  occurrence: Occurrence,
+  action: DoseEvent['action'],
+  now: Date,
+  details: Pick<DoseEvent, 'historyEntryId' | 'alarmAt'> = {}
+): DoseEvent => ({
+  occurrenceId: occurrence.id,
+  itemId: occurrence.item.id,
+  scheduledAt: occurrence.scheduledAt.toISOString(),
+  action,
+  at: now.toISOString(),
+  ...(details.historyEntryId && { historyEntryId: details.historyEntryId }),
+  ...(details.alarmAt && { alarmAt: details.alarmAt })
+});
+
+// Wall-clock time of an occurrence in the plan's zone, e.g. "20:00"
+export const formatInZone = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+};
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAccessControlledRepository } from './accessControlledRepository';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { PatientRepository } from './repository';
+import { AccessDeniedError } from '../accessControl';
+import { HistoryEntry, User, UserRole } from '../../types';
+
+const photo = (overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  id: `entry-${Math.random()}`,
+  lesionId: 'lesion-1',
+  source: 'self-report',
+  date: '2025-03-01',
+  imageUrl: 'a.png',
+  notes: 'Looks bigger',
+  severityScore: 0,
+  ...overrides
+});
+
+describe('history entries added by a patient', () => {
+  let inner: PatientRepository;
+  let asPatient: PatientRepository;
+  let asDoctor: PatientRepository;
+  let patientId: string;
+
+  beforeEach(async () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    });
+    inner = createLocalStorageRepository();
+    const patient = await inner.addPatient({
+      name: 'New Patient', age: 40, condition: 'Unknown', status: 'Stable', lastUpdate: 'Just now', img: '',
+      careTeam: [{ doctorId: 'doc-1', role: 'primary' }],
+      lesions: [{ id: 'lesion-1', label: 'Left shoulder' }]
+    });
+    patientId = patient.id;
+    const user = (role: UserRole, id: string): User => ({ id, email: `${id}@example.com`, name: id, role, createdAt: '2025-01-01T00:00:00Z', patientId });
+    asPatient = createAccessControlledRepository(inner, user(UserRole.PATIENT, 'patient-1'));
+    asDoctor = createAccessControlledRepository(inner, user(UserRole.DOCTOR, 'doc-1'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accepts unscored self-reports and check-ins', async () => {
+    await asPatient.addHistoryEntry(patientId, photo());
+    await asPatient.addHistoryEntry(patientId, photo({ source: 'check-in' }));
+    expect((await inner.getHistory(patientId)).map(e => e.source)).toEqual(['check-in', 'self-report']);
+    expect((await inner.getPatient(patientId))?.status).toBe('Improving');
+  });
+
+  it('refuses clinical sources, scores, analyses and measurements', async () => {
+    const attempts = [
+      photo({ source: 'clinician', severityScore: 9 }),
+      photo({ source: 'analysis' }),
+      photo({ severityScore: 9 }),
+      photo({ analysisResult: { diagnosis: 'Melanoma', confidence: 1, probabilities: { Melanoma: 1 }, severity: 'Critical', recommendations: [], features: [] } }),
+      photo({ lesionMetrics: { asymmetry: 0, asymmetricAxes: 0, borderIrregularity: 1, colors: [], diameterPx: 10, diameterMm: null, areaFraction: 0.1, threshold: 100, measuredAt: '2025-03-01T00:00:00Z' } })
+    ];
+    for (const entry of attempts) {
+      await expect(asPatient.addHistoryEntry(patientId, entry)).rejects.toBeInstanceOf(AccessDeniedError);
+    }
+    expect(await inner.getHistory(patientId)).toEqual([]);
+    expect((await inner.getPatient(patientId))?.status).toBe('Stable');
+  });
+
+  it('still lets the care team record clinician assessments', async () => {
+    await asDoctor.addHistoryEntry(patientId, photo({ source: 'clinician', severityScore: 8 }));
+    expect((await inner.getPatient(patientId))?.status).toBe('Critical');
+  });
+});
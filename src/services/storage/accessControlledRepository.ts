@@ -0,0 +1,177 @@
+import {
+  User, UserRole, CareTeamMember, HistoryEntry, Message, ChatThread, ChatContextField, Escalation, DirectMessage, CarePlan, DoseEvent,
+  HistoryEntryUpdate, HistoryEntrySource, Lesion, ClinicalReview, ReviewAddendum, PatientRecord
+} from '../../types';
+import { PatientRepository, NewPatient } from './repository';
+import { AccessDeniedError, AccessLevel, hasAccess, validateCareTeam } from '../accessControl';
+import { SignedEntryError, addendumProblem, patientView, reviewProblem } from '../review';
+
+// Patients add their own photos; scores, analyses and measurements only come from the care team
+const PATIENT_SOURCES: HistoryEntrySource[] = ['self-report', 'check-in'];
+
+const isPatientEntry = (entry: HistoryEntry) =>
+  PATIENT_SOURCES.includes(entry.source) && !entry.analysisResult && !entry.lesionMetrics && entry.severityScore === 0;
+
+// Wraps any backend so every call is checked against the signed-in user's
+// care-team membership before it reaches storage. Patients only ever receive
+// their history as patientView shows it, and signed entries are read-only.
+export const createAccessControlledRepository = (inner: PatientRepository, user: User): PatientRepository => {
+  const requirePatient = async (patientId: string, required: AccessLevel) => {
+    const patient = await inner.getPatient(patientId);
+    if (!patient || !hasAccess(user, patient, required)) {
+      // Unknown and forbidden records look the same, so IDs cannot be probed
+      throw new AccessDeniedError(patientId, required);
+    }
+    return patient;
+  };
+
+  const isPatient = user.role === UserRole.PATIENT;
+  const forViewer = (patient: PatientRecord): PatientRecord =>
+    isPatient ? { ...patient, history: patient.history.map(patientView) } : patient;
+
+  const requireEntry = async (patientId: string, entryId: string, required: AccessLevel) => {
+    const entry = (await requirePatient(patientId, required)).history.find(e => e.id === entryId);
+    if (!entry) throw new Error(`No history entry ${entryId}`);
+    return entry;
+  };
+
+  return {
+    async listPatients() {
+      return (await inner.listPatients()).filter(p => hasAccess(user, p, 'read')).map(forViewer);
+    },
+
+    async getPatient(id: string) {
+      return forViewer(await requirePatient(id, 'read'));
+    },
+
+    async addPatient(patient: NewPatient) {
+      if (user.role !== UserRole.DOCTOR) throw new AccessDeniedError('new', 'manage');
+      // The creating doctor becomes the patient's primary doctor
+      return inner.addPatient({ ...patient, careTeam: [{ doctorId: user.id, role: 'primary' }] });
+    },
+
+    async updateCareTeam(patientId: string, careTeam: CareTeamMember[]) {
+      await requirePatient(patientId, 'manage');
+      const problem = validateCareTeam(careTeam);
+      if (problem) throw new Error(problem);
+      return inner.updateCareTeam(patientId, careTeam);
+    },
+
+    async updateChatContextExclusions(patientId: string, exclusions: ChatContextField[]) {
+      // Patients have write access to their own record but must not re-share what a doctor withheld
+      if (user.role !== UserRole.DOCTOR) throw new AccessDeniedError(patientId, 'write');
+      await requirePatient(patientId, 'write');
+      return inner.updateChatContextExclusions(patientId, exclusions);
+    },
+
+    async escalate(patientId: string, escalation: Escalation) {
+      await requirePatient(patientId, 'write');
+      return inner.escalate(patientId, escalation);
+    },
+
+    async acknowledgeEscalation(patientId: string, doctorId: string) {
+      if (user.role !== UserRole.DOCTOR || doctorId !== user.id) throw new AccessDeniedError(patientId, 'write');
+      await requirePatient(patientId, 'write');
+      return inner.acknowledgeEscalation(patientId, doctorId);
+    },
+
+    async updateCarePlan(patientId: string, plan: CarePlan) {
+      if (user.role !== UserRole.DOCTOR) throw new AccessDeniedError(patientId, 'write');
+      await requirePatient(patientId, 'write');
+      return inner.updateCarePlan(patientId, plan);
+    },
+
+    async recordDoseEvent(patientId: string, event: DoseEvent) {
+      await requirePatient(patientId, 'write');
+      return inner.recordDoseEvent(patientId, event);
+    },
+
+    async saveLesion(patientId: string, lesion: Lesion) {
+      await requirePatient(patientId, 'write');
+      return inner.saveLesion(patientId, lesion);
+    },
+
+    async getHistory(patientId: string) {
+      await requirePatient(patientId, 'read');
+      const history = await inner.getHistory(patientId);
+      return isPatient ? history.map(patientView) : history;
+    },
+
+    async addHistoryEntry(patientId: string, entry: HistoryEntry) {
+      // A review only comes from signing, never with a new photo
+      if (entry.review) throw new AccessDeniedError(patientId, 'write');
+      if (user.role !== UserRole.DOCTOR && !isPatientEntry(entry)) throw new AccessDeniedError(patientId, 'write');
+      await requirePatient(patientId, 'write');
+      return inner.addHistoryEntry(patientId, entry);
+    },
+
+    // Analyses and annotations are clinical judgements, so only the care team may change an entry
+    async updateHistoryEntry(patientId: string, entryId: string, update: HistoryEntryUpdate) {
+      if (user.role !== UserRole.DOCTOR) throw new AccessDeniedError(patientId, 'write');
+      if ((await requireEntry(patientId, entryId, 'write')).review) throw new SignedEntryError(entryId);
+      return inner.updateHistoryEntry(patientId, entryId, update);
+    },
+
+    // Only the signing doctor's own identity can go on a review or addendum
+    async signReview(patientId: string, entryId: string, review: ClinicalReview) {
+      if (user.role !== UserRole.DOCTOR || review.signedById !== user.id) throw new AccessDeniedError(patientId, 'write');
+      const entry = await requireEntry(patientId, entryId, 'write');
+      if (entry.review) throw new SignedEntryError(entryId);
+      const problem = reviewProblem(review, entry.analysisResult);
+      if (problem) throw new Error(problem);
+      return inner.signReview(patientId, entryId, review);
+    },
+
+    async addReviewAddendum(patientId: string, entryId: string, addendum: ReviewAddendum) {
+      if (user.role !== UserRole.DOCTOR || addendum.authorId !== user.id) throw new AccessDeniedError(patientId, 'write');
+      const entry = await requireEntry(patientId, entryId, 'write');
+      if (!entry.review) throw new Error(`History entry ${entryId} has not been signed off`);
+      const problem = addendumProblem(addendum);
+      if (problem) throw new Error(problem);
+      return inner.addReviewAddendum(patientId, entryId, addendum);
+    },
+
+    async saveImage(dataUrl: string) {
+      return inner.saveImage(dataUrl);
+    },
+
+    async getMessages(patientId: string) {
+      await requirePatient(patientId, 'read');
+      return inner.getMessages(patientId);
+    },
+
+    async addMessage(patientId: string, message: Message) {
+      await requirePatient(patientId, 'write');
+      return inner.addMessage(patientId, message);
+    },
+
+    async listThreads(patientId: string) {
+      await requirePatient(patientId, 'read');
+      return inner.listThreads(patientId);
+    },
+
+    async saveThread(patientId: string, thread: ChatThread) {
+      await requirePatient(patientId, 'write');
+      return inner.saveThread(patientId, thread);
+    },
+
+    async getDirectMessages(patientId: string) {
+      await requirePatient(patientId, 'read');
+      return inner.getDirectMessages(patientId);
+    },
+
+    async sendDirectMessage(patientId: string, message: DirectMessage) {
+      // Nobody may send as someone else
+      if (message.senderId !== user.id || message.senderRole !== user.role) throw new AccessDeniedError(patientId, 'write');
+      await requirePatient(patientId, 'write');
+      return inner.sendDirectMessage(patientId, message);
+    },
+
+    async markDirectMessagesRead(patientId: string, messageIds: string[], readAt: string) {
+      await requirePatient(patientId, 'read');
+      // Only the receiving side can produce a read receipt
+      const incoming = new Set((await inner.getDirectMessages(patientId)).filter(m => m.senderRole !== user.role).map(m => m.id));
+      return inner.markDirectMessagesRead(patientId, messageIds.filter(id => incoming.has(id)), readAt);
+    }
+  };
+};
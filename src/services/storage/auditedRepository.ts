@@ -0,0 +1,128 @@
+import {
+  User, CareTeamMember, HistoryEntry, Message, ChatThread, ChatContextField, Escalation, DirectMessage, CarePlan, DoseEvent,
+  HistoryEntryUpdate, Lesion, ClinicalReview, ReviewAddendum
+} from '../../types';
+import { PatientRepository, NewPatient } from './repository';
+import { AccessDeniedError } from '../accessControl';
+import { AuditAction, recordAudit, toAuditActor } from '../auditService';
+
+// Records every read of a single record and every write in the audit log,
+// including attempts the access-control layer rejects. Summaries hold only ids,
+// codes and counts; names, notes and other clinical text stay in the payload digest.
+export const createAuditedRepository = (inner: PatientRepository, user: User): PatientRepository => {
+  const actor = toAuditActor(user);
+
+  const audited = async <T>(
+    action: AuditAction,
+    patientId: string | undefined,
+    details: { summary?: string, payload?: unknown },
+    run: () => Promise<T>
+  ): Promise<T> => {
+    try {
+      const result = await run();
+      await recordAudit(actor, action, { patientId, ...details });
+      return result;
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        await recordAudit(actor, 'access-denied', { patientId, summary: `${action} (${error.required})` });
+      }
+      throw error;
+    }
+  };
+
+  return {
+    listPatients: () => inner.listPatients(),
+
+    getPatient: (id: string) =>
+      audited('record-view', id, {}, () => inner.getPatient(id)),
+
+    async addPatient(patient: NewPatient) {
+      const created = await inner.addPatient(patient);
+      await recordAudit(actor, 'patient-create', { patientId: created.id, payload: patient });
+      return created;
+    },
+
+    updateCareTeam: (patientId: string, careTeam: CareTeamMember[]) =>
+      audited('care-team-update', patientId, {
+        summary: careTeam.map(m => `${m.doctorId}:${m.role}`).join(', '),
+        payload: careTeam
+      }, () => inner.updateCareTeam(patientId, careTeam)),
+
+    updateChatContextExclusions: (patientId: string, exclusions: ChatContextField[]) =>
+      audited('chat-context-update', patientId, {
+        summary: exclusions.length > 0 ? `withheld: ${exclusions.join(', ')}` : 'all fields shared',
+        payload: exclusions
+      }, () => inner.updateChatContextExclusions(patientId, exclusions)),
+
+    escalate: (patientId: string, escalation: Escalation) =>
+      audited('escalation-raised', patientId, { summary: escalation.messageId, payload: escalation }, () => inner.escalate(patientId, escalation)),
+
+    acknowledgeEscalation: (patientId: string, doctorId: string) =>
+      audited('escalation-acknowledged', patientId, {}, () => inner.acknowledgeEscalation(patientId, doctorId)),
+
+    updateCarePlan: (patientId: string, plan: CarePlan) =>
+      audited('care-plan-update', patientId, {
+        summary: `${plan.items.length} item(s)`,
+        payload: plan
+      }, () => inner.updateCarePlan(patientId, plan)),
+
+    recordDoseEvent: (patientId: string, event: DoseEvent) =>
+      audited('dose-event', patientId, { summary: `${event.action} ${event.occurrenceId}`, payload: event }, () => inner.recordDoseEvent(patientId, event)),
+
+    saveLesion: (patientId: string, lesion: Lesion) =>
+      audited('lesion-save', patientId, { summary: lesion.id, payload: lesion }, () => inner.saveLesion(patientId, lesion)),
+
+    getHistory: (patientId: string) =>
+      audited('record-view', patientId, { summary: 'history' }, () => inner.getHistory(patientId)),
+
+    addHistoryEntry: (patientId: string, entry: HistoryEntry) => {
+      const isUpload = entry.source === 'self-report' || entry.source === 'check-in';
+      return audited(isUpload ? 'image-upload' : 'history-add', patientId, {
+        summary: `${entry.source} ${entry.id}`,
+        payload: entry
+      }, () => inner.addHistoryEntry(patientId, entry));
+    },
+
+    updateHistoryEntry: (patientId: string, entryId: string, update: HistoryEntryUpdate) =>
+      audited('history-update', patientId, {
+        summary: `${entryId}: ${Object.keys(update).join(', ')}`,
+        payload: { entryId, ...update }
+      }, () => inner.updateHistoryEntry(patientId, entryId, update)),
+
+    signReview: (patientId: string, entryId: string, review: ClinicalReview) =>
+      audited('review-sign', patientId, {
+        summary: `${entryId}: ${review.decision}`,
+        payload: { entryId, review }
+      }, () => inner.signReview(patientId, entryId, review)),
+
+    addReviewAddendum: (patientId: string, entryId: string, addendum: ReviewAddendum) =>
+      audited('review-addendum', patientId, {
+        summary: `${entryId}${addendum.diagnosis || addendum.severity ? ': revised' : ''}`,
+        payload: { entryId, addendum }
+      }, () => inner.addReviewAddendum(patientId, entryId, addendum)),
+
+    saveImage: (dataUrl: string) => inner.saveImage(dataUrl),
+
+    getMessages: (patientId: string) => inner.getMessages(patientId),
+
+    addMessage: (patientId: string, message: Message) =>
+      audited('message-add', patientId, { summary: message.role, payload: message }, () => inner.addMessage(patientId, message)),
+
+    listThreads: (patientId: string) =>
+      audited('record-view', patientId, { summary: 'conversations' }, () => inner.listThreads(patientId)),
+
+    saveThread: (patientId: string, thread: ChatThread) => inner.saveThread(patientId, thread),
+
+    // Polled for unread counts, so reads are not logged (like getMessages)
+    getDirectMessages: (patientId: string) => inner.getDirectMessages(patientId),
+
+    sendDirectMessage: (patientId: string, message: DirectMessage) =>
+      audited('direct-message-send', patientId, {
+        summary: message.attachmentIds?.length ? `${message.attachmentIds.length} attachment(s)` : undefined,
+        payload: message
+      }, () => inner.sendDirectMessage(patientId, message)),
+
+    markDirectMessagesRead: (patientId: string, messageIds: string[], readAt: string) =>
+      inner.markDirectMessagesRead(patientId, messageIds, readAt)
+  };
+};
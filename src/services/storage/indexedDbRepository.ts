@@ -0,0 +1,437 @@
+import {
+  PatientRecord, HistoryEntry, Message, CareTeamMember, ChatThread, ChatContextField, Escalation, DirectMessage, CarePlan, DoseEvent,
+  HistoryEntryUpdate, Lesion, ClinicalReview, ReviewAddendum
+} from '../../types';
+import { PatientRepository, NewPatient, applyHistoryEntry, applyEscalation, applyAcknowledgement, newPatientId } from './repository';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { CURRENT_SCHEMA_VERSION, QuarantinedItem, migrateRecords, validateRecords } from './migrations';
+import { signedEntry, withAddendum } from '../review';
+import { request, transactionDone } from './idb';
+
+const DB_NAME = 'dermolink';
+const DB_VERSION = 3;
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+type StoredPatient = Omit<PatientRecord, 'history' | 'messages' | 'directMessages'> & { sortKey: number };
+type StoredHistoryEntry = HistoryEntry & { patientId: string; seq?: number };
+type StoredMessage = Message & { patientId: string };
+type StoredDirectMessage = DirectMessage & { patientId: string };
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore('patients', { keyPath: 'id' });
+        db.createObjectStore('history', { keyPath: 'seq', autoIncrement: true }).createIndex('patientId', 'patientId');
+        db.createObjectStore('messages', { keyPath: 'id' }).createIndex('patientId', 'patientId');
+        db.createObjectStore('images', { keyPath: 'id' });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore('meta');
+        db.createObjectStore('quarantine', { autoIncrement: true });
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore('directMessages', { keyPath: 'id' }).createIndex('patientId', 'patientId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Patients, history rows, messages, direct messages and image blobs live in separate object
+// stores, so adding one entry never rewrites the rest of the dataset.
+export const createIndexedDbRepository = (): PatientRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Object URLs handed out for stored blobs, in both directions so records
+  // read from the repository can be written back without re-uploading images.
+  const objectUrls = new Map<string, string>();
+  const refsByObjectUrl = new Map<string, string>();
+
+  const revokeObjectUrl = (ref: string) => {
+    const objectUrl = objectUrls.get(ref);
+    if (!objectUrl) return;
+    URL.revokeObjectURL(objectUrl);
+    objectUrls.delete(ref);
+    refsByObjectUrl.delete(objectUrl);
+  };
+
+  const revokeAllObjectUrls = () => Array.from(objectUrls.keys()).forEach(revokeObjectUrl);
+
+  const connect = async () => {
+    const db = await openDatabase();
+    try {
+      await importLegacyData(db);
+      await upgradeRecords(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+    // Another tab is upgrading the schema: let it, and reconnect on the next call
+    db.onversionchange = () => {
+      db.close();
+      dbPromise = null;
+      revokeAllObjectUrls();
+    };
+    return db;
+  };
+
+  // A failed connection is not cached, so the next call tries again
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = connect().catch(error => {
+        dbPromise = null;
+        revokeAllObjectUrls();
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  // Move image payloads into the images store and return the reference to keep on the record
+  const toStoredUrl = async (db: IDBDatabase, url: string): Promise<string> => {
+    if (refsByObjectUrl.has(url)) return refsByObjectUrl.get(url)!;
+    if (!url.startsWith('data:')) return url;
+
+    const blob = await (await fetch(url)).blob();
+    const id = crypto.randomUUID();
+    const tx = db.transaction('images', 'readwrite');
+    tx.objectStore('images').put({ id, blob });
+    await transactionDone(tx);
+    return IMAGE_REF_PREFIX + id;
+  };
+
+  const resolveUrl = async (db: IDBDatabase, url: string): Promise<string> => {
+    if (!url.startsWith(IMAGE_REF_PREFIX)) return url;
+    const cached = objectUrls.get(url);
+    if (cached) return cached;
+
+    const id = url.slice(IMAGE_REF_PREFIX.length);
+    const stored = await request<{ id: string, blob: Blob } | undefined>(
+      db.transaction('images').objectStore('images').get(id)
+    );
+    if (!stored) return url;
+    const objectUrl = URL.createObjectURL(stored.blob);
+    objectUrls.set(url, objectUrl);
+    refsByObjectUrl.set(objectUrl, url);
+    return objectUrl;
+  };
+
+  const storeEntry = async (db: IDBDatabase, entry: HistoryEntry): Promise<HistoryEntry> => {
+    const images = entry.images && await Promise.all(entry.images.map(async image => ({ ...image, url: await toStoredUrl(db, image.url) })));
+    // The primary view is also one of the images; store its payload once
+    const primary = entry.images?.findIndex(image => image.url === entry.imageUrl) ?? -1;
+    return {
+      ...entry,
+      imageUrl: primary >= 0 ? images![primary].url : await toStoredUrl(db, entry.imageUrl),
+      images,
+      processedImageUrl: entry.processedImageUrl ? await toStoredUrl(db, entry.processedImageUrl) : undefined,
+      hairMaskUrl: entry.hairMaskUrl ? await toStoredUrl(db, entry.hairMaskUrl) : undefined
+    };
+  };
+
+  const hydrateEntry = async (db: IDBDatabase, { patientId, seq, ...entry }: StoredHistoryEntry): Promise<HistoryEntry> => ({
+    ...entry,
+    imageUrl: await resolveUrl(db, entry.imageUrl),
+    images: entry.images && await Promise.all(entry.images.map(async image => ({ ...image, url: await resolveUrl(db, image.url) }))),
+    processedImageUrl: entry.processedImageUrl ? await resolveUrl(db, entry.processedImageUrl) : undefined,
+    hairMaskUrl: entry.hairMaskUrl ? await resolveUrl(db, entry.hairMaskUrl) : undefined
+  });
+
+  const hydratePatient = async (db: IDBDatabase, { sortKey, ...patient }: StoredPatient, rows: StoredHistoryEntry[]): Promise<PatientRecord> => ({
+    ...patient,
+    img: await resolveUrl(db, patient.img),
+    history: await Promise.all(
+      rows.sort((a, b) => (b.seq ?? 0) - (a.seq ?? 0)).map(row => hydrateEntry(db, row))
+    )
+  });
+
+  const historyRows = (db: IDBDatabase, patientId?: string) => {
+    const store = db.transaction('history').objectStore('history');
+    return request<StoredHistoryEntry[]>(
+      patientId === undefined ? store.getAll() : store.index('patientId').getAll(patientId)
+    );
+  };
+
+  // First run: copy whatever the localStorage backend holds (or its seed data)
+  const importLegacyData = async (db: IDBDatabase) => {
+    const count = await request(db.transaction('patients').objectStore('patients').count());
+    if (count > 0) return;
+
+    const legacy = await createLocalStorageRepository().listPatients();
+    const patients: StoredPatient[] = [];
+    const rows: StoredHistoryEntry[] = [];
+    const messages: StoredMessage[] = [];
+    const directMessages: StoredDirectMessage[] = [];
+
+    for (const [index, { history, messages: patientMessages, directMessages: patientDirectMessages, ...patient }] of legacy.entries()) {
+      patients.push({ ...patient, img: await toStoredUrl(db, patient.img), sortKey: -index });
+      // Oldest first so auto-increment keys preserve the newest-first order
+      for (const entry of [...history].reverse()) {
+        rows.push({ ...(await storeEntry(db, entry)), patientId: patient.id });
+      }
+      patientMessages?.forEach(m => messages.push({ ...m, patientId: patient.id }));
+      patientDirectMessages?.forEach(m => directMessages.push({ ...m, patientId: patient.id }));
+    }
+
+    const tx = db.transaction(['patients', 'history', 'messages', 'directMessages', 'meta'], 'readwrite');
+    patients.forEach(p => tx.objectStore('patients').put(p));
+    rows.forEach(r => tx.objectStore('history').add(r));
+    messages.forEach(m => tx.objectStore('messages').put(m));
+    directMessages.forEach(m => tx.objectStore('directMessages').put(m));
+    tx.objectStore('meta').put(CURRENT_SCHEMA_VERSION, 'schemaVersion');
+    await transactionDone(tx);
+  };
+
+  // Run the shared schema migrations over the stored rows, then validate them.
+  // Databases created before versioning have no schemaVersion and hold V1 records.
+  const upgradeRecords = async (db: IDBDatabase) => {
+    const read = db.transaction(['patients', 'history', 'messages', 'directMessages', 'meta']);
+    const storedVersion = await request<number | undefined>(read.objectStore('meta').get('schemaVersion'));
+    const patients = await request<StoredPatient[]>(read.objectStore('patients').getAll());
+    const rows = await request<StoredHistoryEntry[]>(read.objectStore('history').getAll());
+    const messages = await request<StoredMessage[]>(read.objectStore('messages').getAll());
+    const directMessages = await request<StoredDirectMessage[]>(read.objectStore('directMessages').getAll());
+
+    const fromVersion = storedVersion ?? 1;
+    const records = migrateRecords(patients.map(p => ({
+      ...p,
+      history: rows
+        .filter(r => r.patientId === p.id)
+        .sort((a, b) => (b.seq ?? 0) - (a.seq ?? 0))
+        .map(({ patientId, seq, ...entry }) => entry),
+      messages: messages.filter(m => m.patientId === p.id).map(({ patientId, ...m }) => m),
+      directMessages: directMessages.filter(m => m.patientId === p.id).map(({ patientId, ...m }) => m)
+    })), fromVersion);
+    const { patients: valid, quarantined } = validateRecords(records);
+
+    if (fromVersion === CURRENT_SCHEMA_VERSION && quarantined.length === 0) return;
+
+    const tx = db.transaction(['patients', 'history', 'messages', 'directMessages', 'meta', 'quarantine'], 'readwrite');
+    ['patients', 'history', 'messages', 'directMessages'].forEach(name => tx.objectStore(name).clear());
+    // Validation keeps unknown fields, so sortKey survives on each patient
+    for (const { history, messages: patientMessages, directMessages: patientDirectMessages, ...patient } of valid) {
+      tx.objectStore('patients').put(patient);
+      [...history].reverse().forEach(entry => tx.objectStore('history').add({ ...entry, patientId: patient.id }));
+      patientMessages?.forEach(m => tx.objectStore('messages').put({ ...m, patientId: patient.id }));
+      patientDirectMessages?.forEach(m => tx.objectStore('directMessages').put({ ...m, patientId: patient.id }));
+    }
+    quarantined.forEach((item: QuarantinedItem) => tx.objectStore('quarantine').add(item));
+    tx.objectStore('meta').put(CURRENT_SCHEMA_VERSION, 'schemaVersion');
+    await transactionDone(tx);
+
+    if (quarantined.length > 0) {
+      console.warn(`Quarantined ${quarantined.length} corrupt record(s)`, quarantined.map(i => `${i.kind} ${i.patientId ?? ''}: ${i.reason}`));
+    }
+  };
+
+  // Read-modify-write of one patient row inside a single transaction
+  const patchPatient = async (patientId: string, update: (patient: StoredPatient) => StoredPatient) => {
+    const db = await getDb();
+    const tx = db.transaction('patients', 'readwrite');
+    const patients = tx.objectStore('patients');
+    const patient = await request<StoredPatient | undefined>(patients.get(patientId));
+    if (!patient) {
+      tx.abort();
+      return;
+    }
+    patients.put(update(patient));
+    await transactionDone(tx);
+  };
+
+  // Re-derives the patient's status when the patched entry is the newest
+  const patchEntry = async (patientId: string, entryId: string, patch: (row: StoredHistoryEntry) => StoredHistoryEntry) => {
+    const db = await getDb();
+    const tx = db.transaction(['patients', 'history'], 'readwrite');
+    const history = tx.objectStore('history');
+    const rows = await request<StoredHistoryEntry[]>(history.index('patientId').getAll(patientId));
+    const row = rows.find(r => r.id === entryId);
+    if (!row) {
+      tx.abort();
+      return;
+    }
+    const updated = patch(row);
+    history.put(updated);
+
+    const newest = rows.reduce((a, b) => (b.seq ?? 0) > (a.seq ?? 0) ? b : a);
+    if (newest.id === entryId) {
+      const patients = tx.objectStore('patients');
+      const patient = await request<StoredPatient | undefined>(patients.get(patientId));
+      if (patient) patients.put(applyHistoryEntry(patient, updated));
+    }
+    await transactionDone(tx);
+  };
+
+  return {
+    async listPatients() {
+      const db = await getDb();
+      const stored = await request<StoredPatient[]>(db.transaction('patients').objectStore('patients').getAll());
+      const rows = await historyRows(db);
+      stored.sort((a, b) => b.sortKey - a.sortKey);
+      return Promise.all(stored.map(p => hydratePatient(db, p, rows.filter(r => r.patientId === p.id))));
+    },
+
+    async getPatient(id: string) {
+      const db = await getDb();
+      const stored = await request<StoredPatient | undefined>(db.transaction('patients').objectStore('patients').get(id));
+      if (!stored) return undefined;
+      return hydratePatient(db, stored, await historyRows(db, id));
+    },
+
+    async addPatient(patient: NewPatient) {
+      const db = await getDb();
+      const { messages, directMessages, ...rest } = patient;
+      const stored: StoredPatient = {
+        ...rest,
+        id: newPatientId(),
+        img: await toStoredUrl(db, patient.img),
+        careTeam: patient.careTeam ?? [],
+        lesions: patient.lesions ?? [],
+        sortKey: Date.now() // Newest on top
+      };
+      const tx = db.transaction('patients', 'readwrite');
+      tx.objectStore('patients').add(stored);
+      await transactionDone(tx);
+      return hydratePatient(db, stored, []);
+    },
+
+    async updateCareTeam(patientId: string, careTeam: CareTeamMember[]) {
+      await patchPatient(patientId, patient => ({ ...patient, careTeam }));
+    },
+
+    async updateChatContextExclusions(patientId: string, exclusions: ChatContextField[]) {
+      await patchPatient(patientId, patient => ({ ...patient, chatContextExclusions: exclusions }));
+    },
+
+    async escalate(patientId: string, escalation: Escalation) {
+      await patchPatient(patientId, patient => applyEscalation(patient, escalation));
+    },
+
+    async acknowledgeEscalation(patientId: string, doctorId: string) {
+      await patchPatient(patientId, patient => applyAcknowledgement(patient, doctorId));
+    },
+
+    async updateCarePlan(patientId: string, plan: CarePlan) {
+      await patchPatient(patientId, patient => ({ ...patient, carePlan: plan }));
+    },
+
+    async recordDoseEvent(patientId: string, event: DoseEvent) {
+      await patchPatient(patientId, patient => ({ ...patient, doseLog: [...(patient.doseLog ?? []), event] }));
+    },
+
+    async saveLesion(patientId: string, lesion: Lesion) {
+      await patchPatient(patientId, patient => ({ ...patient, lesions: [...patient.lesions.filter(l => l.id !== lesion.id), lesion] }));
+    },
+
+    async getHistory(patientId: string) {
+      const db = await getDb();
+      const rows = await historyRows(db, patientId);
+      return Promise.all(rows.sort((a, b) => (b.seq ?? 0) - (a.seq ?? 0)).map(row => hydrateEntry(db, row)));
+    },
+
+    async addHistoryEntry(patientId: string, entry: HistoryEntry) {
+      const db = await getDb();
+      const stored = await storeEntry(db, entry);
+
+      const tx = db.transaction(['patients', 'history'], 'readwrite');
+      const patients = tx.objectStore('patients');
+      const patient = await request<StoredPatient | undefined>(patients.get(patientId));
+      if (!patient) {
+        tx.abort();
+        return;
+      }
+      patients.put(applyHistoryEntry(patient, entry));
+      tx.objectStore('history').add({ ...stored, patientId });
+      await transactionDone(tx);
+    },
+
+    async updateHistoryEntry(patientId: string, entryId: string, update: HistoryEntryUpdate) {
+      const db = await getDb();
+      const processedImageUrl = update.processedImageUrl ? await toStoredUrl(db, update.processedImageUrl) : undefined;
+      const hairMaskUrl = update.hairMaskUrl ? await toStoredUrl(db, update.hairMaskUrl) : undefined;
+      const superseded: string[] = [];
+      await patchEntry(patientId, entryId, row => {
+        const updated = { ...row, ...update, ...(processedImageUrl && { processedImageUrl }), ...(hairMaskUrl && { hairMaskUrl }) };
+        [row.processedImageUrl, row.hairMaskUrl]
+          .filter(ref => ref && ref !== updated.processedImageUrl && ref !== updated.hairMaskUrl)
+          .forEach(ref => superseded.push(ref!));
+        return updated;
+      });
+      // Replaced hair-removal output is no longer shown anywhere
+      superseded.forEach(revokeObjectUrl);
+    },
+
+    async signReview(patientId: string, entryId: string, review: ClinicalReview) {
+      await patchEntry(patientId, entryId, row => signedEntry(row, review));
+    },
+
+    async addReviewAddendum(patientId: string, entryId: string, addendum: ReviewAddendum) {
+      await patchEntry(patientId, entryId, row => row.review ? withAddendum(row, addendum) : row);
+    },
+
+    async saveImage(dataUrl: string) {
+      const db = await getDb();
+      return resolveUrl(db, await toStoredUrl(db, dataUrl));
+    },
+
+    async getMessages(patientId: string) {
+      const db = await getDb();
+      const rows = await request<StoredMessage[]>(
+        db.transaction('messages').objectStore('messages').index('patientId').getAll(patientId)
+      );
+      return rows
+        .map(({ patientId: _, ...m }) => m)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    },
+
+    async addMessage(patientId: string, message: Message) {
+      const db = await getDb();
+      const tx = db.transaction('messages', 'readwrite');
+      tx.objectStore('messages').put({ ...message, patientId });
+      await transactionDone(tx);
+    },
+
+    async listThreads(patientId: string) {
+      const db = await getDb();
+      const patient = await request<StoredPatient | undefined>(db.transaction('patients').objectStore('patients').get(patientId));
+      return patient?.threads ?? [];
+    },
+
+    async saveThread(patientId: string, thread: ChatThread) {
+      await patchPatient(patientId, patient => ({
+        ...patient,
+        threads: [...(patient.threads ?? []).filter(t => t.id !== thread.id), thread]
+      }));
+    },
+
+    async getDirectMessages(patientId: string) {
+      const db = await getDb();
+      const rows = await request<StoredDirectMessage[]>(
+        db.transaction('directMessages').objectStore('directMessages').index('patientId').getAll(patientId)
+      );
+      return rows
+        .map(({ patientId: _, ...m }) => m)
+        .sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+    },
+
+    async sendDirectMessage(patientId: string, message: DirectMessage) {
+      const db = await getDb();
+      const tx = db.transaction('directMessages', 'readwrite');
+      tx.objectStore('directMessages').put({ ...message, patientId });
+      await transactionDone(tx);
+    },
+
+    async markDirectMessagesRead(patientId: string, messageIds: string[], readAt: string) {
+      const db = await getDb();
+      const tx = db.transaction('directMessages', 'readwrite');
+      const store = tx.objectStore('directMessages');
+      for (const id of messageIds) {
+        const row = await request<StoredDirectMessage | undefined>(store.get(id));
+        if (row && row.patientId === patientId && !row.readAt) store.put({ ...row, readAt });
+      }
+      await transactionDone(tx);
+    }
+  };
+};
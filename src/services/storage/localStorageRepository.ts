@@ -0,0 +1,210 @@
+import {
+  PatientRecord, HistoryEntry, Message, CareTeamMember, ChatThread, ChatContextField, Escalation, DirectMessage, CarePlan, DoseEvent,
+  HistoryEntryUpdate, Lesion, ClinicalReview, ReviewAddendum
+} from '../../types';
+import { PatientRepository, NewPatient, applyHistoryEntry, applyEscalation, applyAcknowledgement, newPatientId } from './repository';
+import { SEED_DATA } from './seedData';
+import { loadPersistedPatients, serializeEnvelope, QuarantinedItem, UnreadableDataError } from './migrations';
+import { signedEntry, withAddendum } from '../review';
+
+const STORAGE_KEY = 'DERMOLINK_PATIENTS';
+const LEGACY_STORAGE_KEY = 'DERMOLINK_PATIENTS_V1'; // Pre-versioning bare array
+const QUARANTINE_KEY = 'DERMOLINK_QUARANTINE';
+
+const writeAll = (patients: PatientRecord[]) => {
+  localStorage.setItem(STORAGE_KEY, serializeEnvelope(patients));
+};
+
+// Cleaned data is only written back once the rejected records are safely set aside
+const quarantine = (items: QuarantinedItem[]) => {
+  console.warn(`Quarantined ${items.length} corrupt record(s)`, items.map(i => `${i.kind} ${i.patientId ?? ''}: ${i.reason}`));
+  try {
+    const existing: QuarantinedItem[] = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...items]));
+  } catch (error) {
+    throw new UnreadableDataError(`corrupt records could not be quarantined: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const readAll = (): PatientRecord[] => {
+  const stored = localStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) {
+    writeAll(SEED_DATA);
+    return structuredClone(SEED_DATA);
+  }
+
+  const outcome = loadPersistedPatients(stored);
+  if (outcome.quarantined.length > 0) quarantine(outcome.quarantined);
+  if (outcome.changed) {
+    writeAll(outcome.patients);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return outcome.patients;
+};
+
+const patchEntry = (patientId: string, entryId: string, patch: (entry: HistoryEntry) => HistoryEntry) => {
+  const patients = readAll();
+  const index = patients.findIndex(p => p.id === patientId);
+  if (index === -1) return;
+  const history = patients[index].history;
+  const position = history.findIndex(e => e.id === entryId);
+  if (position === -1) return;
+  history[position] = patch(history[position]);
+  if (position === 0) patients[index] = applyHistoryEntry(patients[index], history[0]);
+  writeAll(patients);
+};
+
+// Legacy backend: the whole patient list is one JSON blob, images are inlined
+// as data URLs. Kept for browsers without IndexedDB and for existing data.
+export const createLocalStorageRepository = (): PatientRepository => ({
+  async listPatients() {
+    return readAll();
+  },
+
+  async getPatient(id: string) {
+    return readAll().find(p => p.id === id);
+  },
+
+  async addPatient(patient: NewPatient) {
+    const patients = readAll();
+    const newPatient: PatientRecord = {
+      ...patient,
+      id: newPatientId(),
+      history: [],
+      careTeam: patient.careTeam ?? [],
+      lesions: patient.lesions ?? []
+    };
+    patients.unshift(newPatient); // Add to top
+    writeAll(patients);
+    return newPatient;
+  },
+
+  async updateCareTeam(patientId: string, careTeam: CareTeamMember[]) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.careTeam = careTeam;
+    writeAll(patients);
+  },
+
+  async updateChatContextExclusions(patientId: string, exclusions: ChatContextField[]) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.chatContextExclusions = exclusions;
+    writeAll(patients);
+  },
+
+  async escalate(patientId: string, escalation: Escalation) {
+    const patients = readAll();
+    const index = patients.findIndex(p => p.id === patientId);
+    if (index === -1) return;
+    patients[index] = applyEscalation(patients[index], escalation);
+    writeAll(patients);
+  },
+
+  async acknowledgeEscalation(patientId: string, doctorId: string) {
+    const patients = readAll();
+    const index = patients.findIndex(p => p.id === patientId);
+    if (index === -1) return;
+    patients[index] = applyAcknowledgement(patients[index], doctorId);
+    writeAll(patients);
+  },
+
+  async updateCarePlan(patientId: string, plan: CarePlan) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.carePlan = plan;
+    writeAll(patients);
+  },
+
+  async recordDoseEvent(patientId: string, event: DoseEvent) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.doseLog = [...(patient.doseLog ?? []), event];
+    writeAll(patients);
+  },
+
+  async saveLesion(patientId: string, lesion: Lesion) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.lesions = [...patient.lesions.filter(l => l.id !== lesion.id), lesion];
+    writeAll(patients);
+  },
+
+  async getHistory(patientId: string) {
+    return readAll().find(p => p.id === patientId)?.history ?? [];
+  },
+
+  async addHistoryEntry(patientId: string, entry: HistoryEntry) {
+    const patients = readAll();
+    const index = patients.findIndex(p => p.id === patientId);
+    if (index === -1) return;
+    patients[index] = applyHistoryEntry(patients[index], entry);
+    patients[index].history.unshift(entry);
+    writeAll(patients);
+  },
+
+  async updateHistoryEntry(patientId: string, entryId: string, update: HistoryEntryUpdate) {
+    patchEntry(patientId, entryId, entry => ({ ...entry, ...update }));
+  },
+
+  async signReview(patientId: string, entryId: string, review: ClinicalReview) {
+    patchEntry(patientId, entryId, entry => signedEntry(entry, review));
+  },
+
+  async addReviewAddendum(patientId: string, entryId: string, addendum: ReviewAddendum) {
+    patchEntry(patientId, entryId, entry => entry.review ? withAddendum(entry, addendum) : entry);
+  },
+
+  async saveImage(dataUrl: string) {
+    return dataUrl; // Inlined into the record
+  },
+
+  async getMessages(patientId: string) {
+    return readAll().find(p => p.id === patientId)?.messages ?? [];
+  },
+
+  async addMessage(patientId: string, message: Message) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.messages = [...(patient.messages ?? []), message];
+    writeAll(patients);
+  },
+
+  async listThreads(patientId: string) {
+    return readAll().find(p => p.id === patientId)?.threads ?? [];
+  },
+
+  async saveThread(patientId: string, thread: ChatThread) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.threads = [...(patient.threads ?? []).filter(t => t.id !== thread.id), thread];
+    writeAll(patients);
+  },
+
+  async getDirectMessages(patientId: string) {
+    return readAll().find(p => p.id === patientId)?.directMessages ?? [];
+  },
+
+  async sendDirectMessage(patientId: string, message: DirectMessage) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    patient.directMessages = [...(patient.directMessages ?? []), message];
+    writeAll(patients);
+  },
+
+  async markDirectMessagesRead(patientId: string, messageIds: string[], readAt: string) {
+    const patients = readAll();
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient?.directMessages) return;
+    patient.directMessages = patient.directMessages.map(m => messageIds.includes(m.id) && !m.readAt ? { ...m, readAt } : m);
+    writeAll(patients);
+  }
+});
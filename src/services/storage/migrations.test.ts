@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, UnreadableDataError, loadPersistedPatients, serializeEnvelope, validateRecords } from './migrations';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { SEED_DATA } from './seedData';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+// A patient as the app saved it before versioning
+const legacyPatient = (overrides: Record<string, unknown> = {}) => ({
+  id: '42',
+  name: 'Legacy Patient',
+  age: 50,
+  condition: 'Nevus',
+  lastUpdate: '2 days ago',
+  status: 'Stable',
+  img: 'data:image/png;base64,AAAA',
+  history: [
+    { date: '2024-02-01', imageUrl: 'b.png', notes: 'Smart Alarm check-in', severityScore: 3 },
+    { date: '2024-01-01', imageUrl: 'a.png', notes: 'Clinic visit', severityScore: 4 }
+  ],
+  ...overrides
+});
+
+describe('loadPersistedPatients', () => {
+  it('upgrades a bare V1 array to the current schema', () => {
+    const outcome = loadPersistedPatients(JSON.stringify([legacyPatient()]), NOW);
+    expect(outcome.fromVersion).toBe(1);
+    expect(outcome.changed).toBe(true);
+    expect(outcome.quarantined).toEqual([]);
+
+    const [patient] = outcome.patients;
+    expect(patient.careTeam).toEqual([{ doctorId: 'doc-1', role: 'primary' }]);
+    expect(patient.lesions).toEqual([{ id: '42-lesion-1', label: 'Primary lesion' }]);
+    expect(patient.history.map(e => e.id)).toEqual(['42-1', '42-0']);
+    expect(patient.history.map(e => e.source)).toEqual(['check-in', 'clinician']);
+    expect(patient.history.every(e => e.lesionId === '42-lesion-1')).toBe(true);
+  });
+
+  it('reports current, valid data as unchanged', () => {
+    const outcome = loadPersistedPatients(serializeEnvelope(SEED_DATA), NOW);
+    expect(outcome.fromVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(outcome.changed).toBe(false);
+    expect(outcome.patients).toHaveLength(SEED_DATA.length);
+  });
+
+  it('quarantines corrupt records and keeps the rest', () => {
+    const broken = legacyPatient({ history: [{ date: '2024-01-01', notes: 'no image', severityScore: 2 }, 'garbage'] });
+    const outcome = loadPersistedPatients(JSON.stringify([broken, { id: '7', name: 'No age' }]), NOW);
+
+    expect(outcome.patients.map(p => p.id)).toEqual(['42']);
+    expect(outcome.patients[0].history).toEqual([]);
+    expect(outcome.quarantined.map(q => [q.kind, q.reason])).toEqual([
+      ['history', 'missing imageUrl'],
+      ['history', 'not an object'],
+      ['patient', 'invalid age']
+    ]);
+    expect(outcome.quarantined.every(q => q.quarantinedAt === NOW.toISOString())).toBe(true);
+  });
+
+  it('drops failed analyses that were saved as results', () => {
+    const failed = { diagnosis: 'Analysis Failed', confidence: 0, probabilities: {} };
+    const patient = legacyPatient({
+      history: [{ date: '2024-01-01', imageUrl: 'a.png', notes: 'Smart Alarm check-in', severityScore: 5, source: 'check-in', analysisResult: failed }]
+    });
+    const [entry] = loadPersistedPatients(JSON.stringify([patient]), NOW).patients[0].history;
+    expect(entry.analysisResult).toBeUndefined();
+    expect(entry.severityScore).toBe(0);
+  });
+
+  it('accepts message dates as JSON strings or as the Dates IndexedDB keeps', () => {
+    const message = { id: 'm1', threadId: 'main', role: 'user', text: 'Hello' };
+    const patient = {
+      ...SEED_DATA[0],
+      messages: [
+        { ...message, timestamp: '2025-01-01T10:00:00Z' },
+        { ...message, id: 'm2', timestamp: new Date('2025-01-01T11:00:00Z') },
+        { ...message, id: 'm3', timestamp: { when: 'yesterday' } }
+      ]
+    };
+    const { patients, quarantined } = validateRecords([patient], NOW);
+    expect(patients[0].messages?.map(m => m.timestamp.toISOString())).toEqual(['2025-01-01T10:00:00.000Z', '2025-01-01T11:00:00.000Z']);
+    expect(quarantined.map(q => [q.kind, q.reason])).toEqual([['message', 'invalid timestamp']]);
+  });
+
+  it('refuses data it cannot parse', () => {
+    expect(() => loadPersistedPatients('{"patients": [', NOW)).toThrow(UnreadableDataError);
+    expect(() => loadPersistedPatients('{"hello": 1}', NOW)).toThrow(UnreadableDataError);
+  });
+
+  it('refuses data from a newer version of the app', () => {
+    const newer = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, patients: [] });
+    expect(() => loadPersistedPatients(newer, NOW)).toThrow(/newer than this app/);
+  });
+});
+
+describe('localStorage backend', () => {
+  let store: Map<string, string>;
+  let failWrites: (key: string) => boolean;
+
+  beforeEach(() => {
+    store = new Map();
+    failWrites = () => false;
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (failWrites(key)) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        store.set(key, value);
+      },
+      removeItem: (key: string) => store.delete(key)
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('leaves unreadable data untouched', async () => {
+    store.set('DERMOLINK_PATIENTS', 'not json');
+    await expect(createLocalStorageRepository().listPatients()).rejects.toThrow(UnreadableDataError);
+    await expect(createLocalStorageRepository().addPatient({ ...legacyPatient(), status: 'New' } as any)).rejects.toThrow(UnreadableDataError);
+    expect(store.get('DERMOLINK_PATIENTS')).toBe('not json');
+  });
+
+  it('leaves data from a newer version untouched', async () => {
+    const newer = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, patients: [legacyPatient()] });
+    store.set('DERMOLINK_PATIENTS', newer);
+    await expect(createLocalStorageRepository().listPatients()).rejects.toThrow(UnreadableDataError);
+    expect(store.get('DERMOLINK_PATIENTS')).toBe(newer);
+  });
+
+  it('does not drop corrupt records it could not quarantine', async () => {
+    const stored = JSON.stringify([legacyPatient(), { id: '7' }]);
+    store.set('DERMOLINK_PATIENTS', stored);
+    failWrites = key => key === 'DERMOLINK_QUARANTINE';
+    await expect(createLocalStorageRepository().listPatients()).rejects.toThrow(/could not be quarantined/);
+    expect(store.get('DERMOLINK_PATIENTS')).toBe(stored);
+  });
+
+  it('quarantines corrupt records before writing the cleaned data back', async () => {
+    store.set('DERMOLINK_PATIENTS', JSON.stringify([legacyPatient(), { id: '7' }]));
+    const patients = await createLocalStorageRepository().listPatients();
+    expect(patients.map(p => p.id)).toEqual(['42']);
+    expect(JSON.parse(store.get('DERMOLINK_QUARANTINE')!)).toHaveLength(1);
+    expect(JSON.parse(store.get('DERMOLINK_PATIENTS')!).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,364 @@
+import {
+  PatientRecord, HistoryEntry, HistoryEntrySource, BodySide, ImageView, Message, CareTeamRole, DirectMessage, UserRole, ReviewDecision, ReviewSeverity
+} from '../../types';
+
+// Persisted patient data is versioned. V1 is the original bare JSON array;
+// from V2 on the blob is an envelope carrying its schema version.
+export const CURRENT_SCHEMA_VERSION = 7;
+
+export interface PersistedEnvelope {
+  schemaVersion: number;
+  patients: unknown[];
+}
+
+export interface QuarantinedItem {
+  kind: 'patient' | 'history' | 'message' | 'direct-message';
+  patientId?: string;
+  reason: string;
+  raw: unknown;
+  quarantinedAt: string;
+}
+
+export interface LoadOutcome {
+  patients: PatientRecord[];
+  quarantined: QuarantinedItem[];
+  fromVersion: number;
+  // True when the caller should write the result back (upgraded or cleaned)
+  changed: boolean;
+}
+
+type RawRecord = Record<string, unknown>;
+
+// Stored data this app must not touch: unparseable, written by a newer version, or
+// impossible to set aside safely. Nothing is written back, so the stored copy survives.
+export class UnreadableDataError extends Error {
+  constructor(reason: string) {
+    super(`Stored patient data cannot be read (${reason}). It has been left unchanged.`);
+    this.name = 'UnreadableDataError';
+  }
+}
+
+const LEGACY_DOCTOR_ID = 'doc-1';
+const LEGACY_THREAD_ID = 'main';
+const LEGACY_LESION_LABEL = 'Primary lesion';
+// Diagnosis the analysis service used to save, as if it were a result, when the model failed
+const LEGACY_FAILED_DIAGNOSIS = 'Analysis Failed';
+
+interface MigrationStep {
+  to: number;
+  description: string;
+  migrate: (patient: RawRecord) => RawRecord;
+}
+
+const isObject = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Epoch ms of a stored date: an ISO string or number from JSON, or a Date kept by IndexedDB; NaN for anything else
+const timeOf = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' || value instanceof Date ? new Date(value).getTime() : NaN;
+
+// Apply fn to each history entry that is at least an object; leave the rest for validation to reject
+const mapHistory = (patient: RawRecord, fn: (entry: RawRecord, index: number, all: unknown[]) => RawRecord): RawRecord =>
+  Array.isArray(patient.history)
+    ? { ...patient, history: patient.history.map((e: unknown, i: number, all: unknown[]) => isObject(e) ? fn(e, i, all) : e) }
+    : patient;
+
+const isFailedAnalysis = (entry: RawRecord) =>
+  isObject(entry.analysisResult) && entry.analysisResult.diagnosis === LEGACY_FAILED_DIAGNOSIS;
+
+const inferSource = (entry: RawRecord): HistoryEntrySource => {
+  if (entry.analysisResult) return 'analysis';
+  if (typeof entry.notes === 'string' && entry.notes.includes('Smart Alarm')) return 'check-in';
+  if (entry.severityScore === 0) return 'self-report';
+  return 'clinician';
+};
+
+// Ordered steps; each upgrades one patient record by exactly one version
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    to: 2,
+    description: 'Give every history entry a stable id',
+    // History is newest first, so number from the oldest entry to keep ids stable as entries are added
+    migrate: patient => mapHistory(patient, (entry, index, all) => ({
+      ...entry,
+      id: typeof entry.id === 'string' ? entry.id : `${patient.id}-${all.length - 1 - index}`
+    }))
+  },
+  {
+    to: 3,
+    description: 'Record where each history entry came from',
+    migrate: patient => mapHistory(patient, entry => ({
+      ...entry,
+      source: entry.source ?? inferSource(entry)
+    }))
+  },
+  {
+    to: 4,
+    description: 'Assign every patient to a care team',
+    // Before accounts existed every doctor signed in as Dr. S. Miller, now the seeded doc-1 account
+    migrate: patient => ({
+      ...patient,
+      careTeam: Array.isArray(patient.careTeam) ? patient.careTeam : [{ doctorId: LEGACY_DOCTOR_ID, role: 'primary' }]
+    })
+  },
+  {
+    to: 5,
+    description: 'Group chat messages into threads',
+    migrate: patient => {
+      if (!Array.isArray(patient.messages) || patient.messages.length === 0 || Array.isArray(patient.threads)) return patient;
+      const messages = patient.messages.map((m: unknown) => isObject(m) ? { ...m, threadId: m.threadId ?? LEGACY_THREAD_ID } : m);
+      const times = messages.filter(isObject).map((m: RawRecord) => timeOf(m.timestamp)).filter(Number.isFinite);
+      const at = (time: number) => new Date(Number.isFinite(time) ? time : 0).toISOString();
+      return {
+        ...patient,
+        messages,
+        threads: [{ id: LEGACY_THREAD_ID, title: 'Conversation', createdAt: at(Math.min(...times)), updatedAt: at(Math.max(...times)) }]
+      };
+    }
+  },
+  {
+    to: 6,
+    description: 'Remove failed analyses saved as results',
+    // The photo and notes are kept; the entry goes back to unscored. Entries that only existed
+    // to hold the failed result are left for validation to quarantine.
+    migrate: patient => mapHistory(patient, entry => {
+      if (!isFailedAnalysis(entry) || entry.source === 'analysis') return entry;
+      const { analysisResult, ...rest } = entry;
+      return { ...rest, severityScore: entry.source === 'clinician' ? entry.severityScore : 0 };
+    })
+  },
+  {
+    to: 7,
+    description: 'Track lesions separately',
+    // Records followed one lesion per patient, so its whole history becomes that lesion's. It has no
+    // place on the body map yet, and doctors can move entries that show other lesions.
+    migrate: patient => {
+      if (Array.isArray(patient.lesions)) return patient;
+      const lesionId = `${patient.id}-lesion-1`;
+      return {
+        ...mapHistory(patient, entry => ({ ...entry, lesionId: entry.lesionId ?? lesionId })),
+        lesions: [{ id: lesionId, label: LEGACY_LESION_LABEL }]
+      };
+    }
+  }
+];
+
+export const parseEnvelope = (json: string): PersistedEnvelope => {
+  const parsed: unknown = JSON.parse(json);
+  if (Array.isArray(parsed)) return { schemaVersion: 1, patients: parsed };
+  if (isObject(parsed) && typeof parsed.schemaVersion === 'number' && Array.isArray(parsed.patients)) {
+    return { schemaVersion: parsed.schemaVersion, patients: parsed.patients };
+  }
+  throw new Error('Unrecognized patient data format');
+};
+
+export const serializeEnvelope = (patients: PatientRecord[]): string =>
+  JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, patients });
+
+export const migrateRecords = (records: unknown[], fromVersion: number): unknown[] => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new UnreadableDataError(`schema v${fromVersion} is newer than this app's v${CURRENT_SCHEMA_VERSION}`);
+  }
+  const steps = MIGRATIONS.filter(step => step.to > fromVersion);
+  return records.map(record =>
+    isObject(record) ? steps.reduce((current, step) => step.migrate(current), record) : record
+  );
+};
+
+// --- Validation ---
+
+const STATUSES: PatientRecord['status'][] = ['Critical', 'Stable', 'Improving', 'New'];
+const SOURCES: HistoryEntrySource[] = ['analysis', 'self-report', 'check-in', 'clinician'];
+const VIEWS: ImageView[] = ['overview', 'macro', 'dermoscopy', 'other'];
+const BODY_SIDES: BodySide[] = ['front', 'back'];
+const CARE_TEAM_ROLES: CareTeamRole[] = ['primary', 'consulting', 'read-only'];
+const DECISIONS: ReviewDecision[] = ['confirmed', 'amended', 'rejected'];
+const SEVERITIES: ReviewSeverity[] = ['Low', 'Moderate', 'High', 'Critical'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+const isDate = (value: unknown) => !Number.isNaN(timeOf(value));
+const listOf = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const isQuality = (value: unknown) =>
+  isObject(value) && isNumber(value.score) && Array.isArray(value.issues) && (value.source === 'camera' || value.source === 'file');
+
+const isReview = (value: unknown) =>
+  isObject(value) && isOneOf(DECISIONS, value.decision) && isString(value.diagnosis) && isOneOf(SEVERITIES, value.severity) &&
+  isString(value.findings) && isString(value.signedById) && isString(value.signedAt) &&
+  Array.isArray(value.addenda) && value.addenda.every((a: unknown) => isObject(a) && isString(a.id) && isString(a.text) && isString(a.authorId));
+
+const isLocation = (value: unknown) =>
+  isObject(value) && isOneOf(BODY_SIDES, value.side) && isString(value.region) && isNumber(value.x) && isNumber(value.y);
+
+const patientProblem = (raw: RawRecord): string | null => {
+  if (!isString(raw.id) || !raw.id) return 'missing id';
+  if (!isString(raw.name)) return 'missing name';
+  if (!isNumber(raw.age)) return 'invalid age';
+  if (!isString(raw.condition)) return 'missing condition';
+  if (!isString(raw.lastUpdate)) return 'missing lastUpdate';
+  if (!isOneOf(STATUSES, raw.status)) return `invalid status "${raw.status}"`;
+  if (!isString(raw.img)) return 'missing img';
+  if (!Array.isArray(raw.history)) return 'history is not a list';
+  if (!Array.isArray(raw.lesions)) return 'lesions is not a list';
+  if (raw.lesions.some((l: unknown) => !isObject(l) || !isString(l.id) || !isString(l.label) || (l.location !== undefined && !isLocation(l.location)))) {
+    return 'malformed lesions';
+  }
+  if (raw.messages !== undefined && !Array.isArray(raw.messages)) return 'messages is not a list';
+  if (raw.directMessages !== undefined && !Array.isArray(raw.directMessages)) return 'directMessages is not a list';
+  if (raw.threads !== undefined && (!Array.isArray(raw.threads) || raw.threads.some((t: unknown) => !isObject(t) || !isString(t.id) || !isString(t.title)))) {
+    return 'malformed threads';
+  }
+  if (raw.chatContextExclusions !== undefined && (!Array.isArray(raw.chatContextExclusions) || !raw.chatContextExclusions.every(isString))) {
+    return 'malformed chatContextExclusions';
+  }
+  if (raw.escalation !== undefined && (!isObject(raw.escalation) || !isString(raw.escalation.reason) || !isString(raw.escalation.raisedAt))) {
+    return 'malformed escalation';
+  }
+  if (raw.carePlan !== undefined && (!isObject(raw.carePlan) || !isString(raw.carePlan.timezone) || !Array.isArray(raw.carePlan.items))) {
+    return 'malformed carePlan';
+  }
+  if (raw.doseLog !== undefined && (!Array.isArray(raw.doseLog) || raw.doseLog.some((e: unknown) => !isObject(e) || !isString(e.occurrenceId)))) {
+    return 'malformed doseLog';
+  }
+  if (!Array.isArray(raw.careTeam)) return 'careTeam is not a list';
+  if (raw.careTeam.some((m: unknown) => !isObject(m) || !isString(m.doctorId) || !isOneOf(CARE_TEAM_ROLES, m.role))) {
+    return 'malformed careTeam member';
+  }
+  return null;
+};
+
+const entryProblem = (raw: unknown): string | null => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id)) return 'missing id';
+  if (!isString(raw.lesionId)) return 'missing lesionId';
+  if (!isString(raw.date)) return 'missing date';
+  if (!isString(raw.imageUrl)) return 'missing imageUrl';
+  if (raw.images !== undefined && (!Array.isArray(raw.images) || raw.images.some((i: unknown) => !isObject(i) || !isString(i.id) || !isString(i.url) || !isOneOf(VIEWS, i.view) || (i.quality !== undefined && !isQuality(i.quality))))) {
+    return 'malformed images';
+  }
+  if (raw.processedImageUrl !== undefined && !isString(raw.processedImageUrl)) return 'invalid processedImageUrl';
+  if (raw.processedBy !== undefined && raw.processedBy !== 'local' && raw.processedBy !== 'ai') return `invalid processedBy "${raw.processedBy}"`;
+  if (raw.hairMaskUrl !== undefined && !isString(raw.hairMaskUrl)) return 'invalid hairMaskUrl';
+  if (!isString(raw.notes)) return 'missing notes';
+  if (!isNumber(raw.severityScore)) return 'invalid severityScore';
+  if (!isOneOf(SOURCES, raw.source)) return `invalid source "${raw.source}"`;
+  if (raw.analysisResult !== undefined) {
+    const result = raw.analysisResult;
+    if (!isObject(result) || !isString(result.diagnosis) || !isNumber(result.confidence) || !isObject(result.probabilities)) {
+      return 'malformed analysisResult';
+    }
+    if (isFailedAnalysis(raw)) return 'failed analysis saved as a result';
+  }
+  if (raw.lesionMetrics !== undefined) {
+    const metrics = raw.lesionMetrics;
+    if (!isObject(metrics) || !isNumber(metrics.asymmetry) || !isNumber(metrics.borderIrregularity) || !isNumber(metrics.diameterPx) || !Array.isArray(metrics.colors)) {
+      return 'malformed lesionMetrics';
+    }
+  }
+  if (raw.annotations !== undefined && (!Array.isArray(raw.annotations) || raw.annotations.some((a: unknown) => !isObject(a) || !isString(a.id) || !isString(a.text)))) {
+    return 'malformed annotations';
+  }
+  if (raw.review !== undefined && !isReview(raw.review)) return 'malformed review';
+  if (raw.checkIn !== undefined) {
+    const checkIn = raw.checkIn;
+    if (!isObject(checkIn) || !isString(checkIn.occurrenceId) || !isString(checkIn.itemId) || !isDate(checkIn.completedAt)) {
+      return 'malformed checkIn';
+    }
+  }
+  return null;
+};
+
+const messageProblem = (raw: unknown): string | null => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id)) return 'missing id';
+  if (!isString(raw.threadId)) return 'missing threadId';
+  if (raw.role !== 'user' && raw.role !== 'model') return `invalid role "${raw.role}"`;
+  if (!isString(raw.text)) return 'missing text';
+  if (!isDate(raw.timestamp)) return 'invalid timestamp';
+  return null;
+};
+
+const directMessageProblem = (raw: unknown): string | null => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id)) return 'missing id';
+  if (!isString(raw.senderId)) return 'missing senderId';
+  if (raw.senderRole !== UserRole.PATIENT && raw.senderRole !== UserRole.DOCTOR) return `invalid senderRole "${raw.senderRole}"`;
+  if (!isString(raw.text)) return 'missing text';
+  if (!isDate(raw.sentAt)) return 'invalid sentAt';
+  if (raw.attachmentIds !== undefined && (!Array.isArray(raw.attachmentIds) || !raw.attachmentIds.every(isString))) return 'malformed attachmentIds';
+  return null;
+};
+
+// Keep valid records, set everything else aside with the reason it was rejected
+export const validateRecords = (records: unknown[], now: Date = new Date()): { patients: PatientRecord[], quarantined: QuarantinedItem[] } => {
+  const quarantinedAt = now.toISOString();
+  const quarantined: QuarantinedItem[] = [];
+  const patients: PatientRecord[] = [];
+
+  for (const raw of records) {
+    const problem = isObject(raw) ? patientProblem(raw) : 'not an object';
+    if (problem || !isObject(raw)) {
+      quarantined.push({ kind: 'patient', patientId: isObject(raw) && isString(raw.id) ? raw.id : undefined, reason: problem ?? 'not an object', raw, quarantinedAt });
+      continue;
+    }
+
+    // patientProblem has checked the record's own fields; its lists are checked item by item here
+    const record = raw as unknown as PatientRecord;
+    const patientId = record.id;
+    const lesionIds = new Set(record.lesions.map(l => l.id));
+    const history: HistoryEntry[] = [];
+    for (const entry of listOf(raw.history)) {
+      const lesionId = isObject(entry) ? entry.lesionId : undefined;
+      const reason = entryProblem(entry) ?? (isString(lesionId) && lesionIds.has(lesionId) ? null : `unknown lesion "${lesionId}"`);
+      if (reason) quarantined.push({ kind: 'history', patientId, reason, raw: entry, quarantinedAt });
+      else history.push(entry as HistoryEntry);
+    }
+
+    let messages: Message[] | undefined;
+    if (raw.messages) {
+      messages = [];
+      for (const message of listOf(raw.messages)) {
+        const reason = messageProblem(message);
+        if (reason || !isObject(message)) quarantined.push({ kind: 'message', patientId, reason: reason ?? 'not an object', raw: message, quarantinedAt });
+        // Dates do not survive JSON, so revive timestamps here
+        else messages.push({ ...(message as unknown as Message), timestamp: new Date(timeOf(message.timestamp)) });
+      }
+    }
+
+    let directMessages: DirectMessage[] | undefined;
+    if (raw.directMessages) {
+      directMessages = [];
+      for (const message of listOf(raw.directMessages)) {
+        const reason = directMessageProblem(message);
+        if (reason) quarantined.push({ kind: 'direct-message', patientId, reason, raw: message, quarantinedAt });
+        else directMessages.push(message as DirectMessage);
+      }
+    }
+
+    patients.push({ ...record, history, messages, directMessages });
+  }
+
+  return { patients, quarantined };
+};
+
+// Parse, upgrade and validate a persisted blob. A blob that cannot be parsed or
+// migrated as a whole throws UnreadableDataError rather than being replaced.
+export const loadPersistedPatients = (json: string, now: Date = new Date()): LoadOutcome => {
+  let envelope: PersistedEnvelope;
+  try {
+    envelope = parseEnvelope(json);
+  } catch (error) {
+    throw new UnreadableDataError(error instanceof Error ? error.message : String(error));
+  }
+  const records = migrateRecords(envelope.patients, envelope.schemaVersion);
+
+  const { patients, quarantined } = validateRecords(records, now);
+  return {
+    patients,
+    quarantined,
+    fromVersion: envelope.schemaVersion,
+    changed: envelope.schemaVersion !== CURRENT_SCHEMA_VERSION || quarantined.length > 0
+  };
+};
@@ -0,0 +1,75 @@
+import {
+  PatientRecord, HistoryEntry, Message, CareTeamMember, ChatThread, ChatContextField, Escalation, DirectMessage, CarePlan, DoseEvent,
+  HistoryEntryUpdate, Lesion, ClinicalReview, ReviewAddendum
+} from '../../types';
+
+export type NewPatient = Omit<PatientRecord, 'id' | 'history' | 'careTeam' | 'lesions'> & { careTeam?: CareTeamMember[], lesions?: Lesion[] };
+
+// Contract every storage backend implements. All methods are async so that
+// slow backends (IndexedDB, a future REST API) can be swapped in freely.
+export interface PatientRepository {
+  // Patients
+  listPatients(): Promise<PatientRecord[]>;
+  getPatient(id: string): Promise<PatientRecord | undefined>;
+  addPatient(patient: NewPatient): Promise<PatientRecord>;
+  updateCareTeam(patientId: string, careTeam: CareTeamMember[]): Promise<void>;
+  updateChatContextExclusions(patientId: string, exclusions: ChatContextField[]): Promise<void>;
+  escalate(patientId: string, escalation: Escalation): Promise<void>;
+  acknowledgeEscalation(patientId: string, doctorId: string): Promise<void>;
+
+  // Care plan and what the patient did about each scheduled dose
+  updateCarePlan(patientId: string, plan: CarePlan): Promise<void>;
+  recordDoseEvent(patientId: string, event: DoseEvent): Promise<void>;
+
+  // Lesions on the body map; every history entry belongs to one
+  saveLesion(patientId: string, lesion: Lesion): Promise<void>; // Insert or replace by id
+
+  // History (newest first)
+  getHistory(patientId: string): Promise<HistoryEntry[]>;
+  addHistoryEntry(patientId: string, entry: HistoryEntry): Promise<void>;
+  updateHistoryEntry(patientId: string, entryId: string, update: HistoryEntryUpdate): Promise<void>; // Re-derives status when it is the newest entry
+
+  // Clinician sign-off; the score follows the review, and status is re-derived as for updates
+  signReview(patientId: string, entryId: string, review: ClinicalReview): Promise<void>;
+  addReviewAddendum(patientId: string, entryId: string, addendum: ReviewAddendum): Promise<void>;
+
+  // Images: store a data URL and get back a displayable URL
+  saveImage(dataUrl: string): Promise<string>;
+
+  // Messages (oldest first, all threads) and the threads they belong to
+  getMessages(patientId: string): Promise<Message[]>;
+  addMessage(patientId: string, message: Message): Promise<void>;
+  listThreads(patientId: string): Promise<ChatThread[]>;
+  saveThread(patientId: string, thread: ChatThread): Promise<void>; // Insert or replace by id
+
+  // Patient–doctor messages (oldest first)
+  getDirectMessages(patientId: string): Promise<DirectMessage[]>;
+  sendDirectMessage(patientId: string, message: DirectMessage): Promise<void>;
+  markDirectMessagesRead(patientId: string, messageIds: string[], readAt: string): Promise<void>; // Keeps any earlier readAt
+}
+
+// Update last status based on the newest entry; an open escalation keeps the patient Critical
+export const applyHistoryEntry = <T extends Pick<PatientRecord, 'lastUpdate' | 'status' | 'escalation'>>(patient: T, entry: HistoryEntry): T => ({
+  ...patient,
+  lastUpdate: 'Just now',
+  status: isEscalationOpen(patient) || entry.severityScore > 7 ? 'Critical' : entry.severityScore > 4 ? 'Stable' : 'Improving'
+});
+
+export const isEscalationOpen = (patient: Pick<PatientRecord, 'escalation'>) =>
+  !!patient.escalation && !patient.escalation.acknowledgedAt;
+
+export const applyEscalation = <T extends Pick<PatientRecord, 'lastUpdate' | 'status' | 'escalation'>>(patient: T, escalation: Escalation): T => ({
+  ...patient,
+  lastUpdate: 'Just now',
+  status: 'Critical',
+  escalation
+});
+
+// Acknowledging closes the flag; the status stays Critical until the next history entry
+export const applyAcknowledgement = <T extends Pick<PatientRecord, 'escalation'>>(patient: T, doctorId: string, now = new Date()): T =>
+  patient.escalation
+    ? { ...patient, escalation: { ...patient.escalation, acknowledgedAt: now.toISOString(), acknowledgedBy: doctorId } }
+    : patient;
+
+// Random, so knowing one Patient ID says nothing about the others
+export const newPatientId = () => crypto.randomUUID();
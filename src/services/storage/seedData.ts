@@ -0,0 +1,59 @@
+import { PatientRecord } from '../../types';
+
+export const SEED_DATA: PatientRecord[] = [
+  { 
+    id: '1', 
+    name: 'Alice Johnson', 
+    age: 34, 
+    condition: 'Melanocytic Nevus', 
+    lastUpdate: '2 days ago',
+    status: 'Stable', 
+    img: 'https://picsum.photos/400/400?random=1',
+    careTeam: [{ doctorId: 'doc-1', role: 'primary' }],
+    lesions: [{ id: '1-lesion-1', label: 'Left shoulder mole', location: { side: 'back', region: 'upper-back', x: 0.4, y: 0.239 } }],
+    history: [
+       {
+        id: '1-1',
+        lesionId: '1-lesion-1',
+        source: 'clinician',
+        date: '2024-05-15',
+        imageUrl: 'https://picsum.photos/150/150?random=101',
+        notes: 'Lesion shows slight redness, but no significant increase in size. Continuing topical application recommended.',
+        severityScore: 4
+      },
+      {
+        id: '1-0',
+        lesionId: '1-lesion-1',
+        source: 'clinician',
+        date: '2024-05-12',
+        imageUrl: 'https://picsum.photos/150/150?random=102',
+        notes: 'Initial scan after medication change. Edges appear well-defined compared to previous week.',
+        severityScore: 5
+      }
+    ]
+  },
+  { 
+    id: '2', 
+    name: 'Robert Smith', 
+    age: 52, 
+    condition: 'Basal Cell Carcinoma', 
+    lastUpdate: 'Yesterday',
+    status: 'Critical', 
+    img: 'https://picsum.photos/400/400?random=2',
+    careTeam: [{ doctorId: 'doc-1', role: 'primary' }],
+    lesions: [{ id: '2-lesion-1', label: 'Nose', location: { side: 'front', region: 'face', x: 0.5, y: 0.095 } }],
+    history: []
+  },
+  { 
+    id: '3', 
+    name: 'Maria Garcia', 
+    age: 28, 
+    condition: 'Eczema', 
+    lastUpdate: '1 week ago',
+    status: 'Improving', 
+    img: 'https://picsum.photos/400/400?random=3',
+    careTeam: [{ doctorId: 'doc-1', role: 'primary' }],
+    lesions: [{ id: '3-lesion-1', label: 'Right forearm patch', location: { side: 'front', region: 'right-forearm', x: 0.205, y: 0.466 } }],
+    history: []
+  },
+];
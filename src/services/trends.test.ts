@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildTrend, scoreSource } from './trends';
+import { patientView, signedEntry, withAddendum } from './review';
+import { AnalysisResult, ClinicalReview, HistoryEntry } from '../types';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+let nextId = 0;
+const entry = (date: string, source: HistoryEntry['source'], severityScore: number, overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  id: `e${nextId++}`,
+  lesionId: 'lesion-1',
+  source,
+  date,
+  imageUrl: 'a.png',
+  notes: '',
+  severityScore,
+  ...overrides
+});
+
+const result = (severity: string): AnalysisResult => ({
+  diagnosis: 'Melanoma', confidence: 0.8, probabilities: { Melanoma: 0.8 }, severity, recommendations: [], features: []
+});
+
+const analysis = (date: string, severityScore: number) =>
+  entry(date, 'analysis', severityScore, { analysisResult: result(severityScore > 7 ? 'Critical' : 'Moderate') });
+
+const review = (severity: ClinicalReview['severity']): ClinicalReview => ({
+  decision: 'amended', diagnosis: 'Atypical Nevus', severity, findings: '', signedById: 'doc-1', signedByName: 'Dr. S. Miller',
+  signedAt: '2025-02-20T10:00:00Z', addenda: []
+});
+
+describe('buildTrend', () => {
+  it('counts self-reports and check-ins as unscored activity, never as severity', () => {
+    const trend = buildTrend([entry('2025-02-25', 'self-report', 0), entry('2025-02-25', 'check-in', 0)], 'all', NOW);
+    expect(trend.points).toEqual([{ t: Date.parse('2025-02-25T00:00:00Z'), date: '2025-02-25', ai: null, clinician: null, smoothed: null, unscored: 2 }]);
+    expect(trend).toMatchObject({ scoredCount: 0, unscoredCount: 2, latest: null, change: null, direction: 'insufficient', line: [] });
+  });
+
+  it('keeps unreviewed AI scores apart from clinician scores', () => {
+    const trend = buildTrend([analysis('2025-02-25', 8), entry('2025-02-25', 'clinician', 4)], 'all', NOW);
+    expect(trend.points[0]).toMatchObject({ ai: 8, clinician: 4, smoothed: 6 });
+  });
+
+  it('scores a signed entry as the clinician saw it, including later addenda', () => {
+    const signed = signedEntry(analysis('2025-02-25', 8), review('Moderate'));
+    expect(scoreSource(signed)).toBe('clinician');
+    expect(buildTrend([signed], 'all', NOW).points[0]).toMatchObject({ ai: null, clinician: 5 });
+
+    const revised = withAddendum(signed, {
+      id: 'a1', text: 'Biopsy result', severity: 'Critical', authorId: 'doc-1', authorName: 'Dr. S. Miller', createdAt: '2025-02-27T10:00:00Z'
+    });
+    expect(buildTrend([revised], 'all', NOW).points[0]).toMatchObject({ clinician: 9 });
+    // A text-only addendum leaves the score alone
+    const noted = withAddendum(signed, { id: 'a2', text: 'Patient informed', authorId: 'doc-1', authorName: 'Dr. S. Miller', createdAt: '2025-02-27T10:00:00Z' });
+    expect(noted.severityScore).toBe(5);
+  });
+
+  it('shows patients no unreviewed AI scores', () => {
+    const history = [analysis('2025-02-27', 9), signedEntry(analysis('2025-02-25', 8), review('Low'))].map(patientView);
+    const trend = buildTrend(history, 'all', NOW);
+    expect(trend.points.map(p => [p.date, p.ai, p.clinician, p.unscored])).toEqual([['2025-02-25', null, 2, 0], ['2025-02-27', null, null, 1]]);
+    expect(trend).toMatchObject({ scoredCount: 1, unscoredCount: 1, latest: 2 });
+  });
+
+  it('smooths over time, so a day-to-day change reads as steady', () => {
+    const trend = buildTrend([entry('2025-02-21', 'clinician', 4), entry('2025-02-20', 'clinician', 8)], 'all', NOW);
+    expect(trend.points.map(p => p.smoothed)).toEqual([8, 7.6]);
+    expect(trend).toMatchObject({ change: -0.4, direction: 'steady' });
+  });
+
+  it('reports the change over a week as a percentage improvement', () => {
+    const trend = buildTrend([entry('2025-02-27', 'clinician', 2), entry('2025-02-20', 'clinician', 8)], 'all', NOW);
+    expect(trend).toMatchObject({ latest: 5, change: -3, improvement: 38, direction: 'improving' });
+  });
+
+  it('breaks the line after a long pause and restarts smoothing', () => {
+    const trend = buildTrend([entry('2025-02-15', 'clinician', 4), entry('2025-01-10', 'clinician', 8)], 'all', NOW);
+    expect(trend.gaps).toEqual([{ from: '2025-01-10', to: '2025-02-15' }]);
+    expect(trend.line.map(p => p.smoothed)).toEqual([8, null, 4]);
+    expect(trend.direction).toBe('improving');
+  });
+
+  it('limits points to the range but smooths over the whole history', () => {
+    const history = [entry('2025-02-28', 'clinician', 4), entry('2025-02-27', 'self-report', 0), entry('2025-02-10', 'clinician', 8)];
+    const trend = buildTrend(history, '7d', NOW);
+    expect(trend.points.map(p => p.date)).toEqual(['2025-02-27', '2025-02-28']);
+    expect(trend.points[1].smoothed).toBeGreaterThan(4);
+    expect(trend).toMatchObject({ scoredCount: 1, unscoredCount: 1, change: null, direction: 'insufficient' });
+  });
+
+  it('skips entries with unreadable dates', () => {
+    expect(buildTrend([entry('not a date', 'clinician', 6)], 'all', NOW).points).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { HistoryEntry } from '../types';
+
+// Severity trends over a patient's history. Only AI analyses and clinician
+// assessments carry a real score; self-reports and check-ins are saved with a
+// score of 0, so they are tracked as unscored activity and never plotted as
+// severity until a doctor analyzes them.
+
+export type TrendRange = '7d' | '30d' | '90d' | 'all';
+
+export const TREND_RANGES: { id: TrendRange, label: string, days: number | null }[] = [
+  { id: '7d', label: '7 days', days: 7 },
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: 'all', label: 'All time', days: null }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SMOOTHING_HALF_LIFE_DAYS = 7;
+export const TREND_GAP_DAYS = 21; // No score for this long breaks the line and restarts smoothing
+const STEADY_CHANGE = 0.5; // Smoothed score changes smaller than this are noise
+
+export type ScoreSource = 'ai' | 'clinician';
+
+export const scoreSource = (entry: HistoryEntry): ScoreSource | null => {
+  if (entry.severityScore <= 0) return null;
+  if (entry.review) return 'clinician';
+  if (entry.analysisResult || entry.source === 'analysis') return 'ai';
+  if (entry.source === 'clinician') return 'clinician';
+  return null;
+};
+
+export const isScored = (entry: HistoryEntry) => scoreSource(entry) !== null;
+
+// One point per calendar day with any history (history dates are UTC days).
+// Raw scores of the same day are averaged per source.
+export interface TrendPoint {
+  t: number; // Epoch ms at the start of the day, for a time-proportional axis
+  date: string;
+  ai: number | null;
+  clinician: number | null;
+  smoothed: number | null; // Null on days with only unscored entries
+  unscored: number; // Self-reports and check-ins that day
+}
+
+// The smoothed line; a null value marks a gap the chart must not bridge
+export interface TrendLinePoint {
+  t: number;
+  smoothed: number | null;
+}
+
+export type TrendDirection = 'improving' | 'worsening' | 'steady' | 'insufficient';
+
+export interface TrendSummary {
+  points: TrendPoint[];
+  line: TrendLinePoint[];
+  scoredCount: number; // Entries in range, not days
+  unscoredCount: number;
+  latest: number | null; // Latest smoothed score in range
+  change: number | null; // Latest minus earliest smoothed score in range; negative is better
+  improvement: number | null; // The same change as a percentage reduction; positive is better
+  direction: TrendDirection;
+  gaps: { from: string, to: string }[]; // Breaks in the line within range
+}
+
+const dayStart = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+// Time-aware exponential smoothing: the weight of the previous value halves every half-life,
+// so two scores a day apart blend heavily while a score after a long pause mostly stands alone
+const smoothScores = (days: { t: number, score: number }[]) => {
+  const smoothed: { t: number, value: number, afterGap: boolean }[] = [];
+  for (const day of days) {
+    const previous = smoothed[smoothed.length - 1];
+    const elapsed = previous ? (day.t - previous.t) / DAY_MS : Infinity;
+    if (!previous || elapsed > TREND_GAP_DAYS) {
+      smoothed.push({ t: day.t, value: day.score, afterGap: !!previous });
+      continue;
+    }
+    const keep = Math.pow(0.5, elapsed / SMOOTHING_HALF_LIFE_DAYS);
+    smoothed.push({ t: day.t, value: keep * previous.value + (1 - keep) * day.score, afterGap: false });
+  }
+  return smoothed;
+};
+
+const directionOf = (change: number | null): TrendDirection => {
+  if (change === null) return 'insufficient';
+  if (Math.abs(change) < STEADY_CHANGE) return 'steady';
+  return change < 0 ? 'improving' : 'worsening';
+};
+
+export const buildTrend = (history: HistoryEntry[], range: TrendRange, now: Date = new Date()): TrendSummary => {
+  const valid = history.filter(e => !Number.isNaN(dayStart(e.date)));
+  const byDay = new Map<number, { date: string, ai: number[], clinician: number[], unscored: number }>();
+  for (const entry of valid) {
+    const t = dayStart(entry.date);
+    const day = byDay.get(t) ?? { date: entry.date, ai: [], clinician: [], unscored: 0 };
+    byDay.set(t, day);
+    const source = scoreSource(entry);
+    if (source) day[source].push(entry.severityScore);
+    else day.unscored++;
+  }
+  const days = [...byDay.entries()].sort(([a], [b]) => a - b);
+
+  // Smooth over the whole history so the start of a range is not biased by where it was cut
+  const scoredDays = days.flatMap(([t, day]) => {
+    const score = average([...day.ai, ...day.clinician]);
+    return score === null ? [] : [{ t, score }];
+  });
+  const smoothed = new Map(smoothScores(scoredDays).map(s => [s.t, s]));
+
+  const rangeDays = TREND_RANGES.find(r => r.id === range)?.days ?? null;
+  const from = rangeDays === null ? -Infinity : Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - (rangeDays - 1) * DAY_MS;
+  const inRange = valid.filter(e => dayStart(e.date) >= from);
+
+  const points: TrendPoint[] = [];
+  const line: TrendLinePoint[] = [];
+  const gaps: TrendSummary['gaps'] = [];
+  let previousScored: TrendPoint | null = null;
+  for (const [t, day] of days) {
+    if (t < from) continue;
+    const s = smoothed.get(t);
+    if (s?.afterGap && previousScored) {
+      gaps.push({ from: previousScored.date, to: day.date });
+      line.push({ t: (previousScored.t + t) / 2, smoothed: null });
+    }
+    const point: TrendPoint = {
+      t,
+      date: day.date,
+      ai: average(day.ai),
+      clinician: average(day.clinician),
+      smoothed: s ? Math.round(s.value * 10) / 10 : null,
+      unscored: day.unscored
+    };
+    points.push(point);
+    if (s) {
+      line.push({ t, smoothed: point.smoothed });
+      previousScored = point;
+    }
+  }
+
+  const scoredPoints = points.filter(p => p.smoothed !== null);
+  const first = scoredPoints[0];
+  const last = scoredPoints[scoredPoints.length - 1];
+  const change = scoredPoints.length >= 2 ? Math.round((last.smoothed! - first.smoothed!) * 10) / 10 : null;
+
+  return {
+    points,
+    line,
+    scoredCount: inRange.filter(isScored).length,
+    unscoredCount: inRange.filter(e => !isScored(e)).length,
+    latest: last?.smoothed ?? null,
+    change,
+    improvement: change !== null && first.smoothed! > 0 ? Math.round(-change / first.smoothed! * 100) : null,
+    direction: directionOf(change),
+    gaps
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { classifyByRules, triageMessage } from './triage';
+
+const reasonsFor = (text: string) => classifyByRules(text).reasons;
+
+describe('classifyByRules', () => {
+  it.each([
+    ['My mole started bleeding this morning', 'Lesion is bleeding'],
+    ['There is blood on the bandage', 'Lesion is bleeding'],
+    ["It hasn't stopped bleeding since yesterday", 'Lesion is bleeding'],
+    ["I don't know why but it bled again", 'Lesion is bleeding'],
+    ['It has grown really fast this week', 'Lesion is growing quickly'],
+    ['It doubled in size', 'Lesion is growing quickly'],
+    ['The colour has changed to almost black', 'Lesion has changed colour'],
+    ['It turned purple overnight', 'Lesion has changed colour'],
+    ["The sore won't heal", 'Sore is not healing'],
+    ['It is not healing at all', 'Sore is not healing'],
+    ['I have a fever and the area is red', 'Possible infection'],
+    ['There is pus coming out', 'Possible infection']
+  ])('flags %j', (text, reason) => {
+    const result = classifyByRules(text);
+    expect(result.urgent).toBe(true);
+    expect(result.source).toBe('rules');
+    expect(result.reasons).toContain(reason);
+  });
+
+  it.each([
+    "The colour hasn't changed",
+    "The colour hasn’t changed at all",
+    "I don't have a fever",
+    'Blood test was fine',
+    'My blood pressure came out a bit high',
+    'No bleeding since last week',
+    "It isn't growing fast",
+    "I haven't noticed any pus",
+    "It's not an open sore",
+    'It looks the same as last time'
+  ])('does not flag %j', text => {
+    expect(classifyByRules(text)).toEqual({ urgent: false, reasons: [], source: 'none' });
+  });
+
+  it('keeps negation within its clause', () => {
+    expect(reasonsFor("No fever, but it's bleeding")).toEqual(['Lesion is bleeding']);
+    expect(reasonsFor("It didn't bleed yesterday, it's bleeding now")).toEqual(['Lesion is bleeding']);
+  });
+
+  it('reports every rule that fires', () => {
+    expect(reasonsFor('It is bleeding. It also turned black.')).toEqual(['Lesion is bleeding', 'Lesion has changed colour']);
+  });
+});
+
+describe('triageMessage', () => {
+  it('does not ask the model when a rule fired', async () => {
+    let asked = false;
+    const result = await triageMessage('It is bleeding', async () => {
+      asked = true;
+      return null;
+    });
+    expect(asked).toBe(false);
+    expect(result.source).toBe('rules');
+  });
+
+  it('escalates on the model verdict when no rule fired', async () => {
+    const result = await triageMessage('It feels strange', async () => ({ urgent: true, reason: 'Sudden pain' }));
+    expect(result).toEqual({ urgent: true, reasons: ['Sudden pain'], source: 'model' });
+  });
+
+  it('never escalates when the model is unavailable', async () => {
+    const result = await triageMessage('It feels strange', async () => null);
+    expect(result.urgent).toBe(false);
+  });
+});
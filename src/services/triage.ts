@@ -0,0 +1,123 @@
+import { Escalation, PatientRecord } from '../types';
+import { isEscalationOpen } from './storage/repository';
+
+// Red-flag rules for patient chat messages. Each rule matches within a single
+// sentence, and a match is ignored when its clause negates it anywhere ("no
+// bleeding", "the colour hasn't changed", "I don't have a fever").
+export interface TriageRule {
+  id: string;
+  reason: string;
+  patterns: RegExp[];
+  negativePhrasing?: boolean; // Patterns like "won't heal" carry their own negation word
+}
+
+export const TRIAGE_RULES: TriageRule[] = [
+  {
+    id: 'bleeding',
+    reason: 'Lesion is bleeding',
+    patterns: [
+      /\bbleed(s|ing)?\b/,
+      /\bbled\b/,
+      /\bblood\b(?!\s+(tests?|pressure|sugar|work|type|counts?|results?|donation))[^.!?,]{0,20}\b(on|from|out|coming|came|oozing|dripping|everywhere)\b/,
+      /\b(oozing|dripping|spotting|seeing|see|saw|some|traces? of)\s+blood\b/,
+      /\b(is|was|looks|went|got|getting)\s+(all\s+)?bloody\b/
+    ]
+  },
+  {
+    id: 'rapid-growth',
+    reason: 'Lesion is growing quickly',
+    patterns: [
+      /\b(grow(s|ing|n)?|spread(s|ing)?|bigger|larger)\b[^.!?]{0,30}\b(fast|quick(ly)?|rapid(ly)?|overnight|sudden(ly)?|a lot)\b/,
+      /\b(fast|quick(ly)?|rapid(ly)?|sudden(ly)?)\b[^.!?]{0,20}\b(grow(s|ing|th|n)?|spread(s|ing)?|bigger|larger)\b/,
+      /\bdoubled( in size)?\b/
+    ]
+  },
+  {
+    id: 'colour-change',
+    reason: 'Lesion has changed colour',
+    patterns: [
+      /\bcolou?r\b[^.!?]{0,30}\b(chang(e|es|ed|ing)|different|darker)\b/,
+      /\bchang(e|es|ed|ing)\b[^.!?]{0,15}\bcolou?r\b/,
+      /\b(turn(s|ed|ing)?|gone|going|got|getting)\s+(black|blue|purple|dark(er)?)\b/
+    ]
+  },
+  {
+    id: 'non-healing',
+    reason: 'Sore is not healing',
+    patterns: [/\b(won'?t|will not|doesn'?t|does not|isn'?t|not) heal(ing)?\b/, /\bopen sore\b/, /\bulcer(ated|ating)?\b/],
+    negativePhrasing: true
+  },
+  {
+    id: 'infection',
+    reason: 'Possible infection',
+    patterns: [/\bpus\b/, /\bfever\b/, /\bred streaks?\b/, /\binfect(ed|ion)\b/]
+  }
+];
+
+const NEGATION = /\b(no|not|never|none|nothing|neither|nor|without|stopped|cannot|(do|does|did|is|are|was|were|has|have|had|wo|ca|could|would)n'?t)\b/;
+// Negation words that do not deny the finding: hedges, and symptoms that persist
+const NOT_NEGATING = /\b(not sure|not certain|don'?t know|no idea|(won'?t|can'?t|doesn'?t|didn'?t|hasn'?t|haven'?t|not|never) (stop(ped|ping)?|go(ne|ing)? away))\b/g;
+const CLAUSE_BREAK = /[,;:]|\b(but|and|although|though|however|yet|so|because|since)\b/g;
+
+export interface TriageResult {
+  urgent: boolean;
+  reasons: string[];
+  source: 'rules' | 'model' | 'none';
+}
+
+const sentences = (text: string) => text.toLowerCase().replace(/\u2019/g, "'").split(/[.!?\n]+/).map(s => s.trim()).filter(Boolean);
+
+const negates = (text: string) => NEGATION.test(text.replace(NOT_NEGATING, ''));
+
+// The rest of the clause before and after a match
+const clauseAround = (sentence: string, start: number, end: number) => {
+  let from = 0, to = sentence.length;
+  for (const brk of sentence.matchAll(CLAUSE_BREAK)) {
+    if (brk.index! + brk[0].length <= start) from = brk.index! + brk[0].length;
+    else if (brk.index! >= end) {
+      to = brk.index!;
+      break;
+    }
+  }
+  return { before: sentence.slice(from, start), after: sentence.slice(end, to) };
+};
+
+// Every occurrence is tried, so "no bleeding yesterday, but it's bleeding now" still fires
+const matchesRule = (sentence: string, rule: TriageRule) =>
+  rule.patterns.some(pattern =>
+    Array.from(sentence.matchAll(new RegExp(pattern.source, 'g'))).some(match => {
+      const { before, after } = clauseAround(sentence, match.index!, match.index! + match[0].length);
+      return !negates(before) && !negates(after) && (rule.negativePhrasing || !negates(match[0]));
+    })
+  );
+
+// Rule-only classification; deterministic, so it can be unit tested
+export const classifyByRules = (text: string, rules: TriageRule[] = TRIAGE_RULES): TriageResult => {
+  const parts = sentences(text);
+  const reasons = rules.filter(rule => parts.some(sentence => matchesRule(sentence, rule))).map(rule => rule.reason);
+  return { urgent: reasons.length > 0, reasons, source: reasons.length > 0 ? 'rules' : 'none' };
+};
+
+export type ModelUrgencyCheck = (text: string) => Promise<{ urgent: boolean, reason: string } | null>;
+
+// Rules first; the optional model check only runs when no rule fired, and a
+// failed or unavailable model never escalates on its own.
+export const triageMessage = async (text: string, modelCheck?: ModelUrgencyCheck): Promise<TriageResult> => {
+  const byRules = classifyByRules(text);
+  if (byRules.urgent || !modelCheck) return byRules;
+  const verdict = await modelCheck(text);
+  if (!verdict?.urgent) return byRules;
+  return { urgent: true, reasons: [verdict.reason || 'Flagged by model review'], source: 'model' };
+};
+
+export const toEscalation = (result: TriageResult, messageId: string, now = new Date()): Escalation => ({
+  reason: result.reasons.join('; '),
+  raisedAt: now.toISOString(),
+  messageId
+});
+
+// Open escalations, keyed so each one alerts a doctor once
+export const openEscalations = (patients: PatientRecord[]) =>
+  patients
+    .filter(isEscalationOpen)
+    .map(p => ({ key: `${p.id}:${p.escalation!.raisedAt}`, patient: p, escalation: p.escalation! }));
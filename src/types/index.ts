@@ -4,22 +4,109 @@ export enum UserRole {
   NONE = 'NONE'
 }
 
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  hash: string; // base64
+}
+
 export interface User {
   id: string;
   email: string;
-  password: string; // In a real app, this would be hashed
+  password?: PasswordHash; // Doctors sign in with a password, patients with an OTP
   name: string;
   role: UserRole;
   createdAt: string;
+  patientId?: string; // Links a patient account to its PatientRecord
 }
 
 export interface Message {
   id: string;
+  threadId: string;
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  interrupted?: boolean; // A streamed reply that was stopped or failed partway
 }
 
+// Secure message between a patient and their care team. Any doctor on the
+// care team reads and replies on the patient's single thread.
+export interface DirectMessage {
+  id: string;
+  senderId: string; // User.id
+  senderRole: UserRole;
+  senderName: string;
+  text: string;
+  sentAt: string;
+  attachmentIds?: string[]; // HistoryEntry ids from the patient's history
+  readAt?: string; // Set when the other side first reads it
+}
+
+// One DermoBot conversation. Long threads keep a running summary of the
+// messages that are no longer sent to the model verbatim.
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  summary?: string;
+  summarizedCount?: number; // Number of leading messages covered by summary
+}
+
+// Primary doctors manage the care team; consulting doctors may add to the
+// record; read-only members may only view it.
+export type CareTeamRole = 'primary' | 'consulting' | 'read-only';
+
+export interface CareTeamMember {
+  doctorId: string; // User.id of a doctor account
+  role: CareTeamRole;
+}
+
+// Raised when chat triage flags a patient message as urgent
+export interface Escalation {
+  reason: string;
+  raisedAt: string;
+  messageId?: string; // The patient message that triggered it
+  acknowledgedAt?: string;
+  acknowledgedBy?: string; // User.id of the doctor
+}
+
+// One scheduled part of a care plan: a medication or a photo check-in
+export interface CarePlanItem {
+  id: string;
+  kind: 'medication' | 'check-in';
+  name: string;
+  instructions?: string;
+  times: string[]; // "HH:MM", wall-clock time in the plan's timezone
+  days: number[]; // 0 = Sunday … 6 = Saturday
+  requiresPhoto: boolean; // The alarm is only dismissed by a verified photo
+}
+
+export interface CarePlan {
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+  items: CarePlanItem[];
+  snoozeMinutes: number;
+  maxSnoozes: number;
+  graceMinutes: number; // A dose not taken this long after its time is missed
+  updatedAt: string; // Missed doses are only counted from here on
+  updatedBy: string; // User.id of the doctor
+}
+
+// What the patient did about one scheduled occurrence
+export interface DoseEvent {
+  occurrenceId: string; // See occurrenceId() in scheduling
+  itemId: string;
+  scheduledAt: string;
+  action: 'taken' | 'snoozed';
+  at: string;
+  historyEntryId?: string; // Photo proof, when the item requires one
+  alarmAt?: string; // When the alarm first rang for this occurrence, on taken events
+}
+
+// Parts of the record DermoBot may be told about; doctors can withhold any of them
+export type ChatContextField = 'age' | 'condition' | 'status' | 'severityTrend' | 'latestAnalysis';
+
 export interface PatientRecord {
   id: string; // Links to User.id
   name: string;
@@ -28,17 +115,126 @@ export interface PatientRecord {
   lastUpdate: string;
   status: 'Critical' | 'Stable' | 'Improving' | 'New';
   img: string; // Profile/Reference Image
+  lesions: Lesion[]; // Tracked separately, each with its own history entries
   history: HistoryEntry[];
-  messages?: Message[]; // Chat history
+  messages?: Message[]; // Chat history, across all threads
+  threads?: ChatThread[];
+  directMessages?: DirectMessage[]; // Patient–doctor thread, oldest first
+  careTeam: CareTeamMember[];
+  chatContextExclusions?: ChatContextField[]; // Fields withheld from DermoBot
+  escalation?: Escalation; // Latest urgent flag; status is Critical while it is open
+  carePlan?: CarePlan;
+  doseLog?: DoseEvent[];
+}
+
+export type BodySide = 'front' | 'back';
+
+// A point on the body map; x and y are fractions of the figure's width and height
+export interface BodyLocation {
+  side: BodySide;
+  region: string; // Anatomical region under the point, e.g. 'left-forearm'
+  x: number;
+  y: number;
+}
+
+// One lesion the patient and care team follow over time
+export interface Lesion {
+  id: string;
+  label: string;
+  location?: BodyLocation; // Unset until someone places it on the body map
+}
+
+// Where a history entry came from: an AI analysis, a patient upload,
+// a Smart Alarm check-in or a clinician's own note.
+export type HistoryEntrySource = 'analysis' | 'self-report' | 'check-in' | 'clinician';
+
+// A clinician's note on a history entry, kept apart from the uploader's own notes
+export interface EntryAnnotation {
+  id: string;
+  text: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+}
+
+// A Smart Alarm photo check-in, typed so adherence never depends on parsing notes
+export interface CheckInRecord {
+  occurrenceId: string;
+  itemId: string;
+  itemName: string;
+  scheduledAt: string;
+  alarmAt: string;
+  completedAt: string;
+}
+
+// How a photo of the lesion was taken: a clinical overview of the body area,
+// a close-up (macro), a dermoscope image, or anything else
+export type ImageView = 'overview' | 'macro' | 'dermoscopy' | 'other';
+
+export interface EntryImage {
+  id: string;
+  view: ImageView;
+  url: string;
+  quality?: PhotoQuality; // Checked on the device before upload; absent on photos from before the check
+}
+
+export type PhotoQualityIssue = 'blurry' | 'dark' | 'overexposed' | 'glare';
+
+// Local checks of the area inside the framing guide
+export interface PhotoQuality {
+  score: number; // 0-100
+  sharpness: number; // Variance of the Laplacian of the greyscale image
+  brightness: number; // Mean luminance, 0-255
+  glare: number; // Share of pixels that are blown-out, colourless highlights
+  issues: PhotoQualityIssue[]; // Empty when the photo is good enough to submit
+  source: 'camera' | 'file';
 }
 
 export interface HistoryEntry {
+  id: string;
+  lesionId: string;
+  source: HistoryEntrySource;
   date: string;
-  imageUrl: string;
+  imageUrl: string; // Primary view: the one cleaned, measured and compared
+  images?: EntryImage[]; // Every view, including the primary; absent on entries from before views were tagged
   processedImageUrl?: string;
+  processedBy?: 'local' | 'ai'; // Which hair removal produced processedImageUrl
+  hairMaskUrl?: string; // Hair pixels the local pipeline rebuilt, as a transparent overlay
   notes: string;
   severityScore: number;
   analysisResult?: AnalysisResult;
+  lesionMetrics?: LesionMetrics; // Measured locally from the same image as analysisResult
+  checkIn?: CheckInRecord; // Set on check-in entries made from a scheduled alarm
+  annotations?: EntryAnnotation[];
+  review?: ClinicalReview; // Once signed the entry is read-only; patients see results only from here
+}
+
+// What a clinician may change on an existing entry, including which lesion it shows; the photo and the uploader's notes are fixed
+export type HistoryEntryUpdate = Partial<Pick<HistoryEntry, 'lesionId' | 'analysisResult' | 'lesionMetrics' | 'processedImageUrl' | 'processedBy' | 'hairMaskUrl' | 'severityScore' | 'annotations'>>;
+
+export type ReviewDecision = 'confirmed' | 'amended' | 'rejected';
+export type ReviewSeverity = 'Low' | 'Moderate' | 'High' | 'Critical';
+
+// A clinician's signed judgement of an entry's AI analysis
+export interface ClinicalReview {
+  decision: ReviewDecision;
+  diagnosis: string; // From the controlled vocabulary in services/review
+  severity: ReviewSeverity;
+  findings: string;
+  signedById: string;
+  signedByName: string;
+  signedAt: string; // ISO
+  addenda: ReviewAddendum[]; // Oldest first; the only way to change a signed review
+}
+
+export interface ReviewAddendum {
+  id: string;
+  text: string;
+  diagnosis?: string; // Set when the addendum revises the final diagnosis
+  severity?: ReviewSeverity;
+  authorId: string;
+  authorName: string;
+  createdAt: string; // ISO
 }
 
 export interface AnalysisResult {
@@ -48,6 +244,43 @@ export interface AnalysisResult {
   probabilities: Record<string, number>;
   recommendations: string[];
   features: string[];
+  views?: ViewAnalysis[]; // Per-view results, when several views were fused into this one
+}
+
+export interface ViewAnalysis {
+  imageId?: string;
+  view: ImageView;
+  diagnosis: string;
+  confidence: number;
+  severity: string;
+}
+
+// The six colours of dermoscopy's ABCD rule
+export type DermoscopicColor = 'white' | 'red' | 'light-brown' | 'dark-brown' | 'blue-gray' | 'black';
+
+// Change since the previous measured entry of the same patient
+export interface LesionEvolution {
+  previousEntryId: string;
+  previousDate: string;
+  daysApart: number;
+  asymmetryChange: number;
+  borderChange: number;
+  colorCountChange: number;
+  diameterChangeMm: number | null; // Pixel sizes differ between photos, so only calibrated pairs are compared
+}
+
+// Reproducible ABCDE measurements from segmenting the photo on the device
+export interface LesionMetrics {
+  asymmetry: number; // 0 (symmetric) to 1, averaged over both principal axes
+  asymmetricAxes: number; // 0-2, as scored by the ABCD rule
+  borderIrregularity: number; // Perimeter² / (4π·area): 1 for a circle, higher for ragged borders
+  colors: DermoscopicColor[];
+  diameterPx: number; // Longest span, in pixels of the original photo
+  diameterMm: number | null; // Only when a calibration sticker was found
+  areaFraction: number; // Share of the photo covered by the lesion
+  threshold: number; // Otsu level of the blue channel the lesion was segmented at
+  evolution?: LesionEvolution;
+  measuredAt: string;
 }
 
 export interface AppNotification {
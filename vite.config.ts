@@ -10,7 +10,13 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       // This prevents the app from crashing when accessing process.env.API_KEY
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // Which AI backend this deployment uses, and where the offline model is served from
+      'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER),
+      'process.env.ONNX_MODEL_URL': JSON.stringify(env.ONNX_MODEL_URL),
+      // SMS/email gateway for patient sign-in codes; without one only `vite dev` can sign patients in
+      'process.env.OTP_GATEWAY_URL': JSON.stringify(env.OTP_GATEWAY_URL),
+      'process.env.OTP_ON_SCREEN': JSON.stringify(mode === 'development' ? 'true' : '')
     }
   }
 })
\ No newline at end of file